@@ -3,7 +3,8 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { computed } from 'nanostores';
 import { memo, useEffect, useRef, useState } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
-import type { ActionState } from '~/lib/runtime/action-runner';
+import type { ActionState, CommandResult, FailedActionState } from '~/lib/runtime/action-runner';
+import { queuedMessage } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
@@ -165,20 +166,9 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     <div className="i-ph:x"></div>
                   ) : null}
                 </div>
-                {type === 'file' ? (
-                  <div>
-                    Create{' '}
-                    <code className="bg-conformity-elements-artifacts-inlineCode-background text-conformity-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
-                      {action.filePath}
-                    </code>
-                  </div>
-                ) : type === 'shell' ? (
-                  <div className="flex items-center w-full min-h-[28px]">
-                    <span className="flex-1">Run command</span>
-                  </div>
-                ) : null}
+                <ActionDescription action={action} />
               </div>
-              {type === 'shell' && (
+              {(type === 'shell' || type === 'start') && (
                 <ShellCodeBlock
                   className={classNames('mt-1', {
                     'mb-3.5': !isLast,
@@ -186,6 +176,17 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                   code={content}
                 />
               )}
+              {action.type === 'shell' && action.result && <CommandOutput result={action.result} />}
+              {action.status === 'failed' && <ActionError error={action.error} />}
+              {action.status === 'failed' && action.type === 'shell' && (
+                <button
+                  className="mt-1 ml-6 flex items-center gap-1 text-xs text-conformity-elements-textSecondary hover:text-conformity-elements-textPrimary"
+                  onClick={() => queuedMessage.set(composeFixRequest(action))}
+                >
+                  <span className="i-ph:wrench" />
+                  Send failure to Gleio
+                </button>
+              )}
             </motion.li>
           );
         })}
@@ -194,6 +195,131 @@ const ActionList = memo(({ actions }: ActionListProps) => {
   );
 });
 
+// the first line sums the failure up, the rest is shown on demand
+function ActionError({ error }: { error: string }) {
+  const [summary, ...details] = error.split('\n');
+
+  return (
+    <div className="mt-1 ml-6 text-xs text-conformity-elements-icon-error">
+      {details.length > 0 ? (
+        <details>
+          <summary className="cursor-pointer">{summary}</summary>
+          <pre className="mt-1 max-h-60 overflow-auto whitespace-pre-wrap text-conformity-elements-textSecondary">
+            {details.join('\n').trim()}
+          </pre>
+        </details>
+      ) : (
+        summary
+      )}
+    </div>
+  );
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// collapsed, since the output mostly matters when the command failed
+function CommandOutput({ result }: { result: CommandResult }) {
+  return (
+    <details className="mt-1 ml-6 text-xs text-conformity-elements-textSecondary">
+      <summary className="cursor-pointer">
+        Exited with code {result.exitCode} in {formatDuration(result.durationMs)}
+      </summary>
+      <pre className="mt-1 max-h-60 overflow-auto whitespace-pre-wrap">
+        {result.output ? `${result.truncated ? '…\n' : ''}${result.output}` : 'No output'}
+      </pre>
+    </details>
+  );
+}
+
+/**
+ * A message asking the model to fix the cause of a failed shell command, with the output the
+ * command left.
+ */
+function composeFixRequest(action: FailedActionState) {
+  const command = action.content.trim();
+  const { result } = action;
+  const outcome = result ? `exited with code ${result.exitCode}` : `failed: ${action.error}`;
+  const lines = [`The command \`${command}\` ${outcome}.`];
+
+  if (result?.output) {
+    lines.push(`${result.truncated ? 'The end of its output' : 'Its output'}:`, `\`\`\`\n${result.output}\n\`\`\``);
+  }
+
+  lines.push('Find the cause, fix it and run the command again.');
+
+  return lines.join('\n\n');
+}
+
+function InlinePath({ path }: { path: string }) {
+  return (
+    <code className="bg-conformity-elements-artifacts-inlineCode-background text-conformity-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+      {path}
+    </code>
+  );
+}
+
+function ActionDescription({ action }: { action: ActionState }) {
+  switch (action.type) {
+    case 'file': {
+      return (
+        <div>
+          Create <InlinePath path={action.filePath} />
+        </div>
+      );
+    }
+    case 'shell': {
+      return (
+        <div className="flex items-center w-full min-h-[28px]">
+          <span className="flex-1">Run command</span>
+        </div>
+      );
+    }
+    case 'start': {
+      return (
+        <div className="flex items-center w-full min-h-[28px]">
+          <span className="flex-1">Start dev server</span>
+        </div>
+      );
+    }
+    case 'patch':
+    case 'replace': {
+      return (
+        <div>
+          Edit <InlinePath path={action.filePath} />
+        </div>
+      );
+    }
+    case 'delete': {
+      return (
+        <div>
+          Delete <InlinePath path={action.filePath} />
+        </div>
+      );
+    }
+    case 'rename': {
+      return (
+        <div className="flex flex-wrap items-center gap-1">
+          Move <InlinePath path={action.from} />
+          <span className="i-ph:arrow-right" aria-label="to" />
+          <InlinePath path={action.to} />
+        </div>
+      );
+    }
+    case 'mkdir': {
+      return (
+        <div>
+          Create folder <InlinePath path={action.filePath} />
+        </div>
+      );
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
 function getIconColor(status: ActionState['status']) {
   switch (status) {
     case 'pending': {
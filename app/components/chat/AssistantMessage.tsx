@@ -4,6 +4,11 @@ import { ThinkingProcess } from './ThinkingProcess';
 
 interface AssistantMessageProps {
   content: string;
+
+  /** reasoning streamed as separate parts, for models asked to think for longer */
+  reasoning?: string;
+  reasoningMs?: number;
+  isReasoning?: boolean;
 }
 
 // Pattern to detect thinking process blocks
@@ -25,12 +30,16 @@ function extractThinkingProcess(content: string): { thinking: string | null; res
   return { thinking: null, response: content };
 }
 
-export const AssistantMessage = memo(({ content }: AssistantMessageProps) => {
+export const AssistantMessage = memo(({ content, reasoning, reasoningMs, isReasoning }: AssistantMessageProps) => {
   const { thinking, response } = useMemo(() => extractThinkingProcess(content), [content]);
 
   return (
     <div className="overflow-hidden w-full">
-      {thinking && <ThinkingProcess content={thinking} />}
+      {reasoning || isReasoning ? (
+        <ThinkingProcess content={reasoning ?? ''} durationMs={reasoningMs} isThinking={isReasoning} />
+      ) : (
+        thinking && <ThinkingProcess content={thinking} />
+      )}
       <div 
         className="text-conformity-elements-textPrimary prose prose-sm max-w-none"
         style={{
@@ -7,6 +7,9 @@ import { classNames } from '~/utils/classNames';
 import { Messages } from './Messages.client';
 import { PromptBox } from './PromptBox';
 import GalaxyLogo from '~/components/ui/GalaxyLogo';
+import type { KnowledgeCollection } from '~/lib/stores/knowledge-base';
+import type { ModelInfo } from '~/types/model';
+import type { MessageUsage, UsageQuota } from '~/types/usage';
 
 import styles from './BaseChat.module.scss';
 
@@ -14,6 +17,8 @@ interface ChatMessage {
   id?: string;
   role: 'user' | 'assistant';
   content: string;
+  images?: string[];
+  usage?: MessageUsage;
 }
 
 interface BaseChatProps {
@@ -28,13 +33,26 @@ interface BaseChatProps {
   promptEnhanced?: boolean;
   input?: string;
   handleStop?: () => void;
-  sendMessage?: (event: React.UIEvent, messageInput?: string, deepSearch?: boolean) => void;
+  sendMessage?: (
+    event: React.UIEvent,
+    messageInput?: string,
+    deepSearch?: boolean,
+    imageFile?: File,
+    thinkLonger?: boolean,
+  ) => void;
   handleInputChange?: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
   enhancePrompt?: () => void;
   isHome?: boolean;
   user?: { name?: string };
   deepSearchEnabled?: boolean;
   onToggleDeepSearch?: () => void;
+  models?: ModelInfo[];
+  selectedModel?: string;
+  onModelChange?: (model: string) => void;
+  knowledgeCollections?: KnowledgeCollection[];
+  attachedCollections?: string[];
+  onAttachedCollectionsChange?: (collections: string[]) => void;
+  usageQuota?: UsageQuota;
 }
 
 const SUGGESTION_CHIPS = [
@@ -113,6 +131,13 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       user,
       deepSearchEnabled = false,
       onToggleDeepSearch,
+      models,
+      selectedModel,
+      onModelChange,
+      knowledgeCollections,
+      attachedCollections,
+      onAttachedCollectionsChange,
+      usageQuota,
     },
     ref,
   ) => {
@@ -163,7 +188,14 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                     onStop={handleStop}
                     deepSearchEnabled={deepSearchEnabled}
                     onToggleDeepSearch={onToggleDeepSearch}
-                    onSubmit={(value, imageFile, deepSearch) => {
+                    models={models}
+                    selectedModel={selectedModel}
+                    onModelChange={onModelChange}
+                    knowledgeCollections={knowledgeCollections}
+                    attachedCollections={attachedCollections}
+                    onAttachedCollectionsChange={onAttachedCollectionsChange}
+                    usageQuota={usageQuota}
+                    onSubmit={(value, imageFile, deepSearch, thinkLonger) => {
                       if (isStreaming) {
                         handleStop?.();
                         return;
@@ -175,7 +207,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                         target: { value },
                         currentTarget: { value },
                       } as unknown as React.UIEvent;
-                      sendMessage?.(syntheticEvent, value, deepSearch);
+                      sendMessage?.(syntheticEvent, value, deepSearch, imageFile, thinkLonger);
                     }}
                   />
                 </div>
@@ -210,7 +242,14 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                     onStop={handleStop}
                     deepSearchEnabled={deepSearchEnabled}
                     onToggleDeepSearch={onToggleDeepSearch}
-                    onSubmit={(value, imageFile, deepSearch) => {
+                    models={models}
+                    selectedModel={selectedModel}
+                    onModelChange={onModelChange}
+                    knowledgeCollections={knowledgeCollections}
+                    attachedCollections={attachedCollections}
+                    onAttachedCollectionsChange={onAttachedCollectionsChange}
+                    usageQuota={usageQuota}
+                    onSubmit={(value, imageFile, deepSearch, thinkLonger) => {
                       if (isStreaming) {
                         handleStop?.();
                         return;
@@ -222,7 +261,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                         target: { value },
                         currentTarget: { value },
                       } as unknown as React.UIEvent;
-                      sendMessage?.(syntheticEvent, value, deepSearch);
+                      sendMessage?.(syntheticEvent, value, deepSearch, imageFile, thinkLonger);
                     }}
                   />
                   </div>
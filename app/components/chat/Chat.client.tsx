@@ -1,17 +1,28 @@
-
 import { useStore } from '@nanostores/react';
 import { useChat } from '@ai-sdk/react';
-import { DefaultChatTransport } from 'ai';
+import { type FileUIPart, type UIMessage } from 'ai';
 import { useAnimate } from 'framer-motion';
 import { memo, useEffect, useRef, useState, useMemo, useCallback } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
 import type { LegacyMessage } from '~/lib/hooks/useMessageParser';
-import { useChatHistory } from '~/lib/persistence';
-import { chatStore } from '~/lib/stores/chat';
-import { knowledgeBaseStore } from '~/lib/stores/knowledge-base';
+import { chatId, chatKnowledgeCollections, chatModel, useChatHistory } from '~/lib/persistence';
+import { chatStore, queuedMessage } from '~/lib/stores/chat';
+import { getChatKnowledgeEntries, knowledgeBaseStore } from '~/lib/stores/knowledge-base';
+import { loadModelCatalog, modelCatalogStore } from '~/lib/stores/models';
+import { setSetting, settingsStore } from '~/lib/stores/settings';
+import { handleUsageLimitError, loadUsageQuota, usageQuotaStore } from '~/lib/stores/usage';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { researchStore } from '~/lib/stores/research';
+import {
+  cancelPendingGeneration,
+  clearPendingGeneration,
+  getPendingGeneration,
+  preparePendingResume,
+  ResumableChatTransport,
+  setPendingMessageId,
+} from '~/lib/runtime/resumable-transport';
+import { answerToolCall, isClientToolCall, shouldSendToolResults } from '~/lib/runtime/tool-actions';
 import { fileModificationsToHTML } from '~/utils/diff';
 import { cubicEasingFn } from '~/utils/easings';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
@@ -19,6 +30,8 @@ import { BaseChat } from './BaseChat';
 import { FloatingLogin } from '~/components/auth';
 import { useFloatingLogin } from '~/hooks/useFloatingLogin';
 import { auth } from '~/lib/supabase';
+import type { ChatMessageMetadata } from '~/types/usage';
+import { PROJECT_RULES_FILE, WORK_DIR } from '~/utils/constants';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -27,6 +40,26 @@ const toastAnimation = cssTransition({
 
 const logger = createScopedLogger('Chat');
 
+type ChatMessage = UIMessage<ChatMessageMetadata>;
+
+// mirrors the server limit in `api.chat.ts`
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// a dropped generation is resumed after 1s, 2s and 3s before giving up
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 1000;
+
+function readImageAttachment(file: File): Promise<FileUIPart> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = () =>
+      resolve({ type: 'file', mediaType: file.type, filename: file.name, url: String(reader.result) });
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
 export function Chat({ isHome = false }: { isHome?: boolean }) {
   renderLogger.trace('Chat');
 
@@ -78,412 +111,655 @@ interface ChatProps {
   storeMessageHistory: (messages: unknown[]) => Promise<void>;
 }
 
-export const ChatImpl = memo(({ initialMessages, storeMessageHistory, isHome = false }: ChatProps & { isHome?: boolean }) => {
-  useShortcuts();
+export const ChatImpl = memo(
+  ({ initialMessages, storeMessageHistory, isHome = false }: ChatProps & { isHome?: boolean }) => {
+    useShortcuts();
 
-  const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  const [chatStarted, setChatStarted] = useState((initialMessages as unknown[]).length > 0);
-  const [currentUser, setCurrentUser] = useState<{ name?: string } | undefined>(undefined);
+    const [chatStarted, setChatStarted] = useState((initialMessages as unknown[]).length > 0);
+    const [currentUser, setCurrentUser] = useState<{ name?: string } | undefined>(undefined);
 
-  const { showChat } = useStore(chatStore);
-  const knowledgeBase = useStore(knowledgeBaseStore);
-  const deepSearchEnabled = useStore(researchStore.deepSearchEnabled);
+    const { showChat } = useStore(chatStore);
+    const knowledgeBase = useStore(knowledgeBaseStore);
+    const deepSearchEnabled = useStore(researchStore.deepSearchEnabled);
+    const modelCatalog = useStore(modelCatalogStore);
+    const currentChatModel = useStore(chatModel);
+    const attachedCollections = useStore(chatKnowledgeCollections);
+    const pendingMessage = useStore(queuedMessage);
+    const { defaultModel, actionProtocol, chatIntent } = useStore(settingsStore);
+    const usageQuota = useStore(usageQuotaStore);
 
-  const [animationScope, animate] = useAnimate();
+    const [animationScope, animate] = useAnimate();
 
-  const { isVisible: showFloatingLogin, hideFloatingLogin } = useFloatingLogin();
+    const { isVisible: showFloatingLogin, hideFloatingLogin } = useFloatingLogin();
 
-  // Auto-open workbench when loading old chats with messages
-  useEffect(() => {
-    if ((initialMessages as unknown[]).length > 0) {
-      workbenchStore.showWorkbench.set(true);
-    }
-  }, [initialMessages.length]);
+    useEffect(() => {
+      loadModelCatalog();
+      loadUsageQuota();
+    }, []);
 
-  // Get current user from database profile
-  useEffect(() => {
-    const getCurrentUser = async () => {
-      try {
-        const { user, error } = await auth.getCurrentUser();
-        if (user && !error) {
-          // First try to get profile from database
-          const { getSettingsDataLayer } = await import('~/lib/settings/data');
-          const dataLayer = getSettingsDataLayer();
-          const profileResult = await dataLayer.getProfile();
-
-          if (profileResult.data) {
-            // Use database profile name
-            setCurrentUser({ name: profileResult.data.name });
+    /**
+     * The chat's own model wins over the user's default. Once the catalog is loaded, selections for
+     * models that are no longer configured fall back to the server default.
+     */
+    const selectedModel = useMemo(() => {
+      const preferred = [currentChatModel, defaultModel].filter((model): model is string => Boolean(model));
+
+      if (!modelCatalog.loaded || modelCatalog.models.length === 0) {
+        return preferred[0];
+      }
+
+      return preferred.find((model) => modelCatalog.models.some(({ id }) => id === model)) ?? modelCatalog.defaultModel;
+    }, [currentChatModel, defaultModel, modelCatalog]);
+
+    const handleModelChange = useCallback((model: string) => {
+      chatModel.set(model);
+      setSetting('defaultModel', model);
+    }, []);
+
+    const handleAttachedCollectionsChange = useCallback((collections: string[]) => {
+      chatKnowledgeCollections.set(collections);
+    }, []);
+
+    // Auto-open workbench when loading old chats with messages
+    useEffect(() => {
+      if ((initialMessages as unknown[]).length > 0) {
+        workbenchStore.showWorkbench.set(true);
+      }
+    }, [initialMessages.length]);
+
+    // Get current user from database profile
+    useEffect(() => {
+      const getCurrentUser = async () => {
+        try {
+          const { user, error } = await auth.getCurrentUser();
+
+          if (user && !error) {
+            // First try to get profile from database
+            const { getSettingsDataLayer } = await import('~/lib/settings/data');
+            const dataLayer = getSettingsDataLayer();
+            const profileResult = await dataLayer.getProfile();
+
+            if (profileResult.data) {
+              // Use database profile name
+              setCurrentUser({ name: profileResult.data.name });
+            } else {
+              // Fallback to auth metadata
+              const displayName =
+                user.user_metadata?.full_name || user.user_metadata?.name || user.email?.split('@')[0] || 'there';
+              setCurrentUser({ name: displayName });
+            }
           } else {
-            // Fallback to auth metadata
-            const displayName = user.user_metadata?.full_name ||
-                               user.user_metadata?.name ||
-                               user.email?.split('@')[0] ||
-                               'there';
-            setCurrentUser({ name: displayName });
+            setCurrentUser(undefined);
           }
-        } else {
+        } catch (error) {
+          console.error('Failed to get current user:', error);
           setCurrentUser(undefined);
         }
-      } catch (error) {
-        console.error('Failed to get current user:', error);
-        setCurrentUser(undefined);
-      }
-    };
+      };
 
-    getCurrentUser();
+      getCurrentUser();
 
-    // Listen to auth state changes
-    const { data: { subscription: authSubscription } } = auth.onAuthStateChange(async (event, session) => {
-      if (event === 'SIGNED_IN' && session?.user) {
-        getCurrentUser(); // Re-fetch user data when signed in
-      } else if (event === 'SIGNED_OUT') {
-        setCurrentUser(undefined);
-      }
-    });
+      // Listen to auth state changes
+      const {
+        data: { subscription: authSubscription },
+      } = auth.onAuthStateChange(async (event, session) => {
+        if (event === 'SIGNED_IN' && session?.user) {
+          getCurrentUser(); // Re-fetch user data when signed in
+          loadUsageQuota();
+        } else if (event === 'SIGNED_OUT') {
+          setCurrentUser(undefined);
+          usageQuotaStore.set(undefined);
+        }
+      });
 
-    // Listen to profile updates from settings data layer
-    const setupProfileListener = async () => {
-      const { getSettingsDataLayer } = await import('~/lib/settings/data');
-      const dataLayer = getSettingsDataLayer();
+      // Listen to profile updates from settings data layer
+      const setupProfileListener = async () => {
+        const { getSettingsDataLayer } = await import('~/lib/settings/data');
+        const dataLayer = getSettingsDataLayer();
 
-      const handleProfileUpdate = (payload: any) => {
-        if (payload.eventType === 'UPDATE' && payload.new?.name) {
-          setCurrentUser({ name: payload.new.name });
-        }
+        const handleProfileUpdate = (payload: any) => {
+          if (payload.eventType === 'UPDATE' && payload.new?.name) {
+            setCurrentUser({ name: payload.new.name });
+          }
+        };
+
+        dataLayer.on('profile-update', handleProfileUpdate);
+
+        return () => {
+          dataLayer.off('profile-update', handleProfileUpdate);
+        };
       };
 
-      dataLayer.on('profile-update', handleProfileUpdate);
+      let cleanupProfileListener: (() => void) | undefined;
+
+      setupProfileListener().then((cleanup) => {
+        cleanupProfileListener = cleanup;
+      });
 
       return () => {
-        dataLayer.off('profile-update', handleProfileUpdate);
+        authSubscription.unsubscribe();
+
+        if (cleanupProfileListener) {
+          cleanupProfileListener();
+        }
       };
+    }, []);
+
+    // Floating login handlers
+    const handleGoogleLogin = async () => {
+      const { auth } = await import('~/lib/supabase');
+      const { error } = await auth.signInWithOAuth('google');
+
+      if (error) {
+        console.error('Google login error:', error.message);
+        alert(error.message || 'Google authentication failed. Please try again.');
+        throw error;
+      }
+
+      hideFloatingLogin();
+
+      // OAuth will handle the redirect automatically
     };
 
-    let cleanupProfileListener: (() => void) | undefined;
+    const handleGithubLogin = async () => {
+      const { auth } = await import('~/lib/supabase');
+      const { error } = await auth.signInWithOAuth('github');
+
+      if (error) {
+        console.error('GitHub login error:', error.message);
+        alert(error.message || 'GitHub authentication failed. Please try again.');
+        throw error;
+      }
+
+      hideFloatingLogin();
+
+      // OAuth will handle the redirect automatically
+    };
+
+    // sent with every request, including the ones that send tool results back automatically
+    const requestBodyRef = useRef<Record<string, unknown>>({});
+    const resumeAttemptsRef = useRef(0);
+
+    const { messages, stop, sendMessage, status, setMessages, addToolResult, resumeStream } = useChat<ChatMessage>({
+      transport: new ResumableChatTransport({
+        api: '/api/chat',
+        headers: () => auth.getAuthHeaders(),
+        body: () => requestBodyRef.current,
+        getChatId: () => chatId.get(),
+      }),
+      sendAutomaticallyWhen: shouldSendToolResults,
+      onToolCall: ({ toolCall }) => {
+        // the server acknowledges the tools that change the workspace; reads are answered here
+        if (toolCall.dynamic || !isClientToolCall(toolCall)) {
+          return;
+        }
+
+        const { toolName: tool, toolCallId } = toolCall;
+
+        try {
+          addToolResult({ tool, toolCallId, output: answerToolCall(toolCall, workbenchStore.files.get()) });
+        } catch (error) {
+          addToolResult({ state: 'output-error', tool, toolCallId, errorText: (error as Error).message });
+        }
+      },
+      onError: (error: Error) => {
+        // a dropped connection is resumed in `onFinish`
+        if (error instanceof TypeError && getPendingGeneration()) {
+          logger.warn('Connection lost while streaming\n\n', error);
+          return;
+        }
 
-    setupProfileListener().then(cleanup => {
-      cleanupProfileListener = cleanup;
+        logger.error('Request failed\n\n', error);
+
+        // the transport surfaces the 429 body as the error message
+        const limitError = handleUsageLimitError(error.message);
+        toast.error(limitError ? limitError.error : 'There was an error processing your request');
+      },
+      onFinish: ({ isDisconnect }) => {
+        if (isDisconnect && getPendingGeneration() && resumeAttemptsRef.current < MAX_RESUME_ATTEMPTS) {
+          resumeAttemptsRef.current++;
+
+          // the messages keep what was received, so the generation continues from there
+          setTimeout(() => getPendingGeneration() && resumeStream(), RESUME_DELAY_MS * resumeAttemptsRef.current);
+
+          return;
+        }
+
+        resumeAttemptsRef.current = 0;
+        clearPendingGeneration();
+        loadUsageQuota();
+      },
     });
 
-    return () => {
-      authSubscription.unsubscribe();
-      if (cleanupProfileListener) {
-        cleanupProfileListener();
+    // Load initial messages from history
+    useEffect(() => {
+      if (initialMessages && initialMessages.length > 0 && messages.length === 0) {
+        setMessages(initialMessages as any[]);
+      }
+    }, [initialMessages, messages.length, setMessages]);
+
+    // resume a generation this chat was receiving when the page was reloaded
+    useEffect(() => {
+      const pending = getPendingGeneration();
+
+      if (!pending?.chatId || pending.chatId !== chatId.get()) {
+        return;
       }
+
+      const lastMessage = initialMessages.at(-1) as UIMessage | undefined;
+
+      if (preparePendingResume(lastMessage?.id)) {
+        logger.debug(`Resuming generation ${pending.id}`);
+        resumeStream();
+      }
+    }, []);
+
+    const [input, setInput] = useState('');
+    const handleInputChange: React.ChangeEventHandler<HTMLTextAreaElement> = (event) => {
+      setInput(event.target.value);
     };
-  }, []);
-
-  // Floating login handlers
-  const handleGoogleLogin = async () => {
-    const { auth } = await import('~/lib/supabase');
-    const { error } = await auth.signInWithOAuth('google');
-    if (error) {
-      console.error('Google login error:', error.message);
-      alert(error.message || 'Google authentication failed. Please try again.');
-      throw error;
-    }
-    hideFloatingLogin();
-    // OAuth will handle the redirect automatically
-  };
-
-  const handleGithubLogin = async () => {
-    const { auth } = await import('~/lib/supabase');
-    const { error } = await auth.signInWithOAuth('github');
-    if (error) {
-      console.error('GitHub login error:', error.message);
-      alert(error.message || 'GitHub authentication failed. Please try again.');
-      throw error;
-    }
-    hideFloatingLogin();
-    // OAuth will handle the redirect automatically
-  };
-
-  const { messages, stop, sendMessage, status, setMessages } = useChat({
-    transport: new DefaultChatTransport({ api: '/api/chat' }),
-    onError: (error: Error) => {
-      logger.error('Request failed\n\n', error);
-      toast.error('There was an error processing your request');
-    },
-  });
+    const isLoading = status === 'submitted' || status === 'streaming';
+
+    const { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer } = usePromptEnhancer();
+    const { parsedMessages, parseMessages } = useMessageParser();
+
+    const TEXTAREA_MAX_HEIGHT = chatStarted ? 400 : 200;
+
+    useEffect(() => {
+      chatStore.setKey('started', (initialMessages as unknown[]).length > 0);
+    }, []);
 
-  // Load initial messages from history
-  useEffect(() => {
-    if (initialMessages && initialMessages.length > 0 && messages.length === 0) {
-      setMessages(initialMessages as any[]);
-    }
-  }, [initialMessages, messages.length, setMessages]);
-
-  const [input, setInput] = useState('');
-  const handleInputChange: React.ChangeEventHandler<HTMLTextAreaElement> = (event) => {
-    setInput(event.target.value);
-  };
-  const isLoading = status === 'submitted' || status === 'streaming';
-
-  const { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer } = usePromptEnhancer();
-  const { parsedMessages, parseMessages } = useMessageParser();
-
-  const TEXTAREA_MAX_HEIGHT = chatStarted ? 400 : 200;
-
-  useEffect(() => {
-    chatStore.setKey('started', (initialMessages as unknown[]).length > 0);
-  }, []);
-
-  // Extract concatenated text from a UIMessage's parts
-  const getTextFromMessage = (message: any): string => {
-    try {
-      if (Array.isArray(message?.parts)) {
-        return message.parts
-          .filter((p: any) => p?.type === 'text')
-          .map((p: any) => String(p.text ?? ''))
-          .join('');
+    // Extract concatenated text from a UIMessage's parts
+    const getTextFromMessage = (message: any): string => {
+      try {
+        if (Array.isArray(message?.parts)) {
+          return message.parts
+            .filter((p: any) => p?.type === 'text')
+            .map((p: any) => String(p.text ?? ''))
+            .join('');
+        }
+
+        return String(message?.content ?? '');
+      } catch {
+        return '';
       }
-      return String(message?.content ?? '');
-    } catch {
-      return '';
-    }
-  };
+    };
 
-  const lastMessageContentRef = useRef<string>('');
+    const getReasoningParts = (message: ChatMessage) =>
+      (message.parts ?? []).filter((part) => part.type === 'reasoning');
 
-  useEffect(() => {
-    const legacyMessages = messages.map((m: any) => ({ id: m.id, role: m.role, content: getTextFromMessage(m) }));
+    const lastMessageContentRef = useRef<string>('');
 
-    // Always parse messages - but handle streaming vs complete differently
-    parseMessages(legacyMessages as LegacyMessage[], isLoading);
+    useEffect(() => {
+      const legacyMessages = messages.map((m: any) => ({
+        id: m.id,
+        role: m.role,
+        content: getTextFromMessage(m),
+        parts: m.parts,
+      }));
 
-    // Only save to history when not streaming and we have new messages
-    if (!isLoading && messages.length > initialMessages.length) {
-      storeMessageHistory(legacyMessages as unknown[]).catch((error) => toast.error(error.message));
-    }
-  }, [messages, isLoading, parseMessages, initialMessages.length]);
+      // Always parse messages - but handle streaming vs complete differently
+      parseMessages(legacyMessages as LegacyMessage[], isLoading);
 
-  const scrollTextArea = () => {
-    const textarea = textareaRef.current;
+      if (status === 'streaming' && messages.at(-1)?.role === 'assistant') {
+        setPendingMessageId(messages[messages.length - 1].id);
+      }
 
-    if (textarea) {
-      textarea.scrollTop = textarea.scrollHeight;
-    }
-  };
+      // save to history when not streaming, and once the prompt is sent so it survives a reload mid-response
+      if ((!isLoading || status === 'submitted') && messages.length > initialMessages.length) {
+        // store the UI messages themselves so image parts survive a reload
+        storeMessageHistory(messages as unknown[]).catch((error) => toast.error(error.message));
+      }
+    }, [messages, isLoading, status, parseMessages, initialMessages.length]);
 
-  const abort = () => {
-    stop();
-    chatStore.setKey('aborted', true);
-    workbenchStore.abortAllActions();
-  };
+    const scrollTextArea = () => {
+      const textarea = textareaRef.current;
 
-  useEffect(() => {
-    const textarea = textareaRef.current;
+      if (textarea) {
+        textarea.scrollTop = textarea.scrollHeight;
+      }
+    };
 
-    if (textarea) {
-      textarea.style.height = 'auto';
+    const abort = async () => {
+      const cancelled = cancelPendingGeneration('/api/chat', () => auth.getAuthHeaders());
 
-      const scrollHeight = textarea.scrollHeight;
+      await stop();
+      chatStore.setKey('aborted', true);
+      workbenchStore.abortAllActions();
 
-      textarea.style.height = `${Math.min(scrollHeight, TEXTAREA_MAX_HEIGHT)}px`;
-      textarea.style.overflowY = scrollHeight > TEXTAREA_MAX_HEIGHT ? 'auto' : 'hidden';
-    }
-  }, [input, textareaRef]);
+      // persisted with the message so a reload still shows that it was cut short
+      setMessages((current) =>
+        current.map((message, index) =>
+          index === current.length - 1 && message.role === 'assistant'
+            ? { ...message, metadata: { ...message.metadata, aborted: true } }
+            : message,
+        ),
+      );
 
-  const runAnimation = async () => {
-    if (chatStarted) {
-      return;
-    }
+      await cancelled;
+    };
 
-    await Promise.all([
-      animate('#examples', { opacity: 0, display: 'none' }, { duration: 0.1 }),
-      animate('#intro', { opacity: 0, flex: 1 }, { duration: 0.2, ease: cubicEasingFn }),
-    ]);
+    useEffect(() => {
+      const textarea = textareaRef.current;
 
-    chatStore.setKey('started', true);
+      if (textarea) {
+        textarea.style.height = 'auto';
 
-    setChatStarted(true);
-  };
+        const scrollHeight = textarea.scrollHeight;
 
-  const sendMessageHandler = async (_event: React.UIEvent, messageInput?: string, deepSearch?: boolean) => {
-    const _input = messageInput || input;
+        textarea.style.height = `${Math.min(scrollHeight, TEXTAREA_MAX_HEIGHT)}px`;
+        textarea.style.overflowY = scrollHeight > TEXTAREA_MAX_HEIGHT ? 'auto' : 'hidden';
+      }
+    }, [input, textareaRef]);
+
+    const runAnimation = async () => {
+      if (chatStarted) {
+        return;
+      }
 
-    if (_input.length === 0 || isLoading) {
-      return;
-    }
+      await Promise.all([
+        animate('#examples', { opacity: 0, display: 'none' }, { duration: 0.1 }),
+        animate('#intro', { opacity: 0, flex: 1 }, { duration: 0.2, ease: cubicEasingFn }),
+      ]);
 
-    // Handle deep search mode
-    if (deepSearch) {
-      // Clear input and disable deep search
-      setInput('');
-      researchStore.deepSearchEnabled.set(false);
-      
-      // Run chat start animation if needed
-      if (!chatStarted) {
-        await runAnimation();
+      chatStore.setKey('started', true);
+
+      setChatStarted(true);
+    };
+
+    const sendMessageHandler = async (
+      _event: React.UIEvent,
+      messageInput?: string,
+      deepSearch?: boolean,
+      imageFile?: File,
+      thinkLonger?: boolean,
+    ) => {
+      const _input = messageInput || input;
+
+      if ((_input.length === 0 && !imageFile) || isLoading) {
+        return;
       }
-      
-      // Start research in background
-      try {
-        // Open workbench to Research tab FIRST
-        workbenchStore.showWorkbench.set(true);
-        workbenchStore.currentView.set('research');
-
-        // Add a chat message indicating research started (without triggering transport)
-        const notificationText = `🔍 Starting deep research: "${_input}"\n\n📊 View progress in the Research tab →`;
-        const notificationId = globalThis.crypto?.randomUUID?.() ?? `research-${Date.now()}`;
-
-        setMessages((prevMessages: any[]) => {
-          const nextMessages = Array.isArray(prevMessages) ? [...prevMessages] : [];
-          nextMessages.push({
-            id: notificationId,
-            role: 'assistant',
-            content: notificationText,
-            parts: [
-              {
-                id: `${notificationId}-part`,
-                type: 'text',
-                text: notificationText,
-              },
-            ],
-          });
-          return nextMessages;
-        });
-
-        // Start the actual research
-        await researchStore.startResearch(_input, 'heavy');
-      } catch (error) {
-        toast.error('Failed to start research');
-        console.error('Research error:', error);
-
-        const errorText = '⚠️ Deep research failed to start. Please try again.';
-        const errorId = globalThis.crypto?.randomUUID?.() ?? `research-error-${Date.now()}`;
-
-        setMessages((prevMessages: any[]) => {
-          const nextMessages = Array.isArray(prevMessages) ? [...prevMessages] : [];
-          nextMessages.push({
-            id: errorId,
-            role: 'assistant',
-            content: errorText,
-            parts: [
-              {
-                id: `${errorId}-part`,
-                type: 'text',
-                text: errorText,
-              },
-            ],
+
+      // Handle deep search mode
+      if (deepSearch) {
+        // Clear input and disable deep search
+        setInput('');
+        researchStore.deepSearchEnabled.set(false);
+
+        // Run chat start animation if needed
+        if (!chatStarted) {
+          await runAnimation();
+        }
+
+        // Start research in background
+        try {
+          // Open workbench to Research tab FIRST
+          workbenchStore.showWorkbench.set(true);
+          workbenchStore.currentView.set('research');
+
+          // Add a chat message indicating research started (without triggering transport)
+          const notificationText = `🔍 Starting deep research: "${_input}"\n\n📊 View progress in the Research tab →`;
+          const notificationId = globalThis.crypto?.randomUUID?.() ?? `research-${Date.now()}`;
+
+          setMessages((prevMessages: any[]) => {
+            const nextMessages = Array.isArray(prevMessages) ? [...prevMessages] : [];
+            nextMessages.push({
+              id: notificationId,
+              role: 'assistant',
+              content: notificationText,
+              parts: [
+                {
+                  id: `${notificationId}-part`,
+                  type: 'text',
+                  text: notificationText,
+                },
+              ],
+            });
+
+            return nextMessages;
           });
-          return nextMessages;
-        });
-      }
 
-      return;
-    }
+          // Start the actual research
+          await researchStore.startResearch(_input, 'heavy');
+        } catch (error) {
+          toast.error(error instanceof Error ? error.message : 'Failed to start research');
+          console.error('Research error:', error);
+
+          const errorText = '⚠️ Deep research failed to start. Please try again.';
+          const errorId = globalThis.crypto?.randomUUID?.() ?? `research-error-${Date.now()}`;
+
+          setMessages((prevMessages: any[]) => {
+            const nextMessages = Array.isArray(prevMessages) ? [...prevMessages] : [];
+            nextMessages.push({
+              id: errorId,
+              role: 'assistant',
+              content: errorText,
+              parts: [
+                {
+                  id: `${errorId}-part`,
+                  type: 'text',
+                  text: errorText,
+                },
+              ],
+            });
+
+            return nextMessages;
+          });
+        }
 
-    // Clear input immediately to prevent it from staying in the chatbox
-    setInput('');
+        return;
+      }
 
-    /**
-     * @note (delm) Usually saving files shouldn't take long but it may take longer if there
-     * many unsaved files. In that case we need to block user input and show an indicator
-     * of some kind so the user is aware that something is happening. But I consider the
-     * happy case to be no unsaved files and I would expect users to save their changes
-     * before they send another message.
-     */
-    await workbenchStore.saveAllFiles();
+      let files: FileUIPart[] | undefined;
 
-    const fileModifications = workbenchStore.getFileModifcations();
+      if (imageFile) {
+        const model = modelCatalog.models.find(({ id }) => id === selectedModel);
 
-    chatStore.setKey('aborted', false);
+        if (model?.vision === false) {
+          toast.error(`${model.label} can't read images. Choose a vision-capable model or remove the image.`);
+          return;
+        }
 
-    runAnimation();
+        if (imageFile.size > MAX_IMAGE_BYTES) {
+          toast.error(`Images must be smaller than ${MAX_IMAGE_BYTES / 1024 / 1024}MB`);
+          return;
+        }
 
-    const knowledgePayload = knowledgeBase.entries
-      .map((entry) => ({
-        id: entry.id,
-        title: entry.title.trim(),
-        content: entry.content.trim(),
-      }))
-      .filter((entry) => entry.title || entry.content);
+        try {
+          files = [await readImageAttachment(imageFile)];
+        } catch (error) {
+          logger.error('Failed to read image attachment', error);
+          toast.error('Failed to read the image');
 
-    const chatRequestOptions = knowledgePayload.length > 0 ? { body: { knowledgeBase: knowledgePayload } } : undefined;
+          return;
+        }
+      }
 
-    if (fileModifications !== undefined) {
-      const diff = fileModificationsToHTML(fileModifications);
+      // Clear input immediately to prevent it from staying in the chatbox
+      setInput('');
 
       /**
-       * If we have file modifications we append a new user message manually since we have to prefix
-       * the user input with the file modifications and we don't want the new user input to appear
-       * in the prompt. Using `append` is almost the same as `handleSubmit` except that we have to
-       * manually reset the input and we'd have to manually pass in file attachments. However, those
-       * aren't relevant here.
+       * @note (delm) Usually saving files shouldn't take long but it may take longer if there
+       * many unsaved files. In that case we need to block user input and show an indicator
+       * of some kind so the user is aware that something is happening. But I consider the
+       * happy case to be no unsaved files and I would expect users to save their changes
+       * before they send another message.
        */
-      await sendMessage({ text: `${diff}\n\n${_input}` }, chatRequestOptions);
+      await workbenchStore.saveAllFiles();
 
-      /**
-       * After sending a new message we reset all modifications since the model
-       * should now be aware of all the changes.
-       */
-      workbenchStore.resetAllFileModifications();
-    } else {
-      await sendMessage({ text: _input }, chatRequestOptions);
-    }
+      const diff = fileModificationsToHTML(workbenchStore.getFileModifcations(), workbenchStore.getFailedEdits());
 
-    resetEnhancer();
+      chatStore.setKey('aborted', false);
 
-    textareaRef.current?.blur();
-  };
+      runAnimation();
 
-  const [messageRef, scrollRef] = useSnapScroll();
+      // removing a collection deletes its entries, so stale attached ids match nothing
+      const knowledgePayload = getChatKnowledgeEntries(knowledgeBase, attachedCollections)
+        .map((entry) => ({
+          id: entry.id,
+          title: entry.title.trim(),
+          content: entry.content.trim(),
+        }))
+        .filter((entry) => entry.title || entry.content);
 
-  // Memoize processed messages to prevent unnecessary re-renders
-  const processedMessages = useMemo(() => {
-    return messages.map((message, i) => {
-      const content =
-        message.role === 'assistant'
-          ? parsedMessages[i] || getTextFromMessage(message as any)
-          : getTextFromMessage(message as any);
+      const requestBody: Record<string, unknown> = {};
 
-      return { id: (message as any).id, role: message.role, content } as any;
-    });
-  }, [messages, parsedMessages]);
+      if (knowledgePayload.length > 0) {
+        requestBody.knowledgeBase = knowledgePayload;
+      }
 
-  // Memoize enhance prompt handler to prevent creating new function on every render
-  const handleEnhancePrompt = useCallback(() => {
-    enhancePrompt(input, (enhancedInput) => {
-      setInput(enhancedInput);
-      scrollTextArea();
-    });
-  }, [input, enhancePrompt, scrollTextArea]);
+      // without a model of the user's choosing, the server picks one for the message's intent
+      const chosenModel = [currentChatModel, defaultModel].find((model) => model && model === selectedModel);
 
-  return (
-    <>
-      <BaseChat
-        ref={animationScope}
-        textareaRef={textareaRef}
-        input={input}
-        showChat={showChat}
-        chatStarted={chatStarted}
-        isStreaming={isLoading}
-        enhancingPrompt={enhancingPrompt}
-        promptEnhanced={promptEnhanced}
-        sendMessage={sendMessageHandler}
-        messageRef={messageRef}
-        scrollRef={scrollRef}
-        handleInputChange={handleInputChange}
-        handleStop={abort}
-        isHome={isHome}
-        user={currentUser}
-        messages={processedMessages}
-        deepSearchEnabled={deepSearchEnabled}
-        onToggleDeepSearch={() => researchStore.toggleDeepSearch()}
-        enhancePrompt={handleEnhancePrompt}
-      />
+      if (chosenModel) {
+        requestBody.model = chosenModel;
 
-      {/* Floating Login */}
-      {showFloatingLogin && (
-        <FloatingLogin
-          onGoogleLogin={handleGoogleLogin}
-          onGithubLogin={handleGithubLogin}
-          onClose={hideFloatingLogin}
+        // pin the model to this chat so changing the default later doesn't affect it
+        chatModel.set(chosenModel);
+      }
+
+      if (chatIntent) {
+        requestBody.intent = chatIntent;
+      }
+
+      const projectRules = workbenchStore.files.get()[`${WORK_DIR}/${PROJECT_RULES_FILE}`];
+
+      if (projectRules?.type === 'file' && !projectRules.isBinary && projectRules.content.trim()) {
+        requestBody.projectRules = projectRules.content;
+      }
+
+      if (actionProtocol === 'tools') {
+        requestBody.actionProtocol = 'tools';
+      }
+
+      if (thinkLonger) {
+        requestBody.reasoning = true;
+      }
+
+      requestBodyRef.current = requestBody;
+
+      if (diff !== undefined) {
+        /**
+         * If we have file modifications we append a new user message manually since we have to prefix
+         * the user input with the file modifications and we don't want the new user input to appear
+         * in the prompt. Using `append` is almost the same as `handleSubmit` except that we have to
+         * manually reset the input and we'd have to manually pass in file attachments. However, those
+         * aren't relevant here.
+         */
+        await sendMessage({ text: `${diff}\n\n${_input}`, files });
+
+        /**
+         * After sending a new message we reset all modifications since the model
+         * should now be aware of all the changes.
+         */
+        workbenchStore.resetAllFileModifications();
+      } else {
+        await sendMessage(_input ? { text: _input, files } : { files: files ?? [] });
+      }
+
+      resetEnhancer();
+
+      textareaRef.current?.blur();
+    };
+
+    const [messageRef, scrollRef] = useSnapScroll();
+
+    // Memoize processed messages to prevent unnecessary re-renders
+    const processedMessages = useMemo(() => {
+      return messages.map((message, i) => {
+        const content =
+          message.role === 'assistant'
+            ? parsedMessages[i] || getTextFromMessage(message as any)
+            : getTextFromMessage(message as any);
+
+        const reasoningParts = getReasoningParts(message);
+        const isLastStreaming = isLoading && i === messages.length - 1;
+
+        // messages restored from older chats may only have `content`
+        const images = (message.parts ?? [])
+          .filter((part): part is FileUIPart => part.type === 'file' && part.mediaType.startsWith('image/'))
+          .map((part) => part.url);
+
+        return {
+          id: (message as any).id,
+          role: message.role,
+          content,
+          images,
+          usage: message.metadata?.usage,
+          aborted: message.metadata?.aborted,
+          model: message.metadata?.model,
+          failovers: message.metadata?.failovers,
+          instructions: message.metadata?.instructions,
+          knowledge: message.metadata?.knowledge,
+
+          // reasoning parts are shown on their own and never reach the message parser
+          reasoning: reasoningParts.map((part) => part.text).join('\n\n'),
+          reasoningMs: message.metadata?.reasoningMs,
+          isReasoning: isLastStreaming && reasoningParts.some((part) => part.state === 'streaming'),
+        } as any;
+      });
+    }, [messages, parsedMessages, isLoading]);
+
+    // send messages queued elsewhere, e.g. fix requests for failed actions, once the response is done
+    useEffect(() => {
+      if (!pendingMessage || isLoading) {
+        return;
+      }
+
+      queuedMessage.set(null);
+      sendMessageHandler({} as React.UIEvent, pendingMessage);
+    }, [pendingMessage, isLoading]);
+
+    // Memoize enhance prompt handler to prevent creating new function on every render
+    const handleEnhancePrompt = useCallback(() => {
+      enhancePrompt(input, (enhancedInput) => {
+        setInput(enhancedInput);
+        scrollTextArea();
+      });
+    }, [input, enhancePrompt, scrollTextArea]);
+
+    return (
+      <>
+        <BaseChat
+          ref={animationScope}
+          textareaRef={textareaRef}
+          input={input}
+          showChat={showChat}
+          chatStarted={chatStarted}
+          isStreaming={isLoading}
+          enhancingPrompt={enhancingPrompt}
+          promptEnhanced={promptEnhanced}
+          sendMessage={sendMessageHandler}
+          messageRef={messageRef}
+          scrollRef={scrollRef}
+          handleInputChange={handleInputChange}
+          handleStop={abort}
+          isHome={isHome}
+          user={currentUser}
+          messages={processedMessages}
+          deepSearchEnabled={deepSearchEnabled}
+          onToggleDeepSearch={() => researchStore.toggleDeepSearch()}
+          enhancePrompt={handleEnhancePrompt}
+          models={modelCatalog.models}
+          selectedModel={selectedModel}
+          onModelChange={handleModelChange}
+          knowledgeCollections={knowledgeBase.collections}
+          attachedCollections={attachedCollections}
+          onAttachedCollectionsChange={handleAttachedCollectionsChange}
+          usageQuota={usageQuota}
         />
-      )}
-    </>
-  );
-});
+
+        {/* Floating Login */}
+        {showFloatingLogin && (
+          <FloatingLogin
+            onGoogleLogin={handleGoogleLogin}
+            onGithubLogin={handleGithubLogin}
+            onClose={hideFloatingLogin}
+          />
+        )}
+      </>
+    );
+  },
+);
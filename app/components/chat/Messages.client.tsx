@@ -1,12 +1,63 @@
+import { useStore } from '@nanostores/react';
 import React from 'react';
+import { knowledgeBaseStore, type KnowledgeBaseEntry } from '~/lib/stores/knowledge-base';
+import { modelCatalogStore } from '~/lib/stores/models';
+import { settingsStore } from '~/lib/stores/settings';
+import type { FailoverReason, InstructionSource, MessageUsage, ModelFailover } from '~/types/usage';
 import { classNames } from '~/utils/classNames';
+import { PROJECT_RULES_FILE } from '~/utils/constants';
 import { AssistantMessage } from './AssistantMessage';
+import { TokenUsage, sumUsage } from './TokenUsage';
 import { UserMessage } from './UserMessage';
 
 interface ChatMessage {
   id?: string;
   role: 'user' | 'assistant';
   content: string;
+  images?: string[];
+  usage?: MessageUsage;
+
+  /** the user stopped the response before it finished */
+  aborted?: boolean;
+
+  /** selector of the model that answered, and the ones that failed before it */
+  model?: string;
+  failovers?: ModelFailover[];
+
+  /** standing instructions the response was given */
+  instructions?: InstructionSource[];
+
+  /** ids of the knowledge base entries the response was given */
+  knowledge?: string[];
+
+  reasoning?: string;
+  reasoningMs?: number;
+  isReasoning?: boolean;
+}
+
+const FAILOVER_REASONS: Record<FailoverReason, string> = {
+  error: 'failed',
+  timeout: 'timed out',
+  empty: 'returned an empty response',
+};
+
+const INSTRUCTION_LABELS: Record<InstructionSource, { label: string; title: string }> = {
+  custom: { label: 'Custom instructions', title: 'Followed the custom instructions from your settings' },
+  project: { label: PROJECT_RULES_FILE, title: `Followed the project rules in ${PROJECT_RULES_FILE}` },
+};
+
+function describeFailovers(failovers: ModelFailover[]) {
+  return failovers.map(({ model, reason }) => `${model} ${FAILOVER_REASONS[reason]}`).join('\n');
+}
+
+function describeKnowledge(ids: string[], entries: KnowledgeBaseEntry[]) {
+  const titles = ids.map((id) => {
+    const entry = entries.find((candidate) => candidate.id === id);
+
+    return entry ? entry.title || 'Untitled entry' : 'Deleted entry';
+  });
+
+  return `Used from your knowledge base:\n${titles.join('\n')}`;
 }
 
 interface MessagesProps {
@@ -16,52 +67,113 @@ interface MessagesProps {
   messages?: ChatMessage[];
 }
 
-export const Messages = React.memo(React.forwardRef<HTMLDivElement, MessagesProps>((props: MessagesProps, ref) => {
-  const { id, isStreaming = false, messages = [] } = props;
-
-  return (
-    <div id={id} ref={ref} className={props.className}>
-      {messages.length > 0
-        ? messages.map((message, index) => {
-            const { role, content } = message;
-            const isUserMessage = role === 'user';
-            const isFirst = index === 0;
-            const isLast = index === messages.length - 1;
-
-            return (
-              <div
-                key={index}
-                className={classNames('w-full', {
-                  'mb-8': !isLast,
-                })}
-              >
-                {isUserMessage ? (
-                  <div className="w-full flex justify-end">
-                    <div className="max-w-[70%]">
-                      <div className="bg-conformity-elements-messages-background/60 border border-conformity-elements-borderColor/30 rounded-[20px] px-[14px] py-[10px]">
-                        <UserMessage content={content} />
+export const Messages = React.memo(
+  React.forwardRef<HTMLDivElement, MessagesProps>((props: MessagesProps, ref) => {
+    const { id, isStreaming = false, messages = [] } = props;
+    const { showTokenUsage } = useStore(settingsStore);
+    const { models } = useStore(modelCatalogStore);
+    const { entries: knowledgeEntries } = useStore(knowledgeBaseStore);
+    const chatUsage = showTokenUsage
+      ? sumUsage(messages.flatMap((message) => (message.usage ? [message.usage] : [])))
+      : undefined;
+
+    return (
+      <div id={id} ref={ref} className={props.className}>
+        {messages.length > 0
+          ? messages.map((message, index) => {
+              const { role, content, images, usage, aborted, model, failovers, instructions, knowledge } = message;
+              const { reasoning, reasoningMs, isReasoning } = message;
+              const isUserMessage = role === 'user';
+              const isFirst = index === 0;
+              const isLast = index === messages.length - 1;
+
+              return (
+                <div
+                  key={index}
+                  className={classNames('w-full', {
+                    'mb-8': !isLast,
+                  })}
+                >
+                  {isUserMessage ? (
+                    <div className="w-full flex justify-end">
+                      <div className="max-w-[70%]">
+                        <div className="bg-conformity-elements-messages-background/60 border border-conformity-elements-borderColor/30 rounded-[20px] px-[14px] py-[10px]">
+                          <UserMessage content={content} images={images} />
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ) : (
-                  <div className="w-full">
-                    <div className={classNames('', {
-                      'animate-pulse': isStreaming && isLast,
-                    })}>
-                      <AssistantMessage content={content} />
+                  ) : (
+                    <div className="w-full">
+                      {(model || (instructions && instructions.length > 0) || (knowledge && knowledge.length > 0)) && (
+                        <div className="mb-2 flex items-center gap-1.5 text-xs text-conformity-elements-textTertiary">
+                          {model && (
+                            <span className="truncate">{models.find(({ id }) => id === model)?.label ?? model}</span>
+                          )}
+                          {failovers && failovers.length > 0 && (
+                            <span className="flex items-center gap-0.5" title={describeFailovers(failovers)}>
+                              <div className="i-ph:arrows-clockwise" />
+                              Fallback
+                            </span>
+                          )}
+                          {instructions?.map((source) => (
+                            <span
+                              key={source}
+                              className="flex items-center gap-0.5"
+                              title={INSTRUCTION_LABELS[source].title}
+                            >
+                              <div className="i-ph:scroll" />
+                              {INSTRUCTION_LABELS[source].label}
+                            </span>
+                          ))}
+                          {knowledge && knowledge.length > 0 && (
+                            <span
+                              className="flex items-center gap-0.5"
+                              title={describeKnowledge(knowledge, knowledgeEntries)}
+                            >
+                              <div className="i-ph:books" />
+                              {knowledge.length === 1 ? '1 knowledge entry' : `${knowledge.length} knowledge entries`}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      <div
+                        className={classNames('', {
+                          'animate-pulse': isStreaming && isLast,
+                        })}
+                      >
+                        <AssistantMessage
+                          content={content}
+                          reasoning={reasoning}
+                          reasoningMs={reasoningMs}
+                          isReasoning={isReasoning}
+                        />
+                      </div>
+                      {aborted && (
+                        <div className="mt-2 flex items-center gap-1 text-xs text-conformity-elements-textTertiary">
+                          <div className="i-ph:stop-circle" />
+                          Stopped
+                        </div>
+                      )}
+                      {showTokenUsage && usage && <TokenUsage usage={usage} className="mt-2" />}
                     </div>
-                  </div>
-                )}
-              </div>
-            );
-          })
-        : null}
-      {isStreaming && (
-        <div className="flex items-center gap-1 w-full max-w-3xl px-4 py-2 text-conformity-elements-textSecondary">
-          <div className="i-svg-spinners:3-dots-fade text-xl"></div>
-        </div>
-      )}
-    </div>
-  );
-}));
-
+                  )}
+                </div>
+              );
+            })
+          : null}
+        {chatUsage && (
+          <TokenUsage
+            usage={chatUsage}
+            label="Chat total"
+            className="mt-6 pt-3 border-t border-conformity-elements-borderColor/30"
+          />
+        )}
+        {isStreaming && (
+          <div className="flex items-center gap-1 w-full max-w-3xl px-4 py-2 text-conformity-elements-textSecondary">
+            <div className="i-svg-spinners:3-dots-fade text-xl"></div>
+          </div>
+        )}
+      </div>
+    );
+  }),
+);
@@ -2,6 +2,9 @@ import * as React from "react";
 import * as TooltipPrimitive from "@radix-ui/react-tooltip";
 import * as PopoverPrimitive from "@radix-ui/react-popover";
 import * as DialogPrimitive from "@radix-ui/react-dialog";
+import type { KnowledgeCollection } from '~/lib/stores/knowledge-base';
+import type { ModelInfo } from '~/types/model';
+import type { UsageQuota } from '~/types/usage';
 
 // --- Utility Function & Radix Primitives ---
 type ClassValue = string | number | boolean | null | undefined;
@@ -191,27 +194,100 @@ const SparkleIcon = (props: React.SVGProps<SVGSVGElement>) => (
   </svg>
 );
 
+const BooksIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    {...(props as any)}
+  >
+    <path d="M4 19V5a1 1 0 0 1 1-1h3a1 1 0 0 1 1 1v14a1 1 0 0 1-1 1H5a1 1 0 0 1-1-1Z" />
+    <path d="M9 8h0" />
+    <path d="m13.5 5.5 2.9-.8a1 1 0 0 1 1.2.7l3.6 13.4a1 1 0 0 1-.7 1.2l-2.9.8a1 1 0 0 1-1.2-.7L12.8 6.7a1 1 0 0 1 .7-1.2Z" />
+  </svg>
+);
+
+const ChevronDownIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" {...(props as any)}>
+    <path d="m6 9 6 6 6-6" />
+  </svg>
+);
+
+function formatContextWindow(tokens?: number) {
+  if (!tokens) {
+    return undefined;
+  }
+
+  return tokens >= 1_000_000 ? `${Math.round(tokens / 1_000_000)}M` : `${Math.round(tokens / 1000)}K`;
+}
+
+function formatCost(model: ModelInfo) {
+  if (model.inputCostPerToken === undefined || model.outputCostPerToken === undefined) {
+    return undefined;
+  }
+
+  if (model.inputCostPerToken === 0 && model.outputCostPerToken === 0) {
+    return 'Free';
+  }
+
+  const perMillion = (cost: number) => `$${Number((cost * 1_000_000).toFixed(2))}`;
+
+  return `${perMillion(model.inputCostPerToken)} / ${perMillion(model.outputCostPerToken)} per 1M`;
+}
+
 const toolsList = [
   { id: 'createImage', name: 'Create an image', shortName: 'Image', icon: PaintBrushIcon },
   { id: 'searchWeb', name: 'Search the web', shortName: 'Search', icon: GlobeIcon },
   { id: 'writeCode', name: 'Write or code', shortName: 'Write', icon: PencilIcon },
-  { id: 'deepResearch', name: 'Run deep research', shortName: 'Deep Search', icon: TelescopeIcon, extra: '5 left' },
+  { id: 'deepResearch', name: 'Run deep research', shortName: 'Deep Search', icon: TelescopeIcon },
   { id: 'thinkLonger', name: 'Think for longer', shortName: 'Think', icon: LightbulbIcon },
 ];
 
 interface PromptBoxProps extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'onSubmit'> {
-  onSubmit?: (value: string, imageFile?: File, deepSearch?: boolean) => void;
+  onSubmit?: (value: string, imageFile?: File, deepSearch?: boolean, thinkLonger?: boolean) => void;
   onEnhance?: () => void;
   enhancingPrompt?: boolean;
   isStreaming?: boolean;
   onStop?: () => void;
   deepSearchEnabled?: boolean;
   onToggleDeepSearch?: () => void;
+  models?: ModelInfo[];
+  selectedModel?: string;
+  onModelChange?: (model: string) => void;
+  knowledgeCollections?: KnowledgeCollection[];
+  attachedCollections?: string[];
+  onAttachedCollectionsChange?: (collections: string[]) => void;
+  usageQuota?: UsageQuota;
 }
 
 // --- The Final, Self-Contained PromptBox Component ---
 export const PromptBox = React.forwardRef<HTMLTextAreaElement, PromptBoxProps>(
-  ({ className, onSubmit, onEnhance, enhancingPrompt, value: externalValue, onChange, deepSearchEnabled = false, onToggleDeepSearch, ...props }, ref) => {
+  (
+    {
+      className,
+      onSubmit,
+      onEnhance,
+      enhancingPrompt,
+      value: externalValue,
+      onChange,
+      deepSearchEnabled = false,
+      onToggleDeepSearch,
+      models = [],
+      selectedModel,
+      onModelChange,
+      knowledgeCollections = [],
+      attachedCollections = [],
+      onAttachedCollectionsChange,
+      usageQuota,
+      ...props
+    },
+    ref,
+  ) => {
     const internalTextareaRef = React.useRef<HTMLTextAreaElement>(null);
     const fileInputRef = React.useRef<HTMLInputElement>(null);
     const [internalValue, setInternalValue] = React.useState("");
@@ -220,6 +296,8 @@ export const PromptBox = React.forwardRef<HTMLTextAreaElement, PromptBoxProps>(
     const [selectedTool, setSelectedTool] = React.useState<string | null>(null);
     const [isPopoverOpen, setIsPopoverOpen] = React.useState(false);
     const [isImageDialogOpen, setIsImageDialogOpen] = React.useState(false);
+    const [isModelPopoverOpen, setIsModelPopoverOpen] = React.useState(false);
+    const [isKnowledgePopoverOpen, setIsKnowledgePopoverOpen] = React.useState(false);
 
     // Use external value if provided (controlled), otherwise use internal value (uncontrolled)
     const isControlled = externalValue !== undefined;
@@ -262,7 +340,7 @@ export const PromptBox = React.forwardRef<HTMLTextAreaElement, PromptBoxProps>(
 
     const handleSubmit = () => {
       if (hasValue && onSubmit) {
-        onSubmit(String(value), imageFile || undefined, deepSearchEnabled);
+        onSubmit(String(value), imageFile || undefined, deepSearchEnabled, selectedTool === 'thinkLonger');
         if (!isControlled) {
           setInternalValue("");
         }
@@ -301,6 +379,27 @@ export const PromptBox = React.forwardRef<HTMLTextAreaElement, PromptBoxProps>(
     const hasValue = String(value).trim().length > 0 || imagePreview;
     const activeTool = selectedTool ? toolsList.find(t => t.id === selectedTool) : null;
     const ActiveToolIcon = activeTool?.icon;
+    const activeModel = models.find((model) => model.id === selectedModel);
+
+    // ids of collections deleted since they were attached are ignored
+    const attachedCount = knowledgeCollections.filter((collection) =>
+      attachedCollections.includes(collection.id),
+    ).length;
+
+    const toggleCollection = (id: string) => {
+      const attached = attachedCollections.filter((collectionId) =>
+        knowledgeCollections.some((collection) => collection.id === collectionId),
+      );
+
+      onAttachedCollectionsChange?.(
+        attached.includes(id) ? attached.filter((collectionId) => collectionId !== id) : [...attached, id],
+      );
+    };
+
+    // only known when the server meters usage
+    const researchRunsLeft = usageQuota
+      ? `${Math.max(0, usageQuota.researchRunsLimit - usageQuota.researchRunsUsed)} left`
+      : undefined;
 
     return (
       <div className={cn("prompt-container flex flex-col rounded-[28px] p-3 shadow-sm dark:shadow-md transition-all duration-300 ease-out bg-white border border-gray-200 dark:bg-[#303030] dark:border-white/20 hover:border-gray-300 dark:hover:border-gray-500/50 focus-within:border-blue-500 dark:focus-within:border-blue-400 cursor-text", className)}>
@@ -415,7 +514,15 @@ export const PromptBox = React.forwardRef<HTMLTextAreaElement, PromptBoxProps>(
                 </Tooltip>
                 <PopoverContent side="top" align="start">
                   <div className="flex flex-col gap-1">
-                    {toolsList.map(tool => (
+                    {toolsList.map((tool) => {
+                      const extra =
+                        tool.id === 'deepResearch'
+                          ? researchRunsLeft
+                          : tool.id === 'thinkLonger' && activeModel?.reasoning === false
+                            ? `Not supported by ${activeModel.label}`
+                            : undefined;
+
+                      return (
                       <button 
                         key={tool.id} 
                         onClick={() => { 
@@ -426,13 +533,14 @@ export const PromptBox = React.forwardRef<HTMLTextAreaElement, PromptBoxProps>(
                       >
                         <tool.icon className="h-4 w-4" />
                         <span>{tool.name}</span>
-                        {tool.extra && (
+                        {extra && (
                           <span className="ml-auto text-xs text-muted-foreground dark:text-gray-400">
-                            {tool.extra}
+                            {extra}
                           </span>
                         )}
                       </button>
-                    ))}
+                      );
+                    })}
                   </div>
                 </PopoverContent>
               </Popover>
@@ -451,6 +559,107 @@ export const PromptBox = React.forwardRef<HTMLTextAreaElement, PromptBoxProps>(
                 </>
               )}
 
+              {onModelChange && models.length > 0 && (
+                <Popover open={isModelPopoverOpen} onOpenChange={setIsModelPopoverOpen}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <PopoverTrigger asChild>
+                        <button
+                          type="button"
+                          className="flex h-8 max-w-[200px] items-center gap-1 rounded-full px-3 text-sm text-gray-600 dark:text-gray-300 transition-colors hover:bg-gray-100 dark:hover:bg-[#515151] focus-visible:outline-none"
+                        >
+                          <span className="truncate">{activeModel?.label ?? 'Model'}</span>
+                          <ChevronDownIcon className="h-4 w-4 shrink-0" />
+                        </button>
+                      </PopoverTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" showArrow={true}>
+                      <p>Choose model</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <PopoverContent side="top" align="start" className="w-80">
+                    <div className="flex max-h-80 flex-col gap-1 overflow-y-auto">
+                      {models.map((model) => {
+                        const details = [
+                          model.providerLabel,
+                          formatContextWindow(model.contextWindow),
+                          model.vision && 'Vision',
+                          model.toolCalling && 'Tools',
+                          formatCost(model),
+                        ].filter(Boolean);
+
+                        return (
+                          <button
+                            key={model.id}
+                            type="button"
+                            onClick={() => {
+                              onModelChange(model.id);
+                              setIsModelPopoverOpen(false);
+                            }}
+                            className={cn(
+                              'flex w-full flex-col rounded-md p-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-[#515151]',
+                              model.id === selectedModel && 'bg-gray-100 dark:bg-[#515151]',
+                            )}
+                          >
+                            <span className="truncate">{model.label}</span>
+                            <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+                              {details.join(' · ')}
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              )}
+
+              {onAttachedCollectionsChange && knowledgeCollections.length > 0 && (
+                <Popover open={isKnowledgePopoverOpen} onOpenChange={setIsKnowledgePopoverOpen}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <PopoverTrigger asChild>
+                        <button
+                          type="button"
+                          className={cn(
+                            'flex h-8 items-center gap-1 rounded-full px-3 text-sm transition-colors hover:bg-gray-100 dark:hover:bg-[#515151] focus-visible:outline-none',
+                            attachedCount > 0
+                              ? 'text-blue-600 dark:text-[#99ceff]'
+                              : 'text-gray-600 dark:text-gray-300',
+                          )}
+                        >
+                          <BooksIcon className="h-4 w-4 shrink-0" />
+                          {attachedCount > 0 && <span>{attachedCount}</span>}
+                          <span className="sr-only">Knowledge collections</span>
+                        </button>
+                      </PopoverTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" showArrow={true}>
+                      <p>Attach knowledge collections</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <PopoverContent side="top" align="start" className="w-64">
+                    <p className="px-2 pb-2 text-xs text-gray-500 dark:text-gray-400">
+                      Entries outside collections are always included.
+                    </p>
+                    <div className="flex max-h-64 flex-col gap-1 overflow-y-auto">
+                      {knowledgeCollections.map((collection) => (
+                        <label
+                          key={collection.id}
+                          className="flex cursor-pointer items-center gap-2 rounded-md p-2 text-sm hover:bg-gray-100 dark:hover:bg-[#515151]"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={attachedCollections.includes(collection.id)}
+                            onChange={() => toggleCollection(collection.id)}
+                          />
+                          <span className="truncate">{collection.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              )}
+
               <div className="ml-auto flex items-center gap-2">
                 {/* Enhance Button */}
                 {onEnhance && String(value).trim().length > 0 && (
@@ -1,11 +1,43 @@
-import { memo, useState } from 'react';
+import { memo, useEffect, useState } from 'react';
 
 interface ThinkingProcessProps {
   content: string;
+
+  /** how long the model reasoned, once it has finished */
+  durationMs?: number;
+
+  /** the model is still reasoning; shows the time elapsed so far */
+  isThinking?: boolean;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
 }
 
-export const ThinkingProcess = memo(({ content }: ThinkingProcessProps) => {
+export const ThinkingProcess = memo(({ content, durationMs, isThinking = false }: ThinkingProcessProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  useEffect(() => {
+    if (!isThinking) {
+      return undefined;
+    }
+
+    const startedAt = Date.now();
+    const interval = setInterval(() => setElapsedMs(Date.now() - startedAt), 1000);
+
+    return () => clearInterval(interval);
+  }, [isThinking]);
+
+  let label = isExpanded ? 'Hide reasoning' : 'Show reasoning';
+
+  if (isThinking) {
+    label = `Thinking… ${formatDuration(elapsedMs)}`;
+  } else if (durationMs !== undefined) {
+    label = `Thought for ${formatDuration(durationMs)}`;
+  }
 
   return (
     <div className="mb-4 border border-conformity-elements-borderColor/30 rounded-[12px] bg-conformity-elements-background/20 overflow-hidden">
@@ -19,7 +51,7 @@ export const ThinkingProcess = memo(({ content }: ThinkingProcessProps) => {
         }}
       >
         <span className="text-[13px] font-medium text-conformity-elements-textSecondary">
-          {isExpanded ? 'Hide reasoning' : 'Show reasoning'}
+          {label}
         </span>
         <div
           className={`transition-transform duration-200 text-conformity-elements-textSecondary ${
@@ -0,0 +1,67 @@
+import { memo } from 'react';
+import type { MessageUsage } from '~/types/usage';
+import { classNames } from '~/utils/classNames';
+
+interface TokenUsageProps {
+  usage: Omit<MessageUsage, 'model'> & { model?: string };
+  label?: string;
+  className?: string;
+}
+
+function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+
+  if (tokens >= 10_000) {
+    return `${Math.round(tokens / 1_000)}k`;
+  }
+
+  return tokens.toLocaleString();
+}
+
+function formatCost(cost: number) {
+  if (cost === 0) {
+    return 'free';
+  }
+
+  // fractions of a cent are common for short replies
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export function sumUsage(usages: MessageUsage[]): TokenUsageProps['usage'] | undefined {
+  if (usages.length === 0) {
+    return undefined;
+  }
+
+  return usages.reduce<TokenUsageProps['usage']>(
+    (total, usage) => ({
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      reasoningTokens: (total.reasoningTokens ?? 0) + (usage.reasoningTokens ?? 0),
+      totalTokens: total.totalTokens + usage.totalTokens,
+
+      // the total is only an estimate when every message's pricing is known
+      cost: total.cost !== undefined && usage.cost !== undefined ? total.cost + usage.cost : undefined,
+    }),
+    { inputTokens: 0, outputTokens: 0, reasoningTokens: 0, totalTokens: 0, cost: 0 },
+  );
+}
+
+export const TokenUsage = memo(({ usage, label, className }: TokenUsageProps) => {
+  return (
+    <div
+      className={classNames(
+        'flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-conformity-elements-textTertiary',
+        className,
+      )}
+    >
+      {label && <span className="font-medium text-conformity-elements-textSecondary">{label}</span>}
+      <span title="Prompt tokens">↑ {formatTokens(usage.inputTokens)}</span>
+      <span title="Completion tokens">↓ {formatTokens(usage.outputTokens)}</span>
+      {!!usage.reasoningTokens && <span title="Reasoning tokens">{formatTokens(usage.reasoningTokens)} reasoning</span>}
+      {usage.cost !== undefined && <span title="Estimated cost">{formatCost(usage.cost)}</span>}
+      {usage.model && <span className="truncate">{usage.model}</span>}
+    </div>
+  );
+});
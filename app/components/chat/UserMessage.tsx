@@ -3,11 +3,19 @@ import { Markdown } from './Markdown';
 
 interface UserMessageProps {
   content: string;
+  images?: string[];
 }
 
-export function UserMessage({ content }: UserMessageProps) {
+export function UserMessage({ content, images = [] }: UserMessageProps) {
   return (
     <div className="overflow-hidden">
+      {images.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-2">
+          {images.map((url, index) => (
+            <img key={index} src={url} alt={`Attachment ${index + 1}`} className="max-h-40 max-w-full rounded-xl" />
+          ))}
+        </div>
+      )}
       <div 
         className="text-conformity-elements-textPrimary"
         style={{
@@ -3,6 +3,15 @@ import { useStore } from '@nanostores/react';
 import { settingsStore, setSetting } from '~/lib/stores/settings';
 import { themeStore, type Theme } from '~/lib/stores/theme';
 import { clearAllChats, openDatabase } from '~/lib/persistence';
+import { CHAT_INTENTS, isChatIntent, type ChatIntent } from '~/types/intent';
+
+const INTENT_LABELS: Record<ChatIntent, string> = {
+  chat: 'Chat',
+  build: 'Build',
+  fix: 'Fix bugs',
+  strategy: 'Strategy',
+  research: 'Research',
+};
 
 const CARD_CLASS = 'rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-3/65 p-4 shadow-sm';
 
@@ -80,7 +89,7 @@ export function GeneralCard({ isLoading }: GeneralCardProps) {
       <SettingRow
         icon="i-ph:chart-bar"
         title="Token usage display"
-        description="Show current prompt usage above the chat input so you can manage output length."
+        description="Show token counts and estimated cost under each reply, with a running total for the chat."
       >
         <Toggle checked={settings.showTokenUsage} onChange={(value) => setSetting('showTokenUsage', value)} />
       </SettingRow>
@@ -93,6 +102,38 @@ export function GeneralCard({ isLoading }: GeneralCardProps) {
         <Toggle checked={settings.editorLineWrapping} onChange={(value) => setSetting('editorLineWrapping', value)} />
       </SettingRow>
 
+      <SettingRow
+        icon="i-ph:wrench"
+        title="Native tool calling"
+        description="Let the model write files and run commands through structured tool calls instead of artifact markup. Models without tool support keep using artifacts."
+      >
+        <Toggle
+          checked={settings.actionProtocol === 'tools'}
+          onChange={(value) => setSetting('actionProtocol', value ? 'tools' : 'artifact')}
+        />
+      </SettingRow>
+
+      <SettingRow
+        icon="i-ph:signpost"
+        title="Response mode"
+        description="Each message is classified as chat, a build, a bug fix, strategy or research to pick the instructions and model that answer it. Choose a mode to use it for every message instead."
+      >
+        <select
+          value={settings.chatIntent ?? 'auto'}
+          onChange={(event) =>
+            setSetting('chatIntent', isChatIntent(event.target.value) ? event.target.value : undefined)
+          }
+          className="rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-3 px-3 py-1.5 text-sm text-conformity-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="auto">Automatic</option>
+          {CHAT_INTENTS.map((intent) => (
+            <option key={intent} value={intent}>
+              {INTENT_LABELS[intent]}
+            </option>
+          ))}
+        </select>
+      </SettingRow>
+
       <div className="rounded-lg border border-red-500/30 bg-red-500/8 p-4">
         <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
           <div className="space-y-1">
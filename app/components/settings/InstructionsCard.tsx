@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { getSettingsDataLayer, type UserProfile } from '~/lib/settings/data';
+import { PROJECT_RULES_FILE } from '~/utils/constants';
+
+// matches the `profiles_custom_instructions_length` constraint
+const MAX_LENGTH = 4000;
+
+const CARD_CLASS =
+  'rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-3/65 p-4 shadow-sm';
+
+interface InstructionsCardProps {
+  profile: UserProfile | null;
+  isLoading: boolean;
+  onProfileUpdate: (updates: Partial<UserProfile>) => void;
+}
+
+export function InstructionsCard({ profile, isLoading, onProfileUpdate }: InstructionsCardProps) {
+  const saved = profile?.custom_instructions ?? '';
+  const [draft, setDraft] = useState(saved);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(saved);
+  }, [saved]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const instructions = draft.trim();
+      const result = await getSettingsDataLayer().updateProfile({ custom_instructions: instructions || null });
+
+      if (result.error) {
+        setError(result.error);
+      } else if (result.data) {
+        onProfileUpdate(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to save custom instructions:', error);
+      setError('Failed to save custom instructions. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-48 rounded-lg bg-conformity-elements-background-depth-3 animate-pulse" />;
+  }
+
+  return (
+    <section className={`space-y-4 ${CARD_CLASS}`}>
+      <div className="space-y-1">
+        <div className="flex items-center gap-2 text-sm font-semibold text-conformity-elements-textPrimary">
+          <span className="i-ph:scroll text-base" aria-hidden />
+          <span>Custom instructions</span>
+        </div>
+        <p className="max-w-[70ch] text-sm text-conformity-elements-textTertiary">
+          Standing instructions Gleio follows in every chat, like your stack, tone, or conventions. They're saved to
+          your account. Rules for a single project go in a <code>{PROJECT_RULES_FILE}</code> file at the root of its
+          workspace, which is picked up automatically.
+        </p>
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        maxLength={MAX_LENGTH}
+        rows={6}
+        disabled={!profile || isSaving}
+        placeholder="e.g. Use TypeScript and Tailwind. Keep explanations short."
+        className="w-full resize-y rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-2 px-3 py-2 text-sm text-conformity-elements-textPrimary focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:opacity-50"
+      />
+
+      <div className="flex items-center justify-between gap-3">
+        <span className={`text-xs ${error ? 'text-red-400' : 'text-conformity-elements-textTertiary'}`}>
+          {error ?? `${draft.length} / ${MAX_LENGTH}`}
+        </span>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!profile || isSaving || draft.trim() === saved.trim()}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/60 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </section>
+  );
+}
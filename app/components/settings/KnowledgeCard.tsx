@@ -1,22 +1,75 @@
-import React, { useMemo, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { useStore } from '@nanostores/react';
+import { importKnowledgeFiles, KNOWLEDGE_IMPORT_ACCEPT, MAX_ENTRY_LENGTH } from '~/lib/knowledge/import';
 import {
   knowledgeBaseStore,
+  knowledgeSyncStore,
   addKnowledgeBaseEntry,
+  addKnowledgeCollection,
+  importKnowledgeBaseEntries,
+  renameKnowledgeCollection,
+  removeKnowledgeCollection,
   updateKnowledgeBaseEntry,
   removeKnowledgeBaseEntry,
   clearKnowledgeBase,
+  normalizeTags,
+  syncKnowledgeBase,
   type KnowledgeBaseEntry,
+  type KnowledgeSyncState,
 } from '~/lib/stores/knowledge-base';
 
 type DraftEntry = {
   title: string;
   content: string;
+
+  /** comma-separated */
+  tags: string;
+
+  /** empty for entries shared by all chats */
+  collectionId: string;
 };
 
-const emptyDraft: DraftEntry = { title: '', content: '' };
+const emptyDraft: DraftEntry = { title: '', content: '', tags: '', collectionId: '' };
+
+// collection filter values besides collection ids
+const ALL_ENTRIES = 'all';
+const SHARED_ENTRIES = 'shared';
 const CARD_CLASS = 'rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-3/65 p-4 shadow-sm';
 
+const SELECT_CLASS =
+  'rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-2 px-3 py-2 text-sm text-conformity-elements-textPrimary focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/40';
+
+function parseTags(tags: string) {
+  return normalizeTags(tags.split(','));
+}
+
+function matchesSearch(entry: KnowledgeBaseEntry, query: string) {
+  const haystack = `${entry.title}\n${entry.content}\n${entry.tags.join(' ')}`.toLowerCase();
+
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+}
+
+function describeSync({ status, error, lastSyncedAt }: KnowledgeSyncState) {
+  switch (status) {
+    case 'syncing': {
+      return 'Syncing…';
+    }
+    case 'synced': {
+      return lastSyncedAt ? `Synced to your account ${formatTimestamp(lastSyncedAt)}` : 'Synced to your account';
+    }
+    case 'error': {
+      return `Sync failed: ${error ?? 'unknown error'}. Changes are kept in this browser.`;
+    }
+    default: {
+      return 'Sign in to sync entries across browsers. Until then they are stored in this browser.';
+    }
+  }
+}
+
 function formatTimestamp(iso: string) {
   try {
     return new Date(iso).toLocaleString();
@@ -26,24 +79,88 @@ function formatTimestamp(iso: string) {
 }
 
 export function KnowledgeCard() {
-  const { entries } = useStore(knowledgeBaseStore);
+  const { entries, collections } = useStore(knowledgeBaseStore);
+  const sync = useStore(knowledgeSyncStore);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<DraftEntry>({ ...emptyDraft });
+  const [search, setSearch] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [activeCollection, setActiveCollection] = useState(ALL_ENTRIES);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const sortedEntries = useMemo(() => {
     return [...entries].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
   }, [entries]);
 
-  const [isEditing, setIsEditing] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [draft, setDraft] = useState<DraftEntry>({ ...emptyDraft });
+  const allTags = useMemo(() => [...new Set(entries.flatMap((entry) => entry.tags))].sort(), [entries]);
+
+  const collectionNames = useMemo(
+    () => new Map(collections.map((collection) => [collection.id, collection.name])),
+    [collections],
+  );
+
+  const sortedCollections = useMemo(() => [...collections].sort((a, b) => a.name.localeCompare(b.name)), [collections]);
+
+  // the collection new and imported entries go to
+  const targetCollection = collectionNames.has(activeCollection) ? activeCollection : undefined;
+
+  const visibleEntries = useMemo(() => {
+    const inCollection = (entry: KnowledgeBaseEntry) => {
+      if (activeCollection === ALL_ENTRIES) {
+        return true;
+      }
+
+      return activeCollection === SHARED_ENTRIES ? !entry.collectionId : entry.collectionId === activeCollection;
+    };
+
+    return sortedEntries.filter(
+      (entry) =>
+        inCollection(entry) &&
+        (!activeTag || entry.tags.includes(activeTag)) &&
+        (!search.trim() || matchesSearch(entry, search)),
+    );
+  }, [sortedEntries, activeCollection, activeTag, search]);
+
+  const handleAddCollection = () => {
+    const name = window.prompt('Name the collection, e.g. after the project it is for.')?.trim();
+
+    if (name) {
+      setActiveCollection(addKnowledgeCollection(name));
+    }
+  };
+
+  const handleRenameCollection = () => {
+    const name = window.prompt('Rename the collection.', collectionNames.get(activeCollection))?.trim();
+
+    if (name) {
+      renameKnowledgeCollection(activeCollection, name);
+    }
+  };
+
+  const handleDeleteCollection = () => {
+    if (window.confirm('Delete this collection and all of its entries? This cannot be undone.')) {
+      removeKnowledgeCollection(activeCollection);
+      setActiveCollection(ALL_ENTRIES);
+    }
+  };
 
   const startAdd = () => {
-    setDraft({ ...emptyDraft });
+    setDraft({ ...emptyDraft, collectionId: targetCollection ?? '' });
     setEditingId(null);
     setIsEditing(true);
   };
 
   const startEdit = (entry: KnowledgeBaseEntry) => {
-    setDraft({ title: entry.title, content: entry.content });
+    setDraft({
+      title: entry.title,
+      content: entry.content,
+      tags: entry.tags.join(', '),
+      collectionId: entry.collectionId ?? '',
+    });
     setEditingId(entry.id);
     setIsEditing(true);
   };
@@ -59,6 +176,8 @@ export function KnowledgeCard() {
 
     const title = draft.title.trim();
     const content = draft.content.trim();
+    const tags = parseTags(draft.tags);
+    const collectionId = draft.collectionId || undefined;
 
     if (!title && !content) {
       resetDraft();
@@ -66,9 +185,9 @@ export function KnowledgeCard() {
     }
 
     if (editingId) {
-      updateKnowledgeBaseEntry(editingId, { title, content });
+      updateKnowledgeBaseEntry(editingId, { title, content, tags, collectionId });
     } else {
-      addKnowledgeBaseEntry({ title, content });
+      addKnowledgeBaseEntry({ title, content, tags, collectionId });
     }
 
     resetDraft();
@@ -84,6 +203,35 @@ export function KnowledgeCard() {
     }
   };
 
+  const handleImport: React.ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const files = Array.from(event.target.files ?? []);
+
+    // lets the same file be picked again
+    event.target.value = '';
+
+    if (files.length === 0) {
+      return;
+    }
+
+    setIsImporting(true);
+    setImportMessage(null);
+
+    try {
+      const { entries: imported, failed } = await importKnowledgeFiles(files, activeTag ? [activeTag] : []);
+
+      if (imported.length > 0) {
+        importKnowledgeBaseEntries(imported.map((entry) => ({ ...entry, collectionId: targetCollection })));
+      }
+
+      const summary = `Imported ${imported.length} entr${imported.length === 1 ? 'y' : 'ies'}.`;
+      const failures = failed.map(({ name, error }) => `${name}: ${error}`).join(' ');
+
+      setImportMessage(failures ? `${summary} ${failures}` : summary);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleClearAll = () => {
     if (sortedEntries.length === 0) return;
 
@@ -99,7 +247,8 @@ export function KnowledgeCard() {
         <p className="text-xs uppercase tracking-[0.28em] text-conformity-elements-textTertiary">Knowledge base</p>
         <h2 className="text-xl font-semibold text-conformity-elements-textPrimary">Share context Gleio should trust</h2>
         <p className="max-w-[70ch] text-sm text-conformity-elements-textTertiary">
-          Store guidelines, messaging pillars, and SOPs locally. They accompany every prompt so Gleio replies as if it were on your team.
+          Store guidelines, messaging pillars, and SOPs, or import them from Markdown, text, PDF, and HTML files. The
+          entries relevant to each prompt go along with it so Gleio replies as if it were on your team.
         </p>
       </div>
 
@@ -127,6 +276,47 @@ export function KnowledgeCard() {
               />
             </div>
 
+            <div className="space-y-2">
+              <label
+                className="block text-sm font-medium text-conformity-elements-textSecondary"
+                htmlFor="knowledge-tags"
+              >
+                Tags
+              </label>
+              <input
+                id="knowledge-tags"
+                type="text"
+                value={draft.tags}
+                onChange={(event) => setDraft((prev) => ({ ...prev, tags: event.target.value }))}
+                placeholder="e.g. brand, pricing"
+                className="w-full rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-2 px-3 py-2 text-sm text-conformity-elements-textPrimary focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+              />
+            </div>
+
+            {collections.length > 0 && (
+              <div className="space-y-2">
+                <label
+                  className="block text-sm font-medium text-conformity-elements-textSecondary"
+                  htmlFor="knowledge-collection"
+                >
+                  Collection
+                </label>
+                <select
+                  id="knowledge-collection"
+                  value={draft.collectionId}
+                  onChange={(event) => setDraft((prev) => ({ ...prev, collectionId: event.target.value }))}
+                  className={`w-full ${SELECT_CLASS}`}
+                >
+                  <option value="">None (shared with every chat)</option>
+                  {sortedCollections.map((collection) => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <label className="block text-sm font-medium text-conformity-elements-textSecondary" htmlFor="knowledge-content">
                 Details
@@ -136,6 +326,7 @@ export function KnowledgeCard() {
                 value={draft.content}
                 onChange={(event) => setDraft((prev) => ({ ...prev, content: event.target.value }))}
                 placeholder="Provide the guidance, facts, or procedures the agent should follow."
+                maxLength={MAX_ENTRY_LENGTH}
                 rows={6}
                 className="w-full resize-none rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-2 px-3 py-2 text-sm text-conformity-elements-textPrimary focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
               />
@@ -170,6 +361,23 @@ export function KnowledgeCard() {
               <span className="i-ph:plus-circle text-lg" aria-hidden />
               Add knowledge entry
             </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="inline-flex items-center gap-2 rounded-lg border border-conformity-elements-borderColor px-4 py-2 text-sm font-medium text-conformity-elements-textSecondary transition-colors hover:border-blue-500 hover:text-conformity-elements-textPrimary disabled:cursor-wait disabled:opacity-60"
+            >
+              <span className="i-ph:file-arrow-up text-lg" aria-hidden />
+              {isImporting ? 'Importing…' : 'Import files'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={KNOWLEDGE_IMPORT_ACCEPT}
+              onChange={handleImport}
+              className="hidden"
+            />
             <button
               type="button"
               onClick={handleClearAll}
@@ -182,14 +390,110 @@ export function KnowledgeCard() {
           </div>
         )}
 
+        {importMessage && <p className="text-sm text-conformity-elements-textSecondary">{importMessage}</p>}
+
+        <div className="flex items-center justify-between gap-3 text-xs text-conformity-elements-textTertiary">
+          <span className={sync.status === 'error' ? 'text-red-400' : undefined}>{describeSync(sync)}</span>
+          {sync.status !== 'local' && (
+            <button
+              type="button"
+              onClick={() => void syncKnowledgeBase()}
+              disabled={sync.status === 'syncing'}
+              className="inline-flex items-center gap-1 transition-colors hover:text-conformity-elements-textPrimary disabled:opacity-50"
+            >
+              <span className="i-ph:arrows-clockwise" aria-hidden />
+              Sync now
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            aria-label="Collection"
+            value={activeCollection}
+            onChange={(event) => setActiveCollection(event.target.value)}
+            className={SELECT_CLASS}
+          >
+            <option value={ALL_ENTRIES}>All entries</option>
+            <option value={SHARED_ENTRIES}>Shared with every chat</option>
+            {sortedCollections.map((collection) => (
+              <option key={collection.id} value={collection.id}>
+                {collection.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAddCollection}
+            className="inline-flex items-center gap-1 rounded-lg px-2 py-1.5 text-conformity-elements-textSecondary transition-colors hover:text-conformity-elements-textPrimary"
+          >
+            <span className="i-ph:folder-plus" aria-hidden />
+            New collection
+          </button>
+          {targetCollection && (
+            <>
+              <button
+                type="button"
+                onClick={handleRenameCollection}
+                className="inline-flex items-center gap-1 rounded-lg px-2 py-1.5 text-conformity-elements-textSecondary transition-colors hover:text-conformity-elements-textPrimary"
+              >
+                <span className="i-ph:pencil-simple" aria-hidden />
+                Rename
+              </button>
+              <button
+                type="button"
+                onClick={handleDeleteCollection}
+                className="inline-flex items-center gap-1 rounded-lg px-2 py-1.5 text-red-400 transition-colors hover:text-red-300"
+              >
+                <span className="i-ph:trash" aria-hidden />
+                Delete collection
+              </button>
+            </>
+          )}
+        </div>
+        {collections.length > 0 && (
+          <p className="text-xs text-conformity-elements-textTertiary">
+            Entries in a collection are only sent with the chats it is attached to. Attach collections from the chat
+            input.
+          </p>
+        )}
+
+        {sortedEntries.length > 0 && (
+          <div className="space-y-3">
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search entries"
+              className="w-full rounded-lg border border-conformity-elements-borderColor bg-conformity-elements-background-depth-2 px-3 py-2 text-sm text-conformity-elements-textPrimary focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/40"
+            />
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {allTags.map((tag) => (
+                  <TagChip
+                    key={tag}
+                    tag={tag}
+                    isActive={tag === activeTag}
+                    onClick={() => setActiveTag(tag === activeTag ? null : tag)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="space-y-3">
-          {sortedEntries.length === 0 && !isEditing ? (
+          {sortedEntries.length > 0 && visibleEntries.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-conformity-elements-borderColor bg-conformity-elements-background-depth-3/60 p-5 text-sm text-conformity-elements-textSecondary">
+              No entries match the selected collection and search.
+            </div>
+          ) : sortedEntries.length === 0 && !isEditing ? (
             <div className="rounded-lg border border-dashed border-conformity-elements-borderColor bg-conformity-elements-background-depth-3/60 p-5 text-sm text-conformity-elements-textSecondary">
               No entries yet. Add product messaging, FAQ answers, escalation paths, or any details the agent should
               reference automatically.
             </div>
           ) : (
-            sortedEntries.map((entry) => (
+            visibleEntries.map((entry) => (
               <article key={entry.id} className={`space-y-3 ${CARD_CLASS}`}>
                 <div className="flex items-start justify-between gap-4">
                   <div className="space-y-2">
@@ -203,6 +507,18 @@ export function KnowledgeCard() {
                     ) : (
                       <p className="text-sm italic text-conformity-elements-textTertiary">No details provided.</p>
                     )}
+                    {entry.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {entry.tags.map((tag) => (
+                          <TagChip
+                            key={tag}
+                            tag={tag}
+                            isActive={tag === activeTag}
+                            onClick={() => setActiveTag(tag === activeTag ? null : tag)}
+                          />
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="flex flex-col items-end gap-2 text-sm">
                     <button
@@ -225,6 +541,8 @@ export function KnowledgeCard() {
                 </div>
                 <div className="text-xs text-conformity-elements-textTertiary">
                   Updated {formatTimestamp(entry.updatedAt)}
+                  {entry.collectionId && ` · ${collectionNames.get(entry.collectionId) ?? 'Deleted collection'}`}
+                  {entry.source && ` · Imported from ${entry.source}`}
                 </div>
               </article>
             ))
@@ -234,3 +552,19 @@ export function KnowledgeCard() {
     </div>
   );
 }
+
+function TagChip({ tag, isActive, onClick }: { tag: string; isActive: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+        isActive
+          ? 'border-blue-500 bg-blue-500/15 text-conformity-elements-textPrimary'
+          : 'border-conformity-elements-borderColor text-conformity-elements-textSecondary hover:border-blue-500'
+      }`}
+    >
+      #{tag}
+    </button>
+  );
+}
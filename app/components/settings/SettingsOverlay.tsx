@@ -15,7 +15,7 @@ import {
   type UsageSummary,
   type UserProfile,
 } from '~/lib/settings/data';
-import { SettingsLayout, ProfileHeader, GeneralCard, SubscriptionCard, KnowledgeCard } from '.';
+import { SettingsLayout, ProfileHeader, GeneralCard, SubscriptionCard, KnowledgeCard, InstructionsCard } from '.';
 
 export function SettingsOverlay() {
   const { open, tab } = useStore(settingsModalStore);
@@ -184,6 +184,7 @@ export function SettingsOverlay() {
       case 'knowledge':
         return (
           <div className="space-y-6">
+            <InstructionsCard profile={profile} isLoading={isLoading} onProfileUpdate={handleProfileUpdate} />
             <KnowledgeCard />
           </div>
         );
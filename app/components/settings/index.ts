@@ -3,3 +3,4 @@ export { ProfileHeader } from './ProfileHeader';
 export { GeneralCard } from './GeneralCard';
 export { SubscriptionCard } from './SubscriptionCard';
 export { KnowledgeCard } from './KnowledgeCard';
+export { InstructionsCard } from './InstructionsCard';
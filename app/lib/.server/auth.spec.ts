@@ -0,0 +1,173 @@
+import type { AppLoadContext } from '@remix-run/cloudflare';
+import { SignJWT } from 'jose';
+import { describe, expect, it } from 'vitest';
+import { createRequestAuth, getAccessToken, requireAccess, verifyAccessToken, type RequestAuth } from './auth';
+
+const SECRET = 'test-jwt-secret-with-enough-entropy';
+const SUPABASE_URL = 'https://project.supabase.co';
+
+const cloudflareEnv = { SUPABASE_URL, SUPABASE_JWT_SECRET: SECRET } as Env;
+
+describe('verifyAccessToken', () => {
+  it('should resolve the user of a valid token', async () => {
+    const token = await signToken();
+
+    await expect(verifyAccessToken(token, cloudflareEnv)).resolves.toEqual({
+      id: 'user-1',
+      email: 'user@example.com',
+      role: 'authenticated',
+      accessToken: token,
+    });
+  });
+
+  it('should reject an expired token', async () => {
+    const token = await signToken({ expiresAt: Math.floor(Date.now() / 1000) - 60 });
+
+    await expect(verifyAccessToken(token, cloudflareEnv)).resolves.toBeNull();
+  });
+
+  it('should reject a token signed with another secret', async () => {
+    const token = await signToken({ secret: 'some-other-secret-with-enough-entropy' });
+
+    await expect(verifyAccessToken(token, cloudflareEnv)).resolves.toBeNull();
+  });
+
+  it('should reject a token issued by another project', async () => {
+    const token = await signToken({ issuer: 'https://other.supabase.co/auth/v1' });
+
+    await expect(verifyAccessToken(token, cloudflareEnv)).resolves.toBeNull();
+  });
+
+  it('should reject a malformed token', async () => {
+    await expect(verifyAccessToken('not-a-token', cloudflareEnv)).resolves.toBeNull();
+  });
+});
+
+describe('getAccessToken', () => {
+  it('should read the bearer token', () => {
+    expect(getAccessToken(requestWith({ Authorization: 'Bearer abc' }))).toBe('abc');
+  });
+
+  it('should fall back to the access token cookie', () => {
+    expect(getAccessToken(requestWith({ Cookie: 'theme=dark; gleio-access-token=abc' }))).toBe('abc');
+  });
+
+  it('should return undefined without a token', () => {
+    expect(getAccessToken(requestWith({}))).toBeUndefined();
+  });
+});
+
+describe('requireAccess', () => {
+  it('should let anonymous callers through anonymous routes', async () => {
+    const access = await requireAccess(contextFor(requestWith({})), 'anonymous');
+
+    expect(access).toEqual({ ok: true, user: null });
+  });
+
+  it('should resolve the user on anonymous routes when a valid token is sent', async () => {
+    const token = await signToken();
+    const access = await requireAccess(contextFor(requestWith({ Authorization: `Bearer ${token}` })), 'anonymous');
+
+    expect(access.ok && access.user?.id).toBe('user-1');
+  });
+
+  it('should accept a valid token on authenticated routes', async () => {
+    const token = await signToken();
+    const access = await requireAccess(contextFor(requestWith({ Authorization: `Bearer ${token}` })), 'authenticated');
+
+    expect(access.ok && access.user.id).toBe('user-1');
+  });
+
+  it('should return a 401 without a token', async () => {
+    const access = await requireAccess(contextFor(requestWith({})), 'authenticated');
+
+    expect(access.ok).toBe(false);
+    expect(!access.ok && access.response.status).toBe(401);
+  });
+
+  it('should return a 401 for an expired token', async () => {
+    const token = await signToken({ expiresAt: Math.floor(Date.now() / 1000) - 60 });
+    const access = await requireAccess(contextFor(requestWith({ Authorization: `Bearer ${token}` })), 'authenticated');
+
+    expect(!access.ok && access.response.status).toBe(401);
+  });
+
+  it('should return a 401 for a token signed with another secret', async () => {
+    const token = await signToken({ secret: 'some-other-secret-with-enough-entropy' });
+    const access = await requireAccess(contextFor(requestWith({ Authorization: `Bearer ${token}` })), 'authenticated');
+
+    expect(!access.ok && access.response.status).toBe(401);
+  });
+
+  it('should return a 403 on paid routes without a subscription', async () => {
+    const token = await signToken();
+    const request = requestWith({ Authorization: `Bearer ${token}` });
+    const auth: RequestAuth = { ...createRequestAuth(request, cloudflareEnv), isPaid: async () => false };
+    const access = await requireAccess(contextFor(request, auth), 'paid');
+
+    expect(!access.ok && access.response.status).toBe(403);
+  });
+
+  it('should accept subscribers on paid routes', async () => {
+    const token = await signToken();
+    const request = requestWith({ Authorization: `Bearer ${token}` });
+    const auth: RequestAuth = { ...createRequestAuth(request, cloudflareEnv), isPaid: async () => true };
+    const access = await requireAccess(contextFor(request, auth), 'paid');
+
+    expect(access.ok && access.user.id).toBe('user-1');
+  });
+
+  it('should fail closed when authentication is not configured', async () => {
+    const request = requestWith({});
+    const context = {
+      auth: createRequestAuth(request, {} as Env),
+      cloudflare: { env: {} as Env },
+    } as unknown as AppLoadContext;
+    const access = await requireAccess(context, 'authenticated');
+
+    expect(!access.ok && access.response.status).toBe(500);
+  });
+
+  it('should let callers through as the local user when authentication is disabled', async () => {
+    const request = requestWith({});
+    const env = { AUTH_DISABLED: '1' } as Env;
+    const context = { auth: createRequestAuth(request, env), cloudflare: { env } } as unknown as AppLoadContext;
+    const access = await requireAccess(context, 'paid');
+
+    expect(access.ok && access.user.id).toBe('local');
+  });
+
+  it('should ignore AUTH_DISABLED once Supabase is configured', async () => {
+    const request = requestWith({});
+    const env = { ...cloudflareEnv, AUTH_DISABLED: '1' } as Env;
+    const context = { auth: createRequestAuth(request, env), cloudflare: { env } } as unknown as AppLoadContext;
+    const access = await requireAccess(context, 'authenticated');
+
+    expect(!access.ok && access.response.status).toBe(401);
+  });
+});
+
+interface TokenOptions {
+  secret?: string;
+  issuer?: string;
+  expiresAt?: number;
+}
+
+function signToken({ secret = SECRET, issuer = `${SUPABASE_URL}/auth/v1`, expiresAt }: TokenOptions = {}) {
+  return new SignJWT({ email: 'user@example.com', role: 'authenticated' })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject('user-1')
+    .setIssuer(issuer)
+    .setAudience('authenticated')
+    .setIssuedAt()
+    .setExpirationTime(expiresAt ?? '1h')
+    .sign(new TextEncoder().encode(secret));
+}
+
+function requestWith(headers: Record<string, string>) {
+  return new Request('https://gleio.test/api/chat', { headers });
+}
+
+function contextFor(request: Request, auth = createRequestAuth(request, cloudflareEnv)) {
+  return { auth, cloudflare: { env: cloudflareEnv } } as unknown as AppLoadContext;
+}
@@ -0,0 +1,260 @@
+import type { AppLoadContext } from '@remix-run/cloudflare';
+import { createRemoteJWKSet, decodeProtectedHeader, jwtVerify, type JWTPayload } from 'jose';
+import { env } from 'node:process';
+import { getServiceClient, getSupabaseUrl, getUserClient } from './supabase';
+
+/**
+ * What a route requires of its caller:
+ * - `anonymous`: anyone; the user is still resolved when a valid token is sent
+ * - `authenticated`: a valid Supabase access token
+ * - `paid`: an authenticated user with an active subscription
+ */
+export type AccessLevel = 'anonymous' | 'authenticated' | 'paid';
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+
+  /** Supabase role claim, `authenticated` for signed-in users */
+  role: string;
+  accessToken: string;
+}
+
+export interface RequestAuth {
+  /** the verified caller, or `null` when the request carries no valid token */
+  getUser(): Promise<AuthUser | null>;
+
+  /** whether the caller has an active subscription */
+  isPaid(): Promise<boolean>;
+}
+
+export type AccessResult<User = AuthUser | null> = { ok: true; user: User } | { ok: false; response: Response };
+
+const ACCESS_DENIED: Record<Exclude<AccessLevel, 'anonymous'>, { status: number; error: string }> = {
+  authenticated: { status: 401, error: 'Sign in to continue.' },
+  paid: { status: 403, error: 'This feature requires a paid plan.' },
+};
+
+const PAID_PLANS = ['pro_monthly', 'pro_yearly'];
+
+/** the caller of every request while `AUTH_DISABLED` is set */
+const LOCAL_USER: AuthUser = { id: 'local', role: 'authenticated', accessToken: '' };
+
+/**
+ * Set by the client in `app/lib/supabase.ts`. This module is also loaded by the dev server's
+ * `getLoadContext`, outside of vite, so it can't share the constant through a `~/` import.
+ */
+const ACCESS_TOKEN_COOKIE = 'gleio-access-token';
+
+// one key set per project; jose caches and rotates the keys itself
+const keySets = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function denied(level: Exclude<AccessLevel, 'anonymous'>): { ok: false; response: Response } {
+  const { status, error } = ACCESS_DENIED[level];
+
+  return { ok: false, response: jsonResponse({ error }, status) };
+}
+
+function getJwtSecret(cloudflareEnv?: Env) {
+  /**
+   * The `cloudflareEnv` is only used when deployed or when previewing locally.
+   * In development the environment variables are available through `env`.
+   */
+  return env.SUPABASE_JWT_SECRET || cloudflareEnv?.SUPABASE_JWT_SECRET;
+}
+
+function getKeySet(issuer: string) {
+  let keySet = keySets.get(issuer);
+
+  if (!keySet) {
+    keySet = createRemoteJWKSet(new URL(`${issuer}/.well-known/jwks.json`));
+    keySets.set(issuer, keySet);
+  }
+
+  return keySet;
+}
+
+function getCookie(request: Request, name: string) {
+  for (const cookie of request.headers.get('Cookie')?.split(';') ?? []) {
+    const separator = cookie.indexOf('=');
+
+    if (separator !== -1 && cookie.slice(0, separator).trim() === name) {
+      return decodeURIComponent(cookie.slice(separator + 1).trim());
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads the Supabase access token from the `Authorization: Bearer` header, falling back to the
+ * cookie the client keeps in sync for requests that can't set headers, like `EventSource`.
+ */
+export function getAccessToken(request: Request) {
+  const match = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+
+  return match?.[1].trim() || getCookie(request, ACCESS_TOKEN_COOKIE) || undefined;
+}
+
+export function isAuthConfigured(cloudflareEnv?: Env) {
+  return Boolean(getSupabaseUrl(cloudflareEnv) || getJwtSecret(cloudflareEnv));
+}
+
+/**
+ * Whether routes may be used without signing in, for local development without a Supabase project.
+ * Only honored while Supabase isn't configured, so the flag can't open up a deployment that is.
+ */
+function isAuthDisabled(cloudflareEnv?: Env) {
+  const value = env.AUTH_DISABLED || cloudflareEnv?.AUTH_DISABLED;
+
+  return value === '1' || value === 'true';
+}
+
+/**
+ * Verifies a Supabase access token. Tokens signed with the project's legacy HS256 secret need
+ * `SUPABASE_JWT_SECRET`; tokens signed with asymmetric keys are checked against the project's JWKS.
+ */
+export async function verifyAccessToken(token: string, cloudflareEnv?: Env): Promise<AuthUser | null> {
+  const supabaseUrl = getSupabaseUrl(cloudflareEnv);
+  const secret = getJwtSecret(cloudflareEnv);
+  const issuer = supabaseUrl ? `${supabaseUrl}/auth/v1` : undefined;
+
+  try {
+    const { alg } = decodeProtectedHeader(token);
+    let payload: JWTPayload;
+
+    if (alg === 'HS256') {
+      if (!secret) {
+        console.warn('[auth] Received an HS256 token but SUPABASE_JWT_SECRET is not set');
+        return null;
+      }
+
+      ({ payload } = await jwtVerify(token, new TextEncoder().encode(secret), {
+        algorithms: ['HS256'],
+        issuer,
+        audience: 'authenticated',
+      }));
+    } else {
+      if (!issuer) {
+        return null;
+      }
+
+      ({ payload } = await jwtVerify(token, getKeySet(issuer), { issuer, audience: 'authenticated' }));
+    }
+
+    if (!payload.sub) {
+      return null;
+    }
+
+    return {
+      id: payload.sub,
+      email: typeof payload.email === 'string' ? payload.email : undefined,
+      role: typeof payload.role === 'string' ? payload.role : 'authenticated',
+      accessToken: token,
+    };
+  } catch (error) {
+    // expired and malformed tokens are routine; the caller is treated as anonymous
+    console.debug('[auth] Rejected access token:', error instanceof Error ? error.message : error);
+
+    return null;
+  }
+}
+
+async function hasActiveSubscription(user: AuthUser, cloudflareEnv?: Env) {
+  const client = getServiceClient(cloudflareEnv) ?? getUserClient(user.accessToken, cloudflareEnv);
+
+  if (!client) {
+    return false;
+  }
+
+  const { data, error } = await client
+    .from('subscriptions')
+    .select('plan_id')
+    .eq('user_id', user.id)
+    .eq('status', 'active')
+    .gt('current_period_end', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('[auth] Failed to load subscription', error);
+    return false;
+  }
+
+  return PAID_PLANS.includes(data?.[0]?.plan_id);
+}
+
+/**
+ * Resolves the caller lazily and at most once per request; created for every request in
+ * `getLoadContext` and exposed to routes as `context.auth`.
+ */
+export function createRequestAuth(request: Request, cloudflareEnv?: Env): RequestAuth {
+  let user: Promise<AuthUser | null> | undefined;
+  let paid: Promise<boolean> | undefined;
+
+  const getUser = () => {
+    if (!user) {
+      const token = getAccessToken(request);
+      user = token ? verifyAccessToken(token, cloudflareEnv) : Promise.resolve(null);
+    }
+
+    return user;
+  };
+
+  return {
+    getUser,
+    isPaid() {
+      if (!paid) {
+        paid = getUser().then((caller) => (caller ? hasActiveSubscription(caller, cloudflareEnv) : false));
+      }
+
+      return paid;
+    },
+  };
+}
+
+/**
+ * Declares a route's access level. Call it first in an `action` or `loader`; when the caller
+ * doesn't meet the level it returns the 401/403 response to send back.
+ */
+export async function requireAccess(context: AppLoadContext, level: 'anonymous'): Promise<AccessResult>;
+export async function requireAccess(
+  context: AppLoadContext,
+  level: Exclude<AccessLevel, 'anonymous'>,
+): Promise<AccessResult<AuthUser>>;
+export async function requireAccess(context: AppLoadContext, level: AccessLevel): Promise<AccessResult> {
+  const user = await context.auth.getUser();
+
+  if (level === 'anonymous') {
+    return { ok: true, user };
+  }
+
+  if (!isAuthConfigured(context.cloudflare.env)) {
+    if (isAuthDisabled(context.cloudflare.env)) {
+      return { ok: true, user: user ?? LOCAL_USER };
+    }
+
+    console.error(
+      '[auth] Supabase is not configured; set SUPABASE_URL or SUPABASE_JWT_SECRET, or AUTH_DISABLED=1 for local development',
+    );
+
+    return { ok: false, response: jsonResponse({ error: 'Authentication is not configured.' }, 500) };
+  }
+
+  if (!user) {
+    return denied('authenticated');
+  }
+
+  if (level === 'paid' && !(await context.auth.isPaid())) {
+    return denied('paid');
+  }
+
+  return { ok: true, user };
+}
@@ -23,3 +23,13 @@ export function getOpenAIAPIKey(cloudflareEnv?: Env) {
    */
   return env.OPENAI_API_KEY || cloudflareEnv?.OPENAI_API_KEY;
 }
+
+/**
+ * Reads an optional, non-secret setting (model ids, base URLs, provider names) with the same
+ * precedence as the API key getters above.
+ */
+export function getEnvSetting(cloudflareEnv: Env | undefined, name: keyof Env): string | undefined {
+  const value = env[name] || cloudflareEnv?.[name];
+
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
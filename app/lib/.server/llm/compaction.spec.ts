@@ -0,0 +1,184 @@
+import type { LanguageModel, ModelMessage } from 'ai';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { compactConversation } from './compaction';
+import { loadModelCandidates } from './providers';
+
+vi.mock('./providers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./providers')>()),
+  loadModelCandidates: vi.fn(),
+}));
+
+/**
+ * `test-model` isn't in the catalog, so it gets the default 32k context window: after the system
+ * message and the tokens reserved for the response, recent messages may use ~22.4k tokens.
+ */
+const system: ModelMessage[] = [{ role: 'system', content: 'You build web apps.' }];
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+let summaryCount: number;
+
+/** the prompts the summaries were requested with */
+let prompts: string[];
+let generate: () => Promise<string>;
+
+/** a user or assistant message that is estimated at `tokens` tokens, including its overhead */
+function message(role: 'user' | 'assistant', index: number, tokens = 5_000): ModelMessage {
+  const text = `Message ${index}. `;
+
+  return { role, content: text.padEnd((tokens - 4) * 4, 'x') };
+}
+
+function conversation(count: number) {
+  return Array.from({ length: count }, (_, index) => message(index % 2 === 0 ? 'user' : 'assistant', index + 1));
+}
+
+const model: LanguageModelV2 = {
+  specificationVersion: 'v2',
+  provider: 'test',
+  modelId: 'test-model',
+  supportedUrls: {},
+  doGenerate: async ({ prompt }) => {
+    prompts.push(JSON.stringify(prompt.at(-1)?.content));
+
+    return {
+      content: [{ type: 'text', text: await generate() }],
+      finishReason: 'stop',
+      usage: { inputTokens: 1_000, outputTokens: 100, totalTokens: 1_100 },
+      warnings: [],
+    };
+  },
+  doStream: () => Promise.reject(new Error('Not implemented')),
+};
+
+beforeEach(() => {
+  summaryCount = 0;
+  prompts = [];
+  generate = async () => `- summary ${++summaryCount}`;
+
+  vi.mocked(loadModelCandidates).mockResolvedValue([{ provider: 'openai', modelId: 'test-model', model }]);
+});
+
+describe('compactConversation', () => {
+  it('should send conversations that fit the context window unchanged', async () => {
+    const messages = conversation(4);
+
+    expect(await compactConversation({ system, messages })).toEqual({ messages: [...system, ...messages] });
+    expect(prompts).toHaveLength(0);
+  });
+
+  it('should keep the recent messages that fit the budget and summarize the older ones', async () => {
+    const messages = conversation(10);
+    const compacted = await compactConversation({ system, messages });
+
+    expect(compacted.messages).toEqual([
+      ...system,
+      {
+        role: 'user',
+        content: 'Summary of the 6 earlier messages of this conversation, which are no longer shown:\n\n- summary 2',
+      },
+      ...messages.slice(6),
+    ]);
+    expect(compacted.summary).toMatchObject({ summary: '- summary 2', messageCount: 6 });
+    expect(compacted.usage?.map(({ totalTokens }) => totalTokens)).toEqual([1_100, 1_100]);
+
+    // summarized in chunks of half the context window, each on top of the previous summary
+    expect(prompts).toHaveLength(2);
+    expect(prompts[0]).toContain('Message 3.');
+    expect(prompts[0]).not.toContain('Message 4.');
+    expect(prompts[1]).toContain('Previous summary:\\n- summary 1');
+    expect(prompts[1]).toContain('Message 6.');
+  });
+
+  it('should keep tool results together with the assistant message that made the calls', async () => {
+    const call: ModelMessage = {
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Writing the page.'.padEnd(20_000, 'x') },
+        { type: 'tool-call', toolCallId: 'call-1', toolName: 'write_file', input: { path: 'index.html' } },
+      ],
+    };
+    const result: ModelMessage = {
+      role: 'tool',
+      content: [
+        {
+          type: 'tool-result',
+          toolCallId: 'call-1',
+          toolName: 'write_file',
+          output: { type: 'text', value: 'Written.'.padEnd(60_000, 'x') },
+        },
+      ],
+    };
+    const latest = message('user', 5);
+
+    const compacted = await compactConversation({
+      system,
+      messages: [message('user', 1), message('assistant', 2), call, result, latest],
+    });
+
+    expect(compacted.messages.slice(2)).toEqual([call, result, latest]);
+    expect(compacted.summary?.messageCount).toBe(2);
+  });
+
+  it('should truncate the latest message when it alone exceeds the budget', async () => {
+    const latest: ModelMessage = { role: 'user', content: `Start ${'x'.repeat(200_000)} end` };
+    const compacted = await compactConversation({ system, messages: [message('user', 1), latest] });
+    const sent = compacted.messages.at(-1)!.content as string;
+
+    expect(sent.length).toBeLessThan(90_000);
+    expect(sent).toMatch(/^Start x+\n\n\[\.\.\. \d+ characters omitted \.\.\.\]\n\nx+ end$/);
+    expect(compacted.summary?.messageCount).toBe(1);
+  });
+
+  it('should reuse the summary when its fingerprint still matches', async () => {
+    const messages = conversation(10);
+    const { summary } = await compactConversation({ system, messages });
+
+    prompts.length = 0;
+
+    const reused = await compactConversation({ system, messages, previousSummary: summary });
+
+    expect(reused.summary).toEqual(summary);
+    expect(reused.usage).toEqual([]);
+    expect(reused.messages[1].content).toContain('- summary 2');
+    expect(prompts).toHaveLength(0);
+
+    // two more messages move two older ones out, which only they are summarized for
+    const extended = await compactConversation({ system, messages: conversation(12), previousSummary: summary });
+
+    expect(extended.summary).toMatchObject({ summary: '- summary 3', messageCount: 8 });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('Previous summary:\\n- summary 2');
+    expect(prompts[0]).toContain('Message 7.');
+    expect(prompts[0]).not.toContain('Message 6.');
+  });
+
+  it('should summarize again when the summarized messages changed', async () => {
+    const messages = conversation(10);
+    const { summary } = await compactConversation({ system, messages });
+
+    prompts.length = 0;
+
+    const edited = [message('user', 100), ...messages.slice(1)];
+    const compacted = await compactConversation({ system, messages: edited, previousSummary: summary });
+
+    expect(compacted.summary).toMatchObject({ summary: '- summary 4', messageCount: 6 });
+    expect(prompts[0]).not.toContain('Previous summary');
+    expect(prompts[0]).toContain('Message 100.');
+  });
+
+  it('should omit the older messages when summarizing fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    generate = () => Promise.reject(new Error('overloaded'));
+
+    const messages = conversation(10);
+    const compacted = await compactConversation({ system, messages });
+
+    expect(compacted.summary).toBeUndefined();
+    expect(compacted.messages).toEqual([
+      ...system,
+      { role: 'system', content: '[6 earlier messages were omitted to fit the context window.]' },
+      ...messages.slice(6),
+    ]);
+  });
+});
@@ -0,0 +1,329 @@
+import { generateText, type LanguageModelUsage, type ModelMessage } from 'ai';
+import { getModelCapabilities } from './model-catalog';
+import { loadModelCandidates, type ProviderId, type ResolvedModel } from './providers';
+import type { Messages } from './stream-text';
+import type { ConversationSummary } from '~/types/usage';
+
+// used when the catalog doesn't know a model's context window
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// tokens kept free for the response; matches `maxOutputTokens` in stream-text
+const RESERVED_OUTPUT_TOKENS = 4_000;
+
+// rough cost of an image part; Anthropic bills up to ~1,600 tokens per image
+const IMAGE_TOKENS = 1_600;
+
+// role markers and separators added by the chat templates
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// the running summary may use at most this share of the budget
+const SUMMARY_BUDGET_SHARE = 0.2;
+
+/**
+ * Average characters per token for each provider's tokenizer. Without shipping the tokenizers
+ * themselves this keeps estimates within ~10% for English prose and code.
+ */
+const CHARS_PER_TOKEN: Record<ProviderId, number> = {
+  anthropic: 3.5,
+  openai: 4,
+  openrouter: 3.8,
+  'openai-compatible': 3.6,
+};
+
+export interface CompactionOptions {
+  env?: Env;
+
+  /** the summary returned for an earlier request of the conversation, extended when it still applies */
+  previousSummary?: ConversationSummary;
+
+  /** model selector the request will be served with */
+  modelSelector?: string;
+
+  /** system and knowledge base messages, always sent verbatim */
+  system: Messages;
+  messages: Messages;
+}
+
+export function estimateTokens(text: string, provider: ProviderId = 'openai') {
+  return Math.ceil(text.length / CHARS_PER_TOKEN[provider]);
+}
+
+export function estimateMessageTokens(message: ModelMessage, provider: ProviderId = 'openai') {
+  if (typeof message.content === 'string') {
+    return estimateTokens(message.content, provider) + MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  for (const part of message.content) {
+    if (part.type === 'text' || part.type === 'reasoning') {
+      tokens += estimateTokens(part.text, provider);
+    } else if (part.type === 'image' || part.type === 'file') {
+      tokens += IMAGE_TOKENS;
+    } else {
+      tokens += estimateTokens(JSON.stringify(part), provider);
+    }
+  }
+
+  return tokens;
+}
+
+function getMessageText(message: ModelMessage) {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+
+  return message.content
+    .map((part) => {
+      if (part.type === 'text' || part.type === 'reasoning') {
+        return part.text;
+      }
+
+      return part.type === 'image' || part.type === 'file' ? '[image]' : '';
+    })
+    .join('\n');
+}
+
+function fingerprint(messages: Messages) {
+  // djb2 over role + text; collisions only cost an unnecessary re-summary
+  let hash = 5381;
+
+  for (const message of messages) {
+    const text = `${message.role}:${getMessageText(message)}\u0000`;
+
+    for (let i = 0; i < text.length; i++) {
+      hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+  }
+
+  return `${messages.length}:${(hash >>> 0).toString(36)}`;
+}
+
+function truncateText(text: string, maxChars: number) {
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  // keep both ends; the actual request usually follows a long paste
+  const half = Math.floor(maxChars / 2);
+
+  return `${text.slice(0, half)}\n\n[... ${text.length - 2 * half} characters omitted ...]\n\n${text.slice(text.length - half)}`;
+}
+
+function truncateToTokens(message: ModelMessage, maxTokens: number, provider: ProviderId): ModelMessage {
+  const maxChars = Math.max(0, Math.floor(maxTokens * CHARS_PER_TOKEN[provider]));
+
+  if (typeof message.content === 'string') {
+    return { ...message, content: truncateText(message.content, maxChars) } as ModelMessage;
+  }
+
+  // only user messages carry image parts; keep them and shorten the text around them
+  if (message.role === 'user') {
+    return {
+      ...message,
+      content: message.content.map((part) =>
+        part.type === 'text' ? { ...part, text: truncateText(part.text, maxChars) } : part,
+      ),
+    };
+  }
+
+  return message;
+}
+
+function toTranscript(messages: Messages) {
+  return messages.map((message) => `${message.role.toUpperCase()}:\n${getMessageText(message)}`).join('\n\n');
+}
+
+async function summarize(
+  candidate: ResolvedModel,
+  previousSummary: string | undefined,
+  messages: Messages,
+  usage: LanguageModelUsage[],
+) {
+  const { text, totalUsage } = await generateText({
+    model: candidate.model,
+    temperature: 0.2,
+    maxOutputTokens: 1_500,
+    system:
+      'You maintain a running summary of a conversation between a user and an AI that builds web apps. ' +
+      'Merge the previous summary with the new messages. Preserve the project goal, requirements, tech stack, ' +
+      "design decisions, file paths and their purpose, commands that were run, open problems and the user's " +
+      'preferences. Drop greetings and code that was superseded. Reply with the summary only, as concise bullet points.',
+    prompt: `${previousSummary ? `Previous summary:\n${previousSummary}\n\n` : ''}New messages:\n${toTranscript(messages)}`,
+  });
+
+  usage.push(totalUsage);
+
+  return text.trim();
+}
+
+/**
+ * Summarizes `messages` on top of `previousSummary`, splitting them into chunks that fit the
+ * summarizing model's context window. The usage of each model call is added to `usage`.
+ */
+async function summarizeIncrementally(
+  candidate: ResolvedModel,
+  previousSummary: string | undefined,
+  messages: Messages,
+  chunkTokens: number,
+  usage: LanguageModelUsage[],
+) {
+  let summary = previousSummary;
+  let chunk: Messages = [];
+  let chunkSize = 0;
+
+  for (const message of messages) {
+    const tokens = estimateMessageTokens(message, candidate.provider);
+
+    if (chunk.length > 0 && chunkSize + tokens > chunkTokens) {
+      summary = await summarize(candidate, summary, chunk, usage);
+      chunk = [];
+      chunkSize = 0;
+    }
+
+    chunk.push(tokens > chunkTokens ? truncateToTokens(message, chunkTokens, candidate.provider) : message);
+    chunkSize += Math.min(tokens, chunkTokens);
+  }
+
+  if (chunk.length > 0) {
+    summary = await summarize(candidate, summary, chunk, usage);
+  }
+
+  return summary ?? '';
+}
+
+async function getSummary(
+  candidate: ResolvedModel,
+  cached: ConversationSummary | undefined,
+  olderMessages: Messages,
+  chunkTokens: number,
+  usage: LanguageModelUsage[],
+): Promise<ConversationSummary> {
+  const reusable =
+    cached &&
+    cached.messageCount <= olderMessages.length &&
+    cached.fingerprint === fingerprint(olderMessages.slice(0, cached.messageCount));
+
+  if (reusable && cached.messageCount === olderMessages.length) {
+    return cached;
+  }
+
+  const summary = reusable
+    ? await summarizeIncrementally(
+        candidate,
+        cached.summary,
+        olderMessages.slice(cached.messageCount),
+        chunkTokens,
+        usage,
+      )
+    : await summarizeIncrementally(candidate, undefined, olderMessages, chunkTokens, usage);
+
+  return { summary, messageCount: olderMessages.length, fingerprint: fingerprint(olderMessages) };
+}
+
+export interface CompactedConversation {
+  messages: Messages;
+
+  /** set when older messages were summarized; the client sends it back with the next request */
+  summary?: ConversationSummary;
+
+  /** usage of the model calls made to summarize, metered and reported with the response */
+  usage?: LanguageModelUsage[];
+}
+
+/**
+ * Fits a conversation into the context window of the model that will serve it. System and
+ * knowledge base messages and the most recent turns are kept verbatim; everything older is
+ * replaced with an LLM-generated running summary. The summary travels with the chat's messages,
+ * so the next request extends it incrementally as the conversation grows. It is discarded unless
+ * its fingerprint matches the messages it claims to cover. Since the client can still send any
+ * summary, it is passed to the model as a user message, with no more authority than anything else
+ * the user writes.
+ */
+export async function compactConversation({
+  env,
+  previousSummary,
+  modelSelector,
+  system,
+  messages,
+}: CompactionOptions): Promise<CompactedConversation> {
+  const [candidate] = await loadModelCandidates(env, modelSelector);
+
+  if (!candidate || messages.length === 0) {
+    return { messages: [...system, ...messages] };
+  }
+
+  const { provider } = candidate;
+  const contextWindow = getModelCapabilities(candidate.modelId).contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  const systemTokens = system.reduce((total, message) => total + estimateMessageTokens(message, provider), 0);
+  const budget = contextWindow - RESERVED_OUTPUT_TOKENS - systemTokens;
+  const conversationTokens = messages.reduce((total, message) => total + estimateMessageTokens(message, provider), 0);
+
+  if (conversationTokens <= budget) {
+    return { messages: [...system, ...messages] };
+  }
+
+  const recentBudget = Math.floor(budget * (1 - SUMMARY_BUDGET_SHARE));
+  const recent: Messages = [];
+  let recentTokens = 0;
+  let splitIndex = messages.length;
+
+  // walk back from the newest message; the latest one is always kept, truncated if it must be
+  while (splitIndex > 0) {
+    const message = messages[splitIndex - 1];
+    const tokens = estimateMessageTokens(message, provider);
+
+    if (recent.length > 0 && recentTokens + tokens > recentBudget) {
+      break;
+    }
+
+    recent.unshift(recent.length === 0 ? truncateToTokens(message, recentBudget, provider) : message);
+    recentTokens += tokens;
+    splitIndex--;
+  }
+
+  // tool results can't be sent without the assistant message that made the calls
+  while (splitIndex > 0 && recent[0]?.role === 'tool') {
+    recent.unshift(messages[splitIndex - 1]);
+    splitIndex--;
+  }
+
+  const olderMessages = messages.slice(0, splitIndex);
+
+  if (olderMessages.length === 0) {
+    return { messages: [...system, ...recent] };
+  }
+
+  const usage: LanguageModelUsage[] = [];
+
+  try {
+    const summary = await getSummary(candidate, previousSummary, olderMessages, Math.floor(contextWindow / 2), usage);
+
+    return {
+      messages: [
+        ...system,
+        {
+          role: 'user',
+          content: `Summary of the ${olderMessages.length} earlier messages of this conversation, which are no longer shown:\n\n${summary.summary}`,
+        },
+        ...recent,
+      ],
+      summary,
+      usage,
+    };
+  } catch (error) {
+    console.warn('[compaction] Failed to summarize earlier messages', error);
+
+    return {
+      messages: [
+        ...system,
+        {
+          role: 'system',
+          content: `[${olderMessages.length} earlier messages were omitted to fit the context window.]`,
+        },
+        ...recent,
+      ],
+      usage,
+    };
+  }
+}
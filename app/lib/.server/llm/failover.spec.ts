@@ -0,0 +1,79 @@
+import { APICallError, type TextStreamPart, type ToolSet } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { awaitFirstToken, FailoverError } from './failover';
+
+type Part = TextStreamPart<ToolSet>;
+
+const START: Part[] = [
+  { type: 'start' },
+  { type: 'start-step', request: {}, warnings: [] },
+  { type: 'text-start', id: '1' },
+];
+
+const FINISH: Part = {
+  type: 'finish',
+  finishReason: 'stop',
+  totalUsage: { inputTokens: 10, outputTokens: 0, totalTokens: 10 },
+};
+
+describe('awaitFirstToken', () => {
+  it('should resolve once the model starts answering', async () => {
+    await expect(awaitFirstToken(streamOf([...START, { type: 'text-delta', id: '1', text: 'Hi' }]))).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('should fail over on an HTTP error', async () => {
+    const error = new APICallError({
+      message: 'Rate limit exceeded',
+      url: 'https://example.com',
+      requestBodyValues: {},
+      statusCode: 429,
+    });
+
+    const failover = await rejectionOf(awaitFirstToken(streamOf([...START, { type: 'error', error }])));
+
+    expect(failover).toBeInstanceOf(FailoverError);
+    expect(failover).toMatchObject({ reason: 'error', message: 'HTTP 429: Rate limit exceeded', cause: error });
+  });
+
+  it('should fail over on an empty completion', async () => {
+    const failover = await rejectionOf(
+      awaitFirstToken(streamOf([...START, { type: 'text-delta', id: '1', text: '' }, FINISH])),
+    );
+
+    expect(failover).toMatchObject({ reason: 'empty' });
+  });
+
+  it('should fail over when no token arrives in time', async () => {
+    const failover = await rejectionOf(awaitFirstToken(streamOf(START, { close: false }), { timeoutMs: 10 }));
+
+    expect(failover).toMatchObject({ reason: 'timeout' });
+  });
+
+  it('should not fail over a response the caller stopped', async () => {
+    await expect(awaitFirstToken(streamOf([...START, { type: 'abort' }]))).resolves.toBe(undefined);
+  });
+});
+
+function streamOf(parts: Part[], { close = true } = {}) {
+  return new ReadableStream<Part>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(part));
+
+      if (close) {
+        controller.close();
+      }
+    },
+  });
+}
+
+async function rejectionOf(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  throw new Error('Expected the promise to reject');
+}
@@ -0,0 +1,99 @@
+import { APICallError, type TextStreamPart, type ToolSet } from 'ai';
+import type { FailoverReason } from '~/types/usage';
+
+/** how long a model has to start answering before the next candidate is tried */
+export const FIRST_TOKEN_TIMEOUT_MS = 30_000;
+
+type Part = TextStreamPart<ToolSet>;
+
+/** thrown by `awaitFirstToken` when the next candidate should answer instead */
+export class FailoverError extends Error {
+  constructor(
+    readonly reason: FailoverReason,
+    message: string,
+    options?: { cause?: unknown },
+  ) {
+    super(message, options);
+    this.name = 'FailoverError';
+  }
+}
+
+function isAnswerPart(part: Part) {
+  switch (part.type) {
+    case 'text-delta':
+    case 'reasoning-delta': {
+      return part.text.length > 0;
+    }
+    case 'tool-input-start':
+    case 'tool-call':
+    case 'source':
+    case 'file': {
+      return true;
+    }
+    default: {
+      return false;
+    }
+  }
+}
+
+function describeError(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+
+  return APICallError.isInstance(error) && error.statusCode ? `HTTP ${error.statusCode}: ${message}` : message;
+}
+
+interface AwaitFirstTokenOptions {
+  timeoutMs?: number;
+
+  /** the caller's signal; a response the caller stopped is never failed over */
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads `stream` until the model starts answering. Throws a `FailoverError` when the request
+ * fails, no token arrives within `timeoutMs`, or the model finishes without any output. Only this
+ * branch of the stream is read, so the result can still be streamed from the start.
+ */
+export async function awaitFirstToken(
+  stream: ReadableStream<Part>,
+  { timeoutMs = FIRST_TOKEN_TIMEOUT_MS, signal }: AwaitFirstTokenOptions = {},
+) {
+  const reader = stream.getReader();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new FailoverError('timeout', `No response within ${Math.round(timeoutMs / 1000)}s`)),
+      timeoutMs,
+    );
+  });
+
+  try {
+    while (true) {
+      const result = await Promise.race([reader.read(), timeout]);
+
+      if (result.done) {
+        break;
+      }
+
+      const part = result.value;
+
+      if (isAnswerPart(part) || part.type === 'abort' || signal?.aborted) {
+        return;
+      }
+
+      if (part.type === 'error') {
+        throw new FailoverError('error', describeError(part.error), { cause: part.error });
+      }
+
+      if (part.type === 'finish') {
+        break;
+      }
+    }
+
+    throw new FailoverError('empty', 'The model finished without a response');
+  } finally {
+    clearTimeout(timer);
+    reader.cancel().catch(() => undefined);
+  }
+}
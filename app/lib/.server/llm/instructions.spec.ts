@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildInstructionsPrompt } from './instructions';
+
+describe('buildInstructionsPrompt', () => {
+  it('should return no prompt without instructions', () => {
+    expect(buildInstructionsPrompt({ customInstructions: '  ', projectRules: '' })).toEqual({
+      prompt: undefined,
+      sources: [],
+    });
+  });
+
+  it('should include custom instructions and project rules', () => {
+    const { prompt, sources } = buildInstructionsPrompt({
+      customInstructions: 'Answer in French.',
+      projectRules: 'Use pnpm.\n',
+    });
+
+    expect(sources).toEqual(['custom', 'project']);
+    expect(prompt).toContain('<custom_instructions>\nAnswer in French.\n</custom_instructions>');
+    expect(prompt).toContain('<project_rules file=".gleiorules">\nUse pnpm.\n</project_rules>');
+  });
+
+  it('should truncate long project rules', () => {
+    const { prompt } = buildInstructionsPrompt({ projectRules: 'x'.repeat(10_000) });
+
+    expect(prompt).toContain('[Truncated]');
+    expect(prompt!.length).toBeLessThan(9_000);
+  });
+});
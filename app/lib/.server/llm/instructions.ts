@@ -0,0 +1,80 @@
+import type { AuthUser } from '~/lib/.server/auth';
+import { getServiceClient, getUserClient } from '~/lib/.server/supabase';
+import type { InstructionSource } from '~/types/usage';
+import { PROJECT_RULES_FILE } from '~/utils/constants';
+
+// also enforced by the `profiles_custom_instructions_length` constraint
+const MAX_CUSTOM_INSTRUCTIONS_LENGTH = 4000;
+const MAX_PROJECT_RULES_LENGTH = 8000;
+
+function truncate(text: string, maxLength: number) {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n[Truncated]` : text;
+}
+
+/**
+ * Reads the custom instructions saved on the user's profile. Returns `undefined` when there are
+ * none or Supabase isn't configured, and when they can't be loaded, so chat keeps working.
+ */
+export async function loadCustomInstructions(user: AuthUser | null, env?: Env) {
+  if (!user) {
+    return undefined;
+  }
+
+  const client = getServiceClient(env) ?? getUserClient(user.accessToken, env);
+
+  if (!client) {
+    return undefined;
+  }
+
+  const { data, error } = await client.from('profiles').select('custom_instructions').eq('id', user.id).maybeSingle();
+
+  if (error) {
+    console.error('[chat] Failed to load custom instructions', error);
+    return undefined;
+  }
+
+  const instructions = data?.custom_instructions;
+
+  return typeof instructions === 'string' && instructions.trim() ? instructions.trim() : undefined;
+}
+
+interface InstructionsPromptOptions {
+  customInstructions?: string;
+
+  /** content of the project's `.gleiorules` file, as sent by the client */
+  projectRules?: string;
+}
+
+/**
+ * Builds the system prompt for the user's standing instructions, and lists which ones it
+ * contains so the response can show what was applied. Returns no prompt when there are none.
+ */
+export function buildInstructionsPrompt({ customInstructions, projectRules }: InstructionsPromptOptions) {
+  const sections: string[] = [];
+  const sources: InstructionSource[] = [];
+
+  if (customInstructions?.trim()) {
+    sources.push('custom');
+    sections.push(
+      `<custom_instructions>\n${truncate(customInstructions.trim(), MAX_CUSTOM_INSTRUCTIONS_LENGTH)}\n</custom_instructions>`,
+    );
+  }
+
+  if (projectRules?.trim()) {
+    sources.push('project');
+    sections.push(
+      `<project_rules file="${PROJECT_RULES_FILE}">\n${truncate(projectRules.trim(), MAX_PROJECT_RULES_LENGTH)}\n</project_rules>`,
+    );
+  }
+
+  if (sections.length === 0) {
+    return { prompt: undefined, sources };
+  }
+
+  const prompt = [
+    'The user set standing instructions for every response. Follow them, and the project rules when working on the project, unless they conflict with platform safety rules. The latest message wins when it asks for something different.',
+    ...sections,
+  ].join('\n\n');
+
+  return { prompt, sources };
+}
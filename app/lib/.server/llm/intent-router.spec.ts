@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { classifyIntent, INTENT_PROMPT_MODULES, routeChat } from './intent-router';
+import { getSystemPrompt } from './prompts';
+import type { ChatIntent } from '~/types/intent';
+import { MODIFICATIONS_TAG_NAME } from '~/utils/constants';
+
+describe('classifyIntent', () => {
+  it.each<[string, ChatIntent]>([
+    ['hi', 'chat'],
+    ['Thanks, that looks great!', 'chat'],
+    ['What is the difference between SSR and SSG?', 'chat'],
+    ['Build a landing page for my coffee subscription startup', 'build'],
+    ['The app crashes with TypeError: cannot read properties of undefined', 'fix'],
+    ['Fix the navbar', 'fix'],
+    ['How should I approach pricing and go-to-market for a B2B tool?', 'strategy'],
+    ['Research the market size and main competitors for meal kits', 'research'],
+  ])('should classify "%s" as %s', (text, intent) => {
+    expect(classifyIntent(text)).toBe(intent);
+  });
+
+  it('should treat a vague request as a build once there is a project', () => {
+    expect(classifyIntent('use a darker blue')).toBe('chat');
+    expect(classifyIntent('use a darker blue', { hasProject: true })).toBe('build');
+  });
+});
+
+describe('routeChat', () => {
+  it('should ignore the file modifications sent ahead of the message', () => {
+    const content = `<${MODIFICATIONS_TAG_NAME}><diff path="/home/project/src/App.tsx">-fix</diff></${MODIFICATIONS_TAG_NAME}>\n\nhi`;
+    const route = routeChat({} as Env, [{ role: 'user', content }]);
+
+    expect(route).toMatchObject({ intent: 'chat', source: 'classifier', modules: INTENT_PROMPT_MODULES.chat });
+  });
+
+  it("should use the client's intent and the intent's configured model", () => {
+    const route = routeChat(
+      { LLM_MODEL_RESEARCH: 'anthropic:claude-3-5-sonnet-20240620' } as Env,
+      [{ role: 'user', content: 'hi' }],
+      'research',
+    );
+
+    expect(route).toEqual({
+      intent: 'research',
+      source: 'client',
+      modules: INTENT_PROMPT_MODULES.research,
+      model: 'anthropic:claude-3-5-sonnet-20240620',
+    });
+  });
+});
+
+describe('getSystemPrompt', () => {
+  it('should only include the requested modules', () => {
+    const prompt = getSystemPrompt('/home/project', INTENT_PROMPT_MODULES.chat);
+
+    expect(prompt).toContain('Current working directory: /home/project');
+    expect(prompt).toContain('<communication_style>');
+    expect(prompt).not.toContain('<intent_policy>');
+    expect(prompt).not.toContain('<research_mode>');
+    expect(prompt.length).toBeLessThan(getSystemPrompt('/home/project').length / 5);
+  });
+
+  it('should document the artifact format and actions for fixes', () => {
+    const prompt = getSystemPrompt('/home/project', INTENT_PROMPT_MODULES.fix);
+
+    expect(prompt).toContain('<boltArtifact');
+    expect(prompt).toContain('type="patch"');
+    expect(prompt).toContain('<artifact_instructions>');
+    expect(prompt).not.toContain('<gleio_artifact_capabilities>');
+  });
+});
@@ -0,0 +1,147 @@
+import { getEnvSetting } from './api-key';
+import type { PromptModule } from './prompts';
+import type { Messages } from './stream-text';
+import type { ChatIntent } from '~/types/intent';
+import { MODIFICATIONS_TAG_NAME } from '~/utils/constants';
+
+/** the prompt modules each intent is answered with, see `getSystemPrompt` */
+export const INTENT_PROMPT_MODULES: Record<ChatIntent, PromptModule[]> = {
+  chat: ['core'],
+  build: ['core', 'thinking', 'build', 'code', 'artifacts'],
+  fix: ['core', 'thinking', 'code', 'artifacts'],
+  strategy: ['core', 'thinking', 'business'],
+  research: ['core', 'thinking', 'business', 'research'],
+};
+
+// optional model selector per intent, used when the client doesn't pick a model
+const INTENT_MODEL_SETTINGS: Record<ChatIntent, keyof Env> = {
+  chat: 'LLM_MODEL_CHAT',
+  build: 'LLM_MODEL_BUILD',
+  fix: 'LLM_MODEL_FIX',
+  strategy: 'LLM_MODEL_STRATEGY',
+  research: 'LLM_MODEL_RESEARCH',
+};
+
+// signals for each intent; a turn goes to the intent with the most matches
+const INTENT_PATTERNS: Record<Exclude<ChatIntent, 'chat'>, RegExp[]> = {
+  fix: [
+    /\b(?:fix|debug|bugs?|broken|crash(?:es|ed|ing)?|errors?|exceptions?|stack ?trace|fail(?:s|ed|ing)?)\b/g,
+    /\b(?:not|isn'?t|doesn'?t|won'?t|can'?t) (?:work|load|start|run|compile|build|render|show)/g,
+    /\b(?:type|reference|syntax)error\b|\bcannot (?:read|find)\b|\bis not (?:defined|a function)\b/g,
+  ],
+  research: [
+    /\b(?:research|competitors?|competitive (?:landscape|analysis)|market (?:size|trends?|analysis|data))\b/g,
+    /\b(?:tam|sam|som|statistics|surveys?|reports?|sources|citations?|industry (?:trends?|analysis))\b/g,
+  ],
+  strategy: [
+    /\b(?:strategy|pricing|business model|go[- ]to[- ]market|gtm|positioning|monetiz\w*|revenue|roadmap)\b/g,
+    /\b(?:fundrais\w*|investors?|pitch(?: deck)?|unit economics|target (?:audience|customers?)|personas?)\b/g,
+    /\bvalidat\w* (?:my|the|this|an?) (?:idea|startup|business)\b/g,
+  ],
+  build: [
+    /\b(?:build|create|make|generate|scaffold|implement|add|change|update|replace|remove|rename|refactor|redesign)\b/g,
+    /\b(?:website|site|landing page|web ?app|app|page|component|button|navbar|header|footer|form|dashboard|layout)\b/g,
+  ],
+};
+
+// ties go to the first intent in this order
+const INTENT_PRIORITY: Array<Exclude<ChatIntent, 'chat'>> = ['fix', 'research', 'strategy', 'build'];
+
+const SMALL_TALK =
+  /^(?:hi|hello|hey|yo|thanks|thank you|thx|ok|okay|cool|great|nice|good (?:morning|afternoon|evening))\b/;
+
+interface ClassifyIntentOptions {
+  /** whether the conversation already works on a project, which makes vague requests likely edits */
+  hasProject?: boolean;
+}
+
+/**
+ * Labels a user turn with keyword heuristics, so routing doesn't cost a model call. Turns without
+ * any signal are small talk or questions, unless they read like a request for a project.
+ */
+export function classifyIntent(text: string, { hasProject = false }: ClassifyIntentOptions = {}): ChatIntent {
+  const normalized = text.toLowerCase().trim();
+
+  const scores = INTENT_PRIORITY.map((intent) => ({
+    intent,
+    score: INTENT_PATTERNS[intent].reduce((total, pattern) => total + (normalized.match(pattern)?.length ?? 0), 0),
+  }));
+
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+
+  if (best.score > 0) {
+    return best.intent;
+  }
+
+  const isQuestion = normalized.endsWith('?');
+  const isShort = normalized.split(/\s+/).length <= 6;
+
+  if (SMALL_TALK.test(normalized) || isQuestion || (isShort && !hasProject)) {
+    return 'chat';
+  }
+
+  return 'build';
+}
+
+function getText(message: Messages[number] | undefined) {
+  if (!message) {
+    return '';
+  }
+
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+
+  return message.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n');
+}
+
+/**
+ * Returns the text of the last user turn, without the edits to the project that are sent ahead
+ * of it.
+ */
+export function getLatestUserText(messages: Messages) {
+  const closingTag = `</${MODIFICATIONS_TAG_NAME}>`;
+  const text = getText(messages.findLast((message) => message.role === 'user'));
+  const modificationsEnd = text.lastIndexOf(closingTag);
+
+  return modificationsEnd === -1 ? text : text.slice(modificationsEnd + closingTag.length);
+}
+
+export interface ChatRoute {
+  intent: ChatIntent;
+
+  /** `client` when the request named the intent */
+  source: 'classifier' | 'client';
+  modules: PromptModule[];
+
+  /** the intent's configured model, if any */
+  model?: string;
+}
+
+/**
+ * Picks the prompt modules and model for the last user turn in `messages`. `requestedIntent`
+ * overrides the classifier.
+ */
+export function routeChat(env: Env | undefined, messages: Messages, requestedIntent?: ChatIntent): ChatRoute {
+  let intent = requestedIntent;
+
+  if (!intent) {
+    const lastUserText = getText(messages.findLast((message) => message.role === 'user'));
+
+    const hasProject =
+      lastUserText.includes(`</${MODIFICATIONS_TAG_NAME}>`) ||
+      messages.some(
+        (message) =>
+          message.role === 'tool' || (message.role === 'assistant' && getText(message).includes('<boltArtifact')),
+      );
+
+    intent = classifyIntent(getLatestUserText(messages), { hasProject });
+  }
+
+  return {
+    intent,
+    source: requestedIntent ? 'client' : 'classifier',
+    modules: INTENT_PROMPT_MODULES[intent],
+    model: getEnvSetting(env, INTENT_MODEL_SETTINGS[intent]),
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { chunkKnowledgeEntries, retrieveKnowledge, scoreChunks } from './knowledge';
+
+const entries = [
+  { id: 'voice', title: 'Brand voice', content: 'Write in a friendly, confident tone. Avoid jargon.' },
+  { id: 'pricing', title: 'Pricing', content: 'The starter plan costs $12 per month.\n\nAnnual billing saves 20%.' },
+  { id: 'support', title: 'Support hours', content: 'Support answers emails on weekdays from 9 to 5 CET.' },
+];
+
+describe('chunkKnowledgeEntries', () => {
+  it('should keep short entries whole and split long ones at paragraphs', () => {
+    const long = { title: 'Long', content: `${'a '.repeat(500)}\n\n${'b '.repeat(500)}` };
+    const chunks = chunkKnowledgeEntries([...entries, long]);
+
+    expect(chunks.filter(({ entry }) => entry === 1)).toHaveLength(1);
+    expect(chunks.filter(({ entry }) => entry === 3)).toHaveLength(2);
+    expect(chunks.every(({ text }) => text.length <= 1_200)).toBe(true);
+  });
+});
+
+describe('scoreChunks', () => {
+  it('should rank the chunk that matches the query first', () => {
+    const scores = scoreChunks('how much does the starter plan cost per month?', chunkKnowledgeEntries(entries));
+
+    expect(scores[1]).toBeGreaterThan(0);
+    expect(scores[0]).toBe(0);
+    expect(scores[2]).toBe(0);
+  });
+});
+
+describe('retrieveKnowledge', () => {
+  it('should only include relevant entries and return their ids', async () => {
+    const knowledge = await retrieveKnowledge({ entries, query: 'Update the pricing page with annual billing' });
+
+    expect(knowledge.entryIds).toEqual(['pricing']);
+    expect(knowledge.prompt).toContain('Excerpt 1: Pricing');
+    expect(knowledge.prompt).not.toContain('Brand voice');
+  });
+
+  it('should return no prompt when nothing is relevant', async () => {
+    expect(await retrieveKnowledge({ entries, query: 'hi' })).toEqual({ entryIds: [], chunkCount: 0 });
+  });
+
+  it('should stay within the token budget', async () => {
+    const many = Array.from({ length: 30 }, (_, index) => ({
+      id: `entry-${index}`,
+      title: `Pricing note ${index}`,
+      content: 'pricing '.repeat(100),
+    }));
+
+    const knowledge = await retrieveKnowledge({ entries: many, query: 'pricing', topK: 20, tokenBudget: 1_000 });
+
+    expect(knowledge.chunkCount).toBe(4);
+  });
+
+  it('should add entries the embeddings find similar', async () => {
+    const embed = async (texts: string[]) =>
+      texts.map((text) => (text.includes('tone') || text.includes('sound') ? [1, 0] : [0, 1]));
+
+    const knowledge = await retrieveKnowledge({ entries, query: 'How should our emails sound?', embed });
+
+    // "emails" matches the support hours, the embeddings match the brand voice
+    expect([...knowledge.entryIds].sort()).toEqual(['support', 'voice']);
+  });
+
+  it('should fall back to BM25 when embedding fails', async () => {
+    const embed = async () => {
+      throw new Error('unavailable');
+    };
+
+    const knowledge = await retrieveKnowledge({ entries, query: 'pricing', embed });
+
+    expect(knowledge.entryIds).toEqual(['pricing']);
+  });
+
+  it('should embed a bounded number of chunks, the best BM25 matches first', async () => {
+    const many = Array.from({ length: 400 }, (_, index) => ({
+      id: `entry-${index}`,
+      title: `Note ${index}`,
+      content: index === 399 ? 'Refunds are issued within 14 days.' : `Filler paragraph number ${index}.`,
+    }));
+    let embedded: string[] = [];
+
+    const embed = async (texts: string[]) => {
+      embedded = texts;
+
+      // nothing is similar to the query
+      return texts.map((_, index) => (index === 0 ? [1, 0] : [0, 1]));
+    };
+
+    const knowledge = await retrieveKnowledge({ entries: many, query: 'refunds', embed });
+
+    expect(embedded).toHaveLength(257);
+    expect(embedded[1]).toContain('Refunds');
+    expect(knowledge.entryIds).toEqual(['entry-399']);
+  });
+});
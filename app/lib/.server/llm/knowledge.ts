@@ -0,0 +1,321 @@
+import { cosineSimilarity, embedMany } from 'ai';
+import { getEnvSetting } from './api-key';
+import { estimateTokens } from './compaction';
+import { resolveEmbeddingModel } from './providers';
+
+// chunks are cut at paragraph boundaries, and long paragraphs at whitespace, below this length
+const MAX_CHUNK_LENGTH = 1_200;
+
+const DEFAULT_TOP_K = 8;
+const DEFAULT_TOKEN_BUDGET = 6_000;
+
+// BM25 term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// dampens the weight of top ranks when BM25 and embedding rankings are fused
+const RRF_K = 60;
+
+// chunks less similar to the message than this don't count as relevant to it
+const MIN_SIMILARITY = 0.3;
+
+const EMBEDDING_TIMEOUT_MS = 5_000;
+
+// chunks embedded per request, the best BM25 matches first; the rest are ranked with BM25 alone
+const MAX_EMBEDDED_CHUNKS = 256;
+const MAX_CACHED_EMBEDDINGS = 2_000;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by can could do does for from had has have how i if in into is it its me my no not ' +
+    'of on or our so than that the their them then there these they this to us was we were what when where which ' +
+    'who why will with would you your'
+  ).split(' '),
+);
+
+// in-memory per isolate, keyed by model and chunk text, so unchanged entries aren't embedded again
+const embeddings = new Map<string, number[]>();
+
+export interface KnowledgeEntry {
+  id?: string;
+  title: string;
+  content: string;
+}
+
+export interface KnowledgeChunk {
+  /** index of the entry in the knowledge base */
+  entry: number;
+  title: string;
+  text: string;
+}
+
+/** embeds texts, one vector per text, in the same order */
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+export interface RetrieveKnowledgeOptions {
+  entries: KnowledgeEntry[];
+
+  /** text the chunks are ranked against, usually the latest user message */
+  query: string;
+
+  /** mixes embedding similarity into the ranking; BM25 alone when unset or when it fails */
+  embed?: Embedder;
+  topK?: number;
+
+  /** estimated tokens the included chunks may use */
+  tokenBudget?: number;
+}
+
+export interface KnowledgeRetrieval {
+  prompt?: string;
+
+  /** ids of the entries the included chunks came from, most relevant first */
+  entryIds: string[];
+  chunkCount: number;
+}
+
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => !STOP_WORDS.has(term));
+}
+
+function splitLongText(text: string) {
+  const parts: string[] = [];
+  let rest = text;
+
+  while (rest.length > MAX_CHUNK_LENGTH) {
+    const cut = rest.lastIndexOf(' ', MAX_CHUNK_LENGTH);
+    const end = cut > MAX_CHUNK_LENGTH / 2 ? cut : MAX_CHUNK_LENGTH;
+
+    parts.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+
+  return rest ? [...parts, rest] : parts;
+}
+
+/**
+ * Splits entries into chunks of whole paragraphs, so a long entry only contributes the parts
+ * relevant to a message. Entries with a title only become a single chunk.
+ */
+export function chunkKnowledgeEntries(entries: KnowledgeEntry[]): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+
+  entries.forEach(({ title, content }, entry) => {
+    if (!content) {
+      chunks.push({ entry, title, text: '' });
+      return;
+    }
+
+    let current = '';
+
+    for (const paragraph of content.split(/\n\s*\n/).flatMap(splitLongText)) {
+      if (current && current.length + paragraph.length + 2 > MAX_CHUNK_LENGTH) {
+        chunks.push({ entry, title, text: current });
+        current = '';
+      }
+
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+
+    if (current) {
+      chunks.push({ entry, title, text: current });
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Scores each chunk against the query with Okapi BM25. The title is indexed with every chunk of
+ * its entry. Chunks sharing no terms with the query score 0.
+ */
+export function scoreChunks(query: string, chunks: KnowledgeChunk[]) {
+  const queryTerms = [...new Set(tokenize(query))];
+  const documents = chunks.map(({ title, text }) => tokenize(`${title}\n${text}`));
+  const averageLength = documents.reduce((total, terms) => total + terms.length, 0) / (documents.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return documents.map((terms) => {
+    const frequencies = new Map<string, number>();
+
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+
+    return queryTerms.reduce((score, term) => {
+      const frequency = frequencies.get(term) ?? 0;
+
+      if (frequency === 0) {
+        return score;
+      }
+
+      const containing = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * terms.length) / (averageLength || 1));
+
+      return score + (idf * frequency * (BM25_K1 + 1)) / (frequency + norm);
+    }, 0);
+  });
+}
+
+// orders the indexes of the positive scores from highest to lowest
+function rankPositive(scores: number[]) {
+  return scores
+    .map((score, index) => ({ score, index }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ index }) => index);
+}
+
+async function scoreSimilarity(query: string, chunks: KnowledgeChunk[], bm25Ranking: number[], embed: Embedder) {
+  const candidates = bm25Ranking.slice(0, MAX_EMBEDDED_CHUNKS);
+  const ranked = new Set(candidates);
+
+  // chunks without matching terms may still be similar in meaning
+  for (let index = 0; index < chunks.length && candidates.length < MAX_EMBEDDED_CHUNKS; index++) {
+    if (!ranked.has(index)) {
+      candidates.push(index);
+    }
+  }
+
+  const [queryVector, ...chunkVectors] = await embed([
+    query,
+    ...candidates.map((index) => `${chunks[index].title}\n${chunks[index].text}`),
+  ]);
+  const scores = new Array<number>(chunks.length).fill(0);
+
+  candidates.forEach((index, position) => {
+    const similarity = cosineSimilarity(queryVector, chunkVectors[position]);
+
+    scores[index] = similarity >= MIN_SIMILARITY ? similarity : 0;
+  });
+
+  return scores;
+}
+
+function buildKnowledgePrompt(chunks: KnowledgeChunk[]) {
+  const body = chunks
+    .map(({ title, text }, index) => {
+      const label = title ? `Excerpt ${index + 1}: ${title}` : `Excerpt ${index + 1}`;
+
+      return text ? `${label}\n${text}` : label;
+    })
+    .join('\n\n');
+
+  return `The user configured a private knowledge base. These excerpts were retrieved as the most relevant to their latest message. Treat them as authoritative context unless they conflict with platform safety rules. If the user request contradicts them, prioritize the knowledge base and state the discrepancy.\n\n${body}`;
+}
+
+/**
+ * Picks the knowledge base chunks relevant to `query`: ranked with BM25, fused with embedding
+ * similarity when an embedder is given, and cut to the top `topK` chunks within `tokenBudget`.
+ * Returns no prompt when nothing is relevant.
+ */
+export async function retrieveKnowledge({
+  entries,
+  query,
+  embed,
+  topK = DEFAULT_TOP_K,
+  tokenBudget = DEFAULT_TOKEN_BUDGET,
+}: RetrieveKnowledgeOptions): Promise<KnowledgeRetrieval> {
+  const chunks = chunkKnowledgeEntries(entries);
+
+  if (chunks.length === 0 || !query.trim()) {
+    return { entryIds: [], chunkCount: 0 };
+  }
+
+  const rankings = [rankPositive(scoreChunks(query, chunks))];
+
+  if (embed) {
+    try {
+      rankings.push(rankPositive(await scoreSimilarity(query, chunks, rankings[0], embed)));
+    } catch (error) {
+      console.warn('[knowledge] Embedding failed, ranking with BM25 only', error);
+    }
+  }
+
+  // reciprocal rank fusion; with a single ranking this keeps its order
+  const fused = new Map<number, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((index, rank) => fused.set(index, (fused.get(index) ?? 0) + 1 / (RRF_K + rank + 1)));
+  }
+
+  const ranked = [...fused.entries()].sort((a, b) => b[1] - a[1]).map(([index]) => chunks[index]);
+
+  const selected: KnowledgeChunk[] = [];
+  let tokens = 0;
+
+  for (const chunk of ranked) {
+    if (selected.length >= topK) {
+      break;
+    }
+
+    const chunkTokens = estimateTokens(`${chunk.title}\n${chunk.text}`);
+
+    // a lower ranked chunk may still fit
+    if (tokens + chunkTokens > tokenBudget) {
+      continue;
+    }
+
+    selected.push(chunk);
+    tokens += chunkTokens;
+  }
+
+  if (selected.length === 0) {
+    return { entryIds: [], chunkCount: 0 };
+  }
+
+  const entryIds = selected.map(({ entry }) => entries[entry].id).filter((id): id is string => Boolean(id));
+
+  return { prompt: buildKnowledgePrompt(selected), entryIds: [...new Set(entryIds)], chunkCount: selected.length };
+}
+
+/**
+ * Embeds with the `KNOWLEDGE_EMBEDDING_MODEL` model. Returns `undefined` when it isn't set or its
+ * provider doesn't serve embeddings.
+ */
+export function createKnowledgeEmbedder(env?: Env): Embedder | undefined {
+  const selector = getEnvSetting(env, 'KNOWLEDGE_EMBEDDING_MODEL');
+  const model = selector ? resolveEmbeddingModel(env, selector) : undefined;
+
+  if (!selector || !model) {
+    return undefined;
+  }
+
+  const getKey = (text: string) => `${selector}\0${text}`;
+
+  return async (texts) => {
+    const missing = [...new Set(texts.filter((text) => !embeddings.has(getKey(text))))];
+
+    if (missing.length > 0) {
+      const result = await embedMany({
+        model,
+        values: missing,
+        maxRetries: 0,
+        abortSignal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+      });
+
+      missing.forEach((text, index) => embeddings.set(getKey(text), result.embeddings[index]));
+    }
+
+    const vectors = texts.map((text) => embeddings.get(getKey(text))!);
+
+    // drop the oldest vectors
+    for (const key of embeddings.keys()) {
+      if (embeddings.size <= MAX_CACHED_EMBEDDINGS) {
+        break;
+      }
+
+      embeddings.delete(key);
+    }
+
+    return vectors;
+  };
+}
@@ -0,0 +1,171 @@
+import type { ModelCapabilities, ModelCatalog, ModelInfo } from '~/types/model';
+import { getProviderLabel, loadModelCandidates, type ResolvedModel } from './providers';
+
+const perMillion = (usd: number) => usd / 1_000_000;
+
+/**
+ * Capabilities of the models we ship defaults for, keyed by model id without the provider prefix.
+ * Models that aren't listed (e.g. ones discovered on a self-hosted server) report no capabilities.
+ *
+ * `artifactHeuristics: false` marks models that follow the artifact format reliably, so the stream
+ * normaliser doesn't guess artifacts from their prose.
+ */
+const KNOWN_MODELS: Record<string, { label: string; capabilities: ModelCapabilities; artifactHeuristics?: boolean }> = {
+  'claude-3-5-sonnet-20240620': {
+    label: 'Claude 3.5 Sonnet',
+    artifactHeuristics: false,
+    capabilities: {
+      contextWindow: 200_000,
+      vision: true,
+      toolCalling: true,
+      reasoning: false,
+      inputCostPerToken: perMillion(3),
+      outputCostPerToken: perMillion(15),
+    },
+  },
+  'gpt-4o-mini': {
+    label: 'GPT-4o mini',
+    artifactHeuristics: false,
+    capabilities: {
+      contextWindow: 128_000,
+      vision: true,
+      toolCalling: true,
+      reasoning: false,
+      inputCostPerToken: perMillion(0.15),
+      outputCostPerToken: perMillion(0.6),
+    },
+  },
+  'openai/gpt-4o-mini': {
+    label: 'GPT-4o mini',
+    artifactHeuristics: false,
+    capabilities: {
+      contextWindow: 128_000,
+      vision: true,
+      toolCalling: true,
+      reasoning: false,
+      inputCostPerToken: perMillion(0.15),
+      outputCostPerToken: perMillion(0.6),
+    },
+  },
+  'openai/gpt-oss-20b:free': {
+    label: 'GPT-OSS 20B',
+    capabilities: {
+      contextWindow: 131_072,
+      vision: false,
+      toolCalling: true,
+      reasoning: true,
+    },
+  },
+  'microsoft/wizardlm-2-8x22b': {
+    label: 'WizardLM-2 8x22B',
+    capabilities: {
+      contextWindow: 65_536,
+      vision: false,
+      toolCalling: false,
+      reasoning: false,
+      inputCostPerToken: perMillion(0.48),
+      outputCostPerToken: perMillion(0.48),
+    },
+  },
+  'meta-llama/llama-3.1-8b-instruct:free': {
+    label: 'Llama 3.1 8B Instruct',
+    capabilities: {
+      contextWindow: 131_072,
+      vision: false,
+      toolCalling: false,
+      reasoning: false,
+    },
+  },
+  'qwen/qwen2.5-vl-3b-instruct:free': {
+    label: 'Qwen2.5 VL 3B Instruct',
+    capabilities: {
+      contextWindow: 64_000,
+      vision: true,
+      toolCalling: false,
+      reasoning: false,
+    },
+  },
+  'alibaba/tongyi-deepresearch-30b-a3b:free': {
+    label: 'Tongyi DeepResearch 30B',
+    capabilities: {
+      contextWindow: 131_072,
+      vision: false,
+      toolCalling: true,
+      reasoning: true,
+    },
+  },
+};
+
+export function getModelCapabilities(modelId: string): ModelCapabilities {
+  const known = KNOWN_MODELS[modelId]?.capabilities ?? {};
+
+  // `:free` variants on OpenRouter are never billed
+  if (modelId.endsWith(':free')) {
+    return { ...known, inputCostPerToken: 0, outputCostPerToken: 0 };
+  }
+
+  return known;
+}
+
+/**
+ * Whether a model accepts image input, or `undefined` for models we have no metadata for.
+ */
+export function supportsVision(modelId: string) {
+  return getModelCapabilities(modelId).vision;
+}
+
+/**
+ * Whether a model can call tools, or `undefined` for models we have no metadata for.
+ */
+export function supportsToolCalling(modelId: string) {
+  return getModelCapabilities(modelId).toolCalling;
+}
+
+/**
+ * Whether a model can reason before it answers, or `undefined` for models we have no metadata for.
+ */
+export function supportsReasoning(modelId: string) {
+  return getModelCapabilities(modelId).reasoning;
+}
+
+/**
+ * Whether the stream normaliser may synthesise artifacts from the model's prose; on for models we
+ * have no metadata for.
+ */
+export function usesArtifactHeuristics(modelId: string) {
+  return KNOWN_MODELS[modelId]?.artifactHeuristics ?? true;
+}
+
+/**
+ * Estimated USD cost of a request, or `undefined` when the model's pricing is unknown.
+ */
+export function estimateCost(modelId: string, usage: { inputTokens: number; outputTokens: number }) {
+  const { inputCostPerToken, outputCostPerToken } = getModelCapabilities(modelId);
+
+  if (inputCostPerToken === undefined || outputCostPerToken === undefined) {
+    return undefined;
+  }
+
+  return usage.inputTokens * inputCostPerToken + usage.outputTokens * outputCostPerToken;
+}
+
+export function describeModel({ provider, modelId }: Pick<ResolvedModel, 'provider' | 'modelId'>): ModelInfo {
+  return {
+    id: `${provider}:${modelId}`,
+    provider,
+    providerLabel: getProviderLabel(provider),
+    modelId,
+    label: KNOWN_MODELS[modelId]?.label ?? modelId,
+    ...getModelCapabilities(modelId),
+  };
+}
+
+/**
+ * Lists every model the configured providers can serve, in the order they are tried when a
+ * request doesn't name a model.
+ */
+export async function getModelCatalog(env?: Env): Promise<ModelCatalog> {
+  const models = (await loadModelCandidates(env)).map(describeModel);
+
+  return { defaultModel: models[0]?.id, models };
+}
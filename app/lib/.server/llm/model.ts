@@ -1,35 +1,103 @@
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createOpenAI } from '@ai-sdk/openai';
-import type { LanguageModel } from 'ai';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import type { EmbeddingModel, LanguageModel } from 'ai';
 
-export function getAnthropicModel(apiKey: string): LanguageModel {
+export function getAnthropicModel(apiKey: string, modelId = 'claude-3-5-sonnet-20240620'): LanguageModel {
   const anthropic = createAnthropic({
     apiKey,
   });
 
-  return anthropic('claude-3-5-sonnet-20240620') as unknown as LanguageModel;
+  return anthropic(modelId);
 }
 
-export function getOpenRouterModel(apiKey: string, modelId?: string): LanguageModel {
-  // Use OpenAI provider pointed at OpenRouter's OpenAI-compatible endpoint
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+export interface OpenRouterOptions {
+  baseURL?: string;
+
+  /** sent as `HTTP-Referer`; OpenRouter uses it to attribute requests to an app */
+  siteUrl?: string;
+  appName?: string;
+}
+
+export function getOpenRouterModel(apiKey: string, modelId?: string, options: OpenRouterOptions = {}): LanguageModel {
+  const headers: Record<string, string> = {};
+
+  if (options.siteUrl) {
+    headers['HTTP-Referer'] = options.siteUrl;
+  }
+
+  if (options.appName) {
+    headers['X-Title'] = options.appName;
+  }
+
+  // the OpenRouter provider also streams reasoning tokens, which arrive in a non-standard field
+  const openrouter = createOpenRouter({
+    apiKey,
+    baseURL: options.baseURL || OPENROUTER_BASE_URL,
+    headers,
+    compatibility: 'strict',
+  });
+
+  // use specified model if provided; otherwise fall back to OpenRouter's auto model
+  return openrouter.chat(modelId || 'openrouter/auto');
+}
+
+export function getOpenAIModel(apiKey: string, modelId = 'gpt-4o-mini', baseURL?: string): LanguageModel {
+  const openai = createOpenAI({
+    apiKey,
+    baseURL,
+  });
+
+  /**
+   * Custom base URLs usually point at OpenAI-compatible servers that only implement
+   * `/chat/completions`, not the newer responses API.
+   */
+  return baseURL ? openai.chat(modelId) : openai(modelId);
+}
+
+/**
+ * Self-hosted servers (Ollama, LM Studio, llama.cpp, vLLM) expose the OpenAI chat completions API
+ * under `/v1`. Most of them don't check the API key, so an empty one is allowed.
+ */
+export function getOpenAICompatibleModel(baseURL: string, modelId: string, apiKey = ''): LanguageModel {
   const openaiCompat = createOpenAI({
     apiKey,
-    baseURL: 'https://openrouter.ai/api/v1',
-    headers: {
-      'HTTP-Referer': 'https://bolt.new',
-      'X-Title': 'Bolt AI',
-    },
+    baseURL,
   });
 
-  // Use specified model if provided; otherwise fall back to OpenRouter's auto model
-  return openaiCompat.chat(modelId || 'openrouter/auto') as unknown as LanguageModel;
+  return openaiCompat.chat(modelId);
 }
 
-export function getOpenAIModel(apiKey: string): LanguageModel {
+/**
+ * Embedding models of OpenAI and of OpenAI-compatible servers, which serve them under `/embeddings`.
+ */
+export function getOpenAIEmbeddingModel(apiKey: string, modelId: string, baseURL?: string): EmbeddingModel<string> {
   const openai = createOpenAI({
     apiKey,
+    baseURL,
   });
 
-  // choose a cost-effective capable default
-  return openai('gpt-4o-mini') as unknown as LanguageModel;
+  return openai.textEmbeddingModel(modelId);
+}
+
+/**
+ * Lists the models served by an OpenAI-compatible endpoint via `GET <baseURL>/models`.
+ */
+export async function fetchOpenAICompatibleModels(baseURL: string, apiKey = '', signal?: AbortSignal) {
+  const response = await fetch(`${baseURL.replace(/\/+$/, '')}/models`, {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to list models from ${baseURL}: ${response.status} ${response.statusText}`);
+  }
+
+  const body = await response.json<{ data?: Array<{ id?: unknown }> }>();
+
+  return (body.data ?? [])
+    .map((model) => model.id)
+    .filter((id): id is string => typeof id === 'string' && id.length > 0);
 }
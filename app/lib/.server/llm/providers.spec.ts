@@ -0,0 +1,185 @@
+import { generateText } from 'ai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { discoverModels, getDefaultProvider, getModelCandidates, loadModelCandidates, resolveModel } from './providers';
+
+const ENV_SETTINGS = [
+  'ANTHROPIC_API_KEY',
+  'OPENAI_API_KEY',
+  'OPENROUTER_API_KEY',
+  'OPENAI_COMPAT_BASE_URL',
+  'OPENAI_COMPAT_MODEL',
+  'LLM_PROVIDER',
+  'LLM_MODEL',
+];
+
+// each test discovers from its own endpoint, since discovered models are cached per endpoint
+let endpointCount = 0;
+
+function createEnv(settings: Partial<Record<keyof Env, string>>) {
+  return settings as unknown as Env;
+}
+
+function selectorsOf(env: Env, requested?: string, discovered = {}) {
+  return getModelCandidates(env, requested, discovered).map(({ provider, modelId }) => `${provider}:${modelId}`);
+}
+
+function modelsResponse(ids: string[]) {
+  return new Response(JSON.stringify({ object: 'list', data: ids.map((id) => ({ id, object: 'model' })) }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+beforeEach(() => {
+  // settings from the shell take precedence over the Cloudflare env, see `getEnvSetting`
+  for (const name of ENV_SETTINGS) {
+    vi.stubEnv(name, '');
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('getModelCandidates', () => {
+  it('should prefer the requested model, then the configured ones, then the defaults', () => {
+    const env = createEnv({ OPENAI_API_KEY: 'sk-openai', ANTHROPIC_API_KEY: 'sk-ant', LLM_MODEL: 'gpt-4.1' });
+
+    expect(selectorsOf(env, 'anthropic:claude-sonnet-4-5')).toEqual([
+      'anthropic:claude-sonnet-4-5',
+      'openai:gpt-4.1',
+      'openai:gpt-4o-mini',
+      'anthropic:claude-3-5-sonnet-20240620',
+    ]);
+  });
+
+  it('should start with LLM_PROVIDER when it is configured', () => {
+    const env = createEnv({ OPENAI_API_KEY: 'sk-openai', ANTHROPIC_API_KEY: 'sk-ant', LLM_PROVIDER: 'anthropic' });
+
+    expect(getDefaultProvider(env)).toBe('anthropic');
+    expect(selectorsOf(env)).toEqual(['anthropic:claude-3-5-sonnet-20240620', 'openai:gpt-4o-mini']);
+  });
+
+  it('should ignore LLM_PROVIDER when that provider has no API key', () => {
+    expect(getDefaultProvider(createEnv({ OPENAI_API_KEY: 'sk-openai', LLM_PROVIDER: 'anthropic' }))).toBe('openai');
+  });
+
+  it('should prefer a self-hosted endpoint over hosted providers', () => {
+    const env = createEnv({ OPENAI_API_KEY: 'sk-openai', OPENAI_COMPAT_BASE_URL: 'http://localhost:11434/v1' });
+
+    expect(getDefaultProvider(env)).toBe('openai-compatible');
+    expect(selectorsOf(env, undefined, { 'openai-compatible': ['llama3.1'] })).toEqual([
+      'openai-compatible:llama3.1',
+      'openai:gpt-4o-mini',
+    ]);
+  });
+
+  it('should skip selectors of providers without an API key and duplicates', () => {
+    const env = createEnv({ OPENAI_API_KEY: 'sk-openai', LLM_MODEL: 'anthropic:claude-sonnet-4-5, gpt-4o-mini' });
+
+    expect(selectorsOf(env, 'openai:gpt-4o-mini')).toEqual(['openai:gpt-4o-mini']);
+  });
+
+  it('should return no candidates without a configured provider', () => {
+    expect(getModelCandidates(createEnv({}), 'openai:gpt-4o-mini')).toEqual([]);
+  });
+});
+
+describe('discoverModels', () => {
+  function createCompatEnv(settings: Partial<Record<keyof Env, string>> = {}) {
+    return createEnv({ OPENAI_COMPAT_BASE_URL: `http://localhost:${11434 + endpointCount++}/v1/`, ...settings });
+  }
+
+  it('should list the models of an OpenAI-compatible endpoint and cache them for a minute', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    const fetch = vi.fn(async () => modelsResponse(['llama3.1', 'qwen2.5-coder']));
+    const env = createCompatEnv({ OPENAI_COMPAT_API_KEY: 'secret' });
+
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await discoverModels(env)).toEqual({ 'openai-compatible': ['llama3.1', 'qwen2.5-coder'] });
+    expect(await discoverModels(env)).toEqual({ 'openai-compatible': ['llama3.1', 'qwen2.5-coder'] });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(
+      `${env.OPENAI_COMPAT_BASE_URL!.replace(/\/$/, '')}/models`,
+      expect.objectContaining({ headers: { Authorization: 'Bearer secret' }, signal: expect.any(AbortSignal) }),
+    );
+
+    vi.advanceTimersByTime(60_001);
+    fetch.mockResolvedValueOnce(modelsResponse(['llama3.2']));
+
+    expect(await discoverModels(env)).toEqual({ 'openai-compatible': ['llama3.2'] });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not discover models when they are configured', async () => {
+    const fetch = vi.fn(async () => modelsResponse(['llama3.1']));
+
+    vi.stubGlobal('fetch', fetch);
+
+    const env = createCompatEnv({ OPENAI_COMPAT_MODEL: 'mistral' });
+
+    expect(await discoverModels(env)).toEqual({});
+    expect(fetch).not.toHaveBeenCalled();
+    expect((await loadModelCandidates(env)).map(({ modelId }) => modelId)).toEqual(['mistral']);
+  });
+
+  it('should fall back to the other providers when discovery fails, and retry next time', async () => {
+    const fetch = vi.fn(async () => new Response('Bad Gateway', { status: 502, statusText: 'Bad Gateway' }));
+
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const env = createCompatEnv({ OPENAI_API_KEY: 'sk-openai' });
+    const candidates = await loadModelCandidates(env);
+
+    expect(candidates.map(({ provider, modelId }) => `${provider}:${modelId}`)).toEqual(['openai:gpt-4o-mini']);
+
+    fetch.mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    expect(await discoverModels(env)).toEqual({ 'openai-compatible': [] });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('OpenRouter', () => {
+  it('should attribute requests to the configured site and app', async () => {
+    const fetch = vi.fn(
+      async (_url: string, _init?: RequestInit) =>
+        new Response(
+          JSON.stringify({
+            id: 'gen-1',
+            model: 'openai/gpt-oss-20b:free',
+            choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+          }),
+          { headers: { 'Content-Type': 'application/json' } },
+        ),
+    );
+
+    vi.stubGlobal('fetch', fetch);
+
+    const env = createEnv({
+      OPENROUTER_API_KEY: 'sk-or',
+      OPENROUTER_BASE_URL: 'https://gateway.example.com/api/v1',
+      OPENROUTER_SITE_URL: 'https://gleio.example.com',
+      OPENROUTER_APP_NAME: 'Gleio',
+    });
+    const resolved = resolveModel(env, 'openrouter:openai/gpt-oss-20b:free');
+
+    expect(resolved).toMatchObject({ provider: 'openrouter', modelId: 'openai/gpt-oss-20b:free' });
+
+    const { text } = await generateText({ model: resolved!.model, prompt: 'Hello' });
+    const [url, init] = fetch.mock.calls[0];
+    const headers = new Headers(init?.headers);
+
+    expect(text).toBe('Hi');
+    expect(url).toBe('https://gateway.example.com/api/v1/chat/completions');
+    expect(headers.get('Authorization')).toBe('Bearer sk-or');
+    expect(headers.get('HTTP-Referer')).toBe('https://gleio.example.com');
+    expect(headers.get('X-Title')).toBe('Gleio');
+  });
+});
@@ -0,0 +1,360 @@
+import type { EmbeddingModel, JSONValue, LanguageModel } from 'ai';
+import { getAPIKey, getEnvSetting, getOpenAIAPIKey, getOpenRouterAPIKey } from './api-key';
+import {
+  fetchOpenAICompatibleModels,
+  getAnthropicModel,
+  getOpenAICompatibleModel,
+  getOpenAIEmbeddingModel,
+  getOpenAIModel,
+  getOpenRouterModel,
+} from './model';
+
+export type ProviderId = 'anthropic' | 'openai' | 'openrouter' | 'openai-compatible';
+
+interface ProviderConfig {
+  apiKey: string;
+  baseURL?: string;
+  siteUrl?: string;
+  appName?: string;
+}
+
+interface ProviderDefinition {
+  id: ProviderId;
+  label: string;
+
+  /** models tried, in order, when neither the request nor the environment names one */
+  defaultModels: string[];
+  getConfig: (env?: Env) => ProviderConfig | undefined;
+  createModel: (config: ProviderConfig, modelId: string) => LanguageModel;
+
+  /** comma-separated models for this provider, e.g. `OPENROUTER_MODEL` */
+  modelSetting?: keyof Env;
+
+  /** lists the models the provider serves; used when `modelSetting` is not set */
+  listModels?: (config: ProviderConfig) => Promise<string[]>;
+
+  /** provider options that ask a model to reason before answering; unset when reasoning can't be streamed */
+  reasoningOptions?: Record<string, Record<string, JSONValue>>;
+
+  /** unset when the provider doesn't serve embedding models */
+  createEmbeddingModel?: (config: ProviderConfig, modelId: string) => EmbeddingModel<string>;
+}
+
+export interface ResolvedModel {
+  provider: ProviderId;
+  modelId: string;
+  model: LanguageModel;
+}
+
+// tokens an Anthropic model may spend thinking, on top of the output token limit
+const ANTHROPIC_THINKING_BUDGET = 8_000;
+
+const MODEL_DISCOVERY_TIMEOUT_MS = 5_000;
+const MODEL_DISCOVERY_TTL_MS = 60_000;
+
+const discoveredModelsCache = new Map<string, { models: string[]; expiresAt: number }>();
+
+const PROVIDERS: Record<ProviderId, ProviderDefinition> = {
+  'openai-compatible': {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    defaultModels: [],
+    modelSetting: 'OPENAI_COMPAT_MODEL',
+    getConfig: (env) => {
+      const baseURL = getEnvSetting(env, 'OPENAI_COMPAT_BASE_URL');
+      return baseURL ? { apiKey: getEnvSetting(env, 'OPENAI_COMPAT_API_KEY') ?? '', baseURL } : undefined;
+    },
+    createModel: ({ apiKey, baseURL }, modelId) => getOpenAICompatibleModel(baseURL!, modelId, apiKey),
+    createEmbeddingModel: ({ apiKey, baseURL }, modelId) => getOpenAIEmbeddingModel(apiKey, modelId, baseURL),
+    listModels: ({ apiKey, baseURL }) =>
+      fetchOpenAICompatibleModels(baseURL!, apiKey, AbortSignal.timeout(MODEL_DISCOVERY_TIMEOUT_MS)),
+  },
+  openrouter: {
+    id: 'openrouter',
+    label: 'OpenRouter',
+    defaultModels: [
+      'openai/gpt-oss-20b:free',
+      'microsoft/wizardlm-2-8x22b',
+      'meta-llama/llama-3.1-8b-instruct:free',
+      'qwen/qwen2.5-vl-3b-instruct:free',
+    ],
+    modelSetting: 'OPENROUTER_MODEL',
+    getConfig: (env) => {
+      const apiKey = getOpenRouterAPIKey(env);
+
+      if (!apiKey) {
+        return undefined;
+      }
+
+      return {
+        apiKey,
+        baseURL: getEnvSetting(env, 'OPENROUTER_BASE_URL'),
+        siteUrl: getEnvSetting(env, 'OPENROUTER_SITE_URL'),
+        appName: getEnvSetting(env, 'OPENROUTER_APP_NAME'),
+      };
+    },
+    createModel: ({ apiKey, ...options }, modelId) => getOpenRouterModel(apiKey, modelId, options),
+    reasoningOptions: { openrouter: { reasoning: { effort: 'high' } } },
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModels: ['gpt-4o-mini'],
+    getConfig: (env) => {
+      const apiKey = getOpenAIAPIKey(env);
+      return apiKey ? { apiKey, baseURL: getEnvSetting(env, 'OPENAI_BASE_URL') } : undefined;
+    },
+    createModel: ({ apiKey, baseURL }, modelId) => getOpenAIModel(apiKey, modelId, baseURL),
+    createEmbeddingModel: ({ apiKey, baseURL }, modelId) => getOpenAIEmbeddingModel(apiKey, modelId, baseURL),
+
+    // reasoning models only stream a summary of their reasoning
+    reasoningOptions: { openai: { reasoningEffort: 'high', reasoningSummary: 'auto' } },
+  },
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic',
+    defaultModels: ['claude-3-5-sonnet-20240620'],
+    getConfig: (env) => {
+      const apiKey = getAPIKey(env);
+      return apiKey ? { apiKey } : undefined;
+    },
+    createModel: ({ apiKey }, modelId) => getAnthropicModel(apiKey, modelId),
+    reasoningOptions: { anthropic: { thinking: { type: 'enabled', budgetTokens: ANTHROPIC_THINKING_BUDGET } } },
+  },
+};
+
+/**
+ * Order in which providers are preferred when `LLM_PROVIDER` is not set. A self-hosted endpoint
+ * is only configured on purpose, so it wins over hosted providers.
+ */
+const PROVIDER_PRIORITY: ProviderId[] = ['openai-compatible', 'openrouter', 'openai', 'anthropic'];
+
+export const NO_PROVIDER_ERROR =
+  'No LLM provider configured. Please set at least one: OPENROUTER_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY, or OPENAI_COMPAT_BASE_URL.';
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && value in PROVIDERS;
+}
+
+export function getProviderLabel(providerId: ProviderId) {
+  return PROVIDERS[providerId].label;
+}
+
+/**
+ * Provider options that request reasoning from the provider's models, or `undefined` when the
+ * provider's reasoning can't be requested or streamed.
+ */
+export function getReasoningOptions(providerId: ProviderId) {
+  return PROVIDERS[providerId].reasoningOptions;
+}
+
+export function getConfiguredProviders(env?: Env): ProviderId[] {
+  return PROVIDER_PRIORITY.filter((providerId) => PROVIDERS[providerId].getConfig(env) !== undefined);
+}
+
+export function hasConfiguredProvider(env?: Env) {
+  return getConfiguredProviders(env).length > 0;
+}
+
+/**
+ * The provider used for model ids that don't name one: `LLM_PROVIDER` when it is configured,
+ * otherwise the first configured provider in priority order.
+ */
+export function getDefaultProvider(env?: Env): ProviderId | undefined {
+  const configured = getConfiguredProviders(env);
+  const preferred = getEnvSetting(env, 'LLM_PROVIDER');
+
+  if (isProviderId(preferred) && configured.includes(preferred)) {
+    return preferred;
+  }
+
+  return configured[0];
+}
+
+/**
+ * Splits a model selector into provider and model id. Selectors may be prefixed with a provider
+ * (`anthropic:claude-3-5-sonnet-20240620`); anything else is a bare model id. OpenRouter ids can
+ * contain colons themselves (`meta-llama/llama-3.1-8b-instruct:free`), so only a known provider
+ * name counts as a prefix.
+ */
+export function parseModelSelector(selector: string): { provider?: ProviderId; modelId: string } {
+  const separatorIndex = selector.indexOf(':');
+
+  if (separatorIndex > 0) {
+    const prefix = selector.slice(0, separatorIndex);
+
+    if (isProviderId(prefix)) {
+      return { provider: prefix, modelId: selector.slice(separatorIndex + 1).trim() };
+    }
+  }
+
+  return { modelId: selector.trim() };
+}
+
+export function parseModelList(value?: string) {
+  if (!value) {
+    return [] as string[];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function getProviderModelSelectors(env: Env | undefined, providerId: ProviderId) {
+  const { modelSetting } = PROVIDERS[providerId];
+
+  if (!modelSetting) {
+    return [];
+  }
+
+  return parseModelList(getEnvSetting(env, modelSetting)).map((selector) =>
+    parseModelSelector(selector).provider ? selector : `${providerId}:${selector}`,
+  );
+}
+
+/**
+ * Model selectors configured through the environment. `LLM_MODEL` applies to the default provider;
+ * provider specific settings such as `OPENAI_COMPAT_MODEL` or `OPENROUTER_MODEL` follow.
+ */
+function getEnvModelSelectors(env?: Env) {
+  return [
+    ...parseModelList(getEnvSetting(env, 'LLM_MODEL')),
+    ...PROVIDER_PRIORITY.flatMap((providerId) => getProviderModelSelectors(env, providerId)),
+  ];
+}
+
+/**
+ * Asks every configured provider that supports discovery which models it serves. Results are
+ * cached per endpoint for a minute; an unreachable endpoint yields an empty list.
+ */
+export async function discoverModels(env?: Env): Promise<Partial<Record<ProviderId, string[]>>> {
+  const discovered: Partial<Record<ProviderId, string[]>> = {};
+
+  await Promise.all(
+    getConfiguredProviders(env).map(async (providerId) => {
+      const definition = PROVIDERS[providerId];
+      const config = definition.getConfig(env);
+
+      if (!definition.listModels || !config || getProviderModelSelectors(env, providerId).length > 0) {
+        return;
+      }
+
+      const cacheKey = `${providerId}:${config.baseURL ?? ''}`;
+      const cached = discoveredModelsCache.get(cacheKey);
+
+      if (cached && cached.expiresAt > Date.now()) {
+        discovered[providerId] = cached.models;
+        return;
+      }
+
+      try {
+        const models = await definition.listModels(config);
+
+        discoveredModelsCache.set(cacheKey, { models, expiresAt: Date.now() + MODEL_DISCOVERY_TTL_MS });
+        discovered[providerId] = models;
+      } catch (error) {
+        console.warn(`[llm] Failed to discover ${definition.label} models`, error);
+        discovered[providerId] = [];
+      }
+    }),
+  );
+
+  return discovered;
+}
+
+export function resolveModel(env: Env | undefined, selector: string): ResolvedModel | undefined {
+  const { provider: explicitProvider, modelId } = parseModelSelector(selector);
+  const provider = explicitProvider ?? getDefaultProvider(env);
+
+  if (!provider || !modelId) {
+    return undefined;
+  }
+
+  const definition = PROVIDERS[provider];
+  const config = definition.getConfig(env);
+
+  if (!config) {
+    return undefined;
+  }
+
+  return { provider, modelId, model: definition.createModel(config, modelId) };
+}
+
+/**
+ * Resolves a selector such as `openai:text-embedding-3-small` to an embedding model. Returns
+ * `undefined` when the provider isn't configured or doesn't serve embeddings.
+ */
+export function resolveEmbeddingModel(env: Env | undefined, selector: string) {
+  const { provider: explicitProvider, modelId } = parseModelSelector(selector);
+  const provider = explicitProvider ?? getDefaultProvider(env);
+
+  if (!provider || !modelId) {
+    return undefined;
+  }
+
+  const definition = PROVIDERS[provider];
+  const config = definition.getConfig(env);
+
+  if (!config || !definition.createEmbeddingModel) {
+    return undefined;
+  }
+
+  return definition.createEmbeddingModel(config, modelId);
+}
+
+/**
+ * Returns the models to try for a request, most preferred first: the requested selectors, the
+ * models configured through the environment, then the defaults of the default provider followed
+ * by the defaults of every other configured provider. Discovered models replace a provider's
+ * defaults. Selectors for providers without an API key are skipped.
+ */
+export function getModelCandidates(
+  env?: Env,
+  requested?: string | string[],
+  discovered: Partial<Record<ProviderId, string[]>> = {},
+): ResolvedModel[] {
+  const defaultProvider = getDefaultProvider(env);
+
+  if (!defaultProvider) {
+    return [];
+  }
+
+  const requestedSelectors = (Array.isArray(requested) ? requested : [requested]).filter(
+    (selector): selector is string => typeof selector === 'string' && selector.trim().length > 0,
+  );
+
+  const providerOrder = [defaultProvider, ...getConfiguredProviders(env).filter((id) => id !== defaultProvider)];
+  const defaultSelectors = providerOrder.flatMap((providerId) =>
+    (discovered[providerId] ?? PROVIDERS[providerId].defaultModels).map((modelId) => `${providerId}:${modelId}`),
+  );
+
+  const candidates: ResolvedModel[] = [];
+  const seen = new Set<string>();
+
+  for (const selector of [...requestedSelectors, ...getEnvModelSelectors(env), ...defaultSelectors]) {
+    const resolved = resolveModel(env, selector);
+
+    if (!resolved) {
+      continue;
+    }
+
+    const key = `${resolved.provider}:${resolved.modelId}`;
+
+    if (!seen.has(key)) {
+      seen.add(key);
+      candidates.push(resolved);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Same as `getModelCandidates`, but first discovers the models of providers that don't ship with
+ * defaults, such as a self-hosted OpenAI-compatible server.
+ */
+export async function loadModelCandidates(env?: Env, requested?: string | string[]) {
+  return getModelCandidates(env, requested, await discoverModels(env));
+}
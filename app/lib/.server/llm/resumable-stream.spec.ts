@@ -0,0 +1,184 @@
+import type { UIMessageChunk } from 'ai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  bufferGeneration,
+  cancelGeneration,
+  getGenerationStore,
+  getReopeningChunks,
+  replayGeneration,
+} from './resumable-stream';
+
+const CHUNKS: UIMessageChunk[] = [
+  { type: 'start', messageId: 'message_1' },
+  { type: 'text-start', id: '1' },
+  { type: 'text-delta', id: '1', delta: '<boltArtifact id="a" title="A">' },
+  { type: 'tool-input-start', toolCallId: 'call_1', toolName: 'write_file' },
+  { type: 'tool-input-delta', toolCallId: 'call_1', inputTextDelta: '{"path":' },
+  { type: 'text-delta', id: '1', delta: '</boltArtifact>' },
+  { type: 'tool-input-delta', toolCallId: 'call_1', inputTextDelta: '"index.js"}' },
+  { type: 'text-end', id: '1' },
+  { type: 'finish' },
+];
+
+describe('getReopeningChunks', () => {
+  it('should reopen the parts that are still streaming', () => {
+    expect(getReopeningChunks(CHUNKS.slice(0, 5))).toEqual([CHUNKS[0], CHUNKS[1], CHUNKS[3], CHUNKS[4]]);
+  });
+
+  it('should not reopen parts that have ended', () => {
+    expect(getReopeningChunks(CHUNKS)).toEqual([CHUNKS[0], CHUNKS[3], CHUNKS[4], CHUNKS[6]]);
+  });
+});
+
+describe('replayGeneration', () => {
+  const store = getGenerationStore({} as Env);
+
+  it('should start the live stream with the generation marker', async () => {
+    const live = await bufferChunks('generation_1');
+
+    expect(live[0]).toEqual({ type: 'data-generation', data: { id: 'generation_1', offset: 0 }, transient: true });
+    expect(live.slice(1)).toEqual(CHUNKS);
+  });
+
+  it('should replay a generation from the start', async () => {
+    await bufferChunks('generation_2');
+
+    const replayed = await readAll(await replayGeneration(store, 'generation_2', 'user_1', 0));
+
+    expect(replayed.slice(1)).toEqual(CHUNKS);
+  });
+
+  it('should reopen streaming parts before continuing from the offset', async () => {
+    await bufferChunks('generation_3');
+
+    const replayed = await readAll(await replayGeneration(store, 'generation_3', 'user_1', 5));
+
+    expect(replayed).toEqual([
+      ...getReopeningChunks(CHUNKS.slice(0, 5)),
+      { type: 'data-generation', data: { id: 'generation_3', offset: 5 }, transient: true },
+      ...CHUNKS.slice(5),
+    ]);
+  });
+
+  it("should not replay another user's generation", async () => {
+    await bufferChunks('generation_4');
+
+    expect(await replayGeneration(store, 'generation_4', 'user_2', 0)).toBeUndefined();
+    expect(await replayGeneration(store, 'unknown', 'user_1', 0)).toBeUndefined();
+  });
+
+  it('should cancel a running generation for its user only', async () => {
+    const cancel = vi.fn();
+
+    bufferGeneration(new ReadableStream<UIMessageChunk>(), {
+      store,
+      id: 'generation_5',
+      userId: 'user_1',
+      waitUntil: () => undefined,
+      cancel,
+    });
+
+    expect(await cancelGeneration(store, 'generation_5', 'user_2')).toBe(false);
+    expect(cancel).not.toHaveBeenCalled();
+
+    expect(await cancelGeneration(store, 'generation_5', 'user_1')).toBe(true);
+    expect(cancel).toHaveBeenCalledOnce();
+  });
+
+  async function bufferChunks(id: string) {
+    const buffered: Promise<unknown>[] = [];
+    const live = bufferGeneration(streamOf(CHUNKS), {
+      store,
+      id,
+      userId: 'user_1',
+      waitUntil: (promise) => buffered.push(promise),
+    });
+
+    const chunks = await readAll(live);
+
+    await Promise.all(buffered);
+
+    return chunks;
+  }
+});
+
+describe('KV store', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait out the write limit before marking the generation done', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+
+    const kv = createKV();
+    const store = getGenerationStore({ CHAT_STREAMS: kv as unknown as KVNamespace } as Env);
+    const buffered: Promise<unknown>[] = [];
+
+    await readAll(
+      bufferGeneration(streamOf(CHUNKS), {
+        store,
+        id: 'generation_1',
+        userId: 'user_1',
+        waitUntil: (promise) => buffered.push(promise),
+      }),
+    );
+
+    await vi.runAllTimersAsync();
+    await Promise.all(buffered);
+
+    expect(kv.rejected).toEqual([]);
+    expect(await store.readMeta('generation_1')).toEqual({ userId: 'user_1', batches: 1, done: true });
+    expect((await store.readBatches('generation_1', 0, 1)).flat()).toEqual(CHUNKS);
+  });
+
+  /** an in-memory KV namespace that rejects writes to a key within a second of the previous one */
+  function createKV() {
+    const values = new Map<string, { value: string; writtenAt: number }>();
+    const rejected: string[] = [];
+
+    return {
+      rejected,
+
+      async put(key: string, value: string) {
+        const previous = values.get(key);
+
+        if (previous && Date.now() - previous.writtenAt < 1000) {
+          rejected.push(key);
+          throw new Error('KV PUT failed: 429 Too Many Requests');
+        }
+
+        values.set(key, { value, writtenAt: Date.now() });
+      },
+
+      async get(key: string, type?: 'json') {
+        const value = values.get(key)?.value;
+
+        if (value === undefined) {
+          return null;
+        }
+
+        return type === 'json' ? JSON.parse(value) : value;
+      },
+    };
+  }
+});
+
+function streamOf(chunks: UIMessageChunk[]) {
+  return new ReadableStream<UIMessageChunk>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<UIMessageChunk> | undefined) {
+  const reader = stream!.getReader();
+  const output: UIMessageChunk[] = [];
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    output.push(result.value);
+  }
+
+  return output;
+}
@@ -0,0 +1,422 @@
+import type { UIMessageChunk } from 'ai';
+
+/** how long a generation can be resumed after it started */
+const GENERATION_TTL_SECONDS = 60 * 60;
+
+// workers KV accepts one write per second to the same key, and the meta key changes with every batch
+const KV_FLUSH_INTERVAL_MS = 1000;
+
+const REPLAY_POLL_INTERVAL_MS = 500;
+
+// a client that disconnects has this long to resume before the model request is cancelled
+const RESUME_GRACE_MS = 10_000;
+const CANCEL_POLL_INTERVAL_MS = 1000;
+
+/** transient data part that tells the client which generation it's receiving and the offset of the next chunk */
+export const GENERATION_DATA_TYPE = 'data-generation';
+
+export interface GenerationMeta {
+  userId: string;
+
+  /** number of chunk batches written so far */
+  batches: number;
+  done: boolean;
+}
+
+/** set by other requests than the one running the generation, which may be served by another isolate */
+export type GenerationFlag = 'resumed' | 'cancelled';
+
+/**
+ * Where the chunks of a generation are buffered. Chunks are written in batches so stores with
+ * write limits, like KV, aren't written for every delta.
+ */
+export interface GenerationStore {
+  /** how long chunks are collected before a batch is written */
+  flushInterval: number;
+
+  /** writes the next batch, if any, followed by the updated meta */
+  write(id: string, meta: GenerationMeta, batch: UIMessageChunk[]): Promise<void>;
+
+  readMeta(id: string): Promise<GenerationMeta | undefined>;
+  readBatches(id: string, from: number, to: number): Promise<UIMessageChunk[][]>;
+
+  setFlag(id: string, flag: GenerationFlag): Promise<void>;
+  hasFlag(id: string, flag: GenerationFlag): Promise<boolean>;
+}
+
+interface MemoryGeneration {
+  meta: GenerationMeta;
+  batches: UIMessageChunk[][];
+  flags: Set<GenerationFlag>;
+  expiresAt: number;
+}
+
+// in-memory fallback; only resumes requests that reach the same isolate
+const memoryGenerations = new Map<string, MemoryGeneration>();
+
+const memoryStore: GenerationStore = {
+  flushInterval: 0,
+
+  async write(id, meta, batch) {
+    const now = Date.now();
+
+    for (const [key, generation] of memoryGenerations) {
+      if (generation.expiresAt < now) {
+        memoryGenerations.delete(key);
+      }
+    }
+
+    const generation = memoryGenerations.get(id) ?? {
+      meta,
+      batches: [],
+      flags: new Set(),
+      expiresAt: now + GENERATION_TTL_SECONDS * 1000,
+    };
+
+    if (batch.length > 0) {
+      generation.batches.push(batch);
+    }
+
+    generation.meta = meta;
+    memoryGenerations.set(id, generation);
+  },
+
+  async readMeta(id) {
+    return memoryGenerations.get(id)?.meta;
+  },
+
+  async readBatches(id, from, to) {
+    return memoryGenerations.get(id)?.batches.slice(from, to) ?? [];
+  },
+
+  async setFlag(id, flag) {
+    memoryGenerations.get(id)?.flags.add(flag);
+  },
+
+  async hasFlag(id, flag) {
+    return memoryGenerations.get(id)?.flags.has(flag) ?? false;
+  },
+};
+
+function createKVStore(kv: KVNamespace): GenerationStore {
+  const metaKey = (id: string) => `generation:${id}`;
+  const batchKey = (id: string, index: number) => `generation:${id}:${index}`;
+  const flagKey = (id: string, flag: GenerationFlag) => `generation:${id}:${flag}`;
+
+  // when the meta of each generation was last written
+  const metaWrittenAt = new Map<string, number>();
+
+  return {
+    flushInterval: KV_FLUSH_INTERVAL_MS,
+
+    async write(id, meta, batch) {
+      const options = { expirationTtl: GENERATION_TTL_SECONDS };
+
+      // the batch is written first so the meta never points at a batch that doesn't exist yet
+      if (batch.length > 0) {
+        await kv.put(batchKey(id, meta.batches - 1), JSON.stringify(batch), options);
+      }
+
+      /**
+       * The final write follows the end of the stream rather than the flush timer, so it can come
+       * sooner after the previous one than KV allows and would be rejected, leaving the generation
+       * unfinished. Wait out the rest of the interval instead.
+       */
+      const wait = (metaWrittenAt.get(id) ?? 0) + KV_FLUSH_INTERVAL_MS - Date.now();
+
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+
+      await kv.put(metaKey(id), JSON.stringify(meta), options);
+
+      if (meta.done) {
+        metaWrittenAt.delete(id);
+      } else {
+        metaWrittenAt.set(id, Date.now());
+      }
+    },
+
+    async readMeta(id) {
+      return (await kv.get<GenerationMeta>(metaKey(id), 'json')) ?? undefined;
+    },
+
+    async readBatches(id, from, to) {
+      const keys = Array.from({ length: Math.max(0, to - from) }, (_, index) => batchKey(id, from + index));
+      const batches = await Promise.all(keys.map((key) => kv.get<UIMessageChunk[]>(key, 'json')));
+
+      return batches.map((batch) => batch ?? []);
+    },
+
+    async setFlag(id, flag) {
+      await kv.put(flagKey(id, flag), '1', { expirationTtl: GENERATION_TTL_SECONDS });
+    },
+
+    async hasFlag(id, flag) {
+      return (await kv.get(flagKey(id, flag))) !== null;
+    },
+  };
+}
+
+/**
+ * Uses the `CHAT_STREAMS` KV namespace when it's bound, so generations can be resumed from any
+ * isolate, and falls back to memory otherwise.
+ */
+export function getGenerationStore(env: Env): GenerationStore {
+  return env.CHAT_STREAMS ? createKVStore(env.CHAT_STREAMS) : memoryStore;
+}
+
+// cancels the generations running in this isolate
+const activeGenerations = new Map<string, () => void>();
+
+function generationMarker(id: string, offset: number): UIMessageChunk {
+  return { type: GENERATION_DATA_TYPE, data: { id, offset }, transient: true };
+}
+
+interface BufferGenerationOptions {
+  store: GenerationStore;
+  id: string;
+  userId: string;
+
+  /** keeps the worker alive until the generation has been buffered, also after the client disconnected */
+  waitUntil: (promise: Promise<unknown>) => void;
+
+  /** the request's signal, aborted when the client disconnects */
+  signal?: AbortSignal;
+
+  /** stops the model request; see `cancelGeneration` */
+  cancel?: () => void;
+}
+
+/**
+ * Buffers the chunks of a generation so it can be replayed with `replayGeneration`. Returns the
+ * stream to send to the client, which starts with a marker carrying the generation's id. When the
+ * client goes away the generation keeps running for `RESUME_GRACE_MS`, and until it's done once
+ * a client resumed it, unless it's cancelled.
+ */
+export function bufferGeneration(
+  stream: ReadableStream<UIMessageChunk>,
+  { store, id, userId, waitUntil, signal, cancel }: BufferGenerationOptions,
+) {
+  const [live, buffered] = stream.tee();
+  const meta: GenerationMeta = { userId, batches: 0, done: false };
+  let pending: UIMessageChunk[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // writes are chained so batches land in order
+  let writing = store.write(id, { ...meta }, []);
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    const batch = pending;
+
+    pending = [];
+
+    if (batch.length > 0) {
+      meta.batches++;
+    }
+
+    const snapshot = { ...meta };
+
+    writing = writing.then(() => store.write(id, snapshot, batch));
+  };
+
+  const persist = async () => {
+    const reader = buffered.getReader();
+
+    try {
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        pending.push(result.value);
+
+        if (store.flushInterval === 0) {
+          flush();
+        } else {
+          timer ??= setTimeout(flush, store.flushInterval);
+        }
+      }
+    } finally {
+      meta.done = true;
+      activeGenerations.delete(id);
+      flush();
+      await writing;
+    }
+  };
+
+  const watchDisconnected = async (cancelGeneration: () => void) => {
+    const abandonAt = Date.now() + RESUME_GRACE_MS;
+
+    while (!meta.done) {
+      await new Promise((resolve) => setTimeout(resolve, CANCEL_POLL_INTERVAL_MS));
+
+      if (meta.done) {
+        return;
+      }
+
+      if (await store.hasFlag(id, 'cancelled')) {
+        cancelGeneration();
+        return;
+      }
+
+      if (Date.now() >= abandonAt && !(await store.hasFlag(id, 'resumed'))) {
+        console.info(`[chat] Cancelling generation ${id}; the client disconnected and didn't resume it`);
+        cancelGeneration();
+
+        return;
+      }
+    }
+  };
+
+  if (cancel) {
+    activeGenerations.set(id, cancel);
+
+    signal?.addEventListener(
+      'abort',
+      () =>
+        waitUntil(
+          watchDisconnected(cancel).catch((error) => console.error(`[chat] Failed to watch generation ${id}:`, error)),
+        ),
+      { once: true },
+    );
+  }
+
+  waitUntil(persist().catch((error) => console.error(`[chat] Failed to buffer generation ${id}:`, error)));
+
+  return live.pipeThrough(
+    new TransformStream<UIMessageChunk, UIMessageChunk>({
+      start(controller) {
+        controller.enqueue(generationMarker(id, 0));
+      },
+    }),
+  );
+}
+
+/**
+ * The chunks that reopen the message's parts that are still streaming at the end of `chunks`, so a
+ * client that already received them can continue with the chunks after. Tool inputs are replayed
+ * in full since the client parses them from the accumulated deltas.
+ */
+export function getReopeningChunks(chunks: UIMessageChunk[]) {
+  const start = chunks.find((chunk) => chunk.type === 'start');
+  const open = new Map<string, UIMessageChunk[]>();
+
+  for (const chunk of chunks) {
+    switch (chunk.type) {
+      case 'text-start':
+      case 'reasoning-start': {
+        open.set(chunk.id, [chunk]);
+        break;
+      }
+      case 'text-end':
+      case 'reasoning-end': {
+        open.delete(chunk.id);
+        break;
+      }
+      case 'tool-input-start': {
+        open.set(chunk.toolCallId, [chunk]);
+        break;
+      }
+      case 'tool-input-delta': {
+        open.get(chunk.toolCallId)?.push(chunk);
+        break;
+      }
+      case 'tool-input-available':
+      case 'tool-input-error': {
+        open.delete(chunk.toolCallId);
+        break;
+      }
+    }
+  }
+
+  return [...(start ? [start] : []), ...[...open.values()].flat()];
+}
+
+/**
+ * Replays a buffered generation from `offset`, followed by its chunks as they're generated.
+ * Returns `undefined` when the generation doesn't exist, has expired or belongs to another user.
+ */
+export async function replayGeneration(store: GenerationStore, id: string, userId: string, offset: number) {
+  const meta = await store.readMeta(id);
+
+  if (!meta || meta.userId !== userId) {
+    return undefined;
+  }
+
+  if (!meta.done) {
+    await store.setFlag(id, 'resumed');
+  }
+
+  let batchesRead = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const readNewChunks = async () => {
+    const current = (await store.readMeta(id)) ?? { ...meta, done: true };
+    const batches = await store.readBatches(id, batchesRead, current.batches);
+
+    batchesRead = current.batches;
+
+    return { chunks: batches.flat(), done: current.done };
+  };
+
+  return new ReadableStream<UIMessageChunk>({
+    async start(controller) {
+      const { chunks, done } = await readNewChunks();
+      const skipped = Math.min(offset, chunks.length);
+
+      if (skipped > 0) {
+        getReopeningChunks(chunks.slice(0, skipped)).forEach((chunk) => controller.enqueue(chunk));
+      }
+
+      controller.enqueue(generationMarker(id, skipped));
+      chunks.slice(skipped).forEach((chunk) => controller.enqueue(chunk));
+
+      if (done) {
+        controller.close();
+        return;
+      }
+
+      const poll = async () => {
+        try {
+          const next = await readNewChunks();
+
+          next.chunks.forEach((chunk) => controller.enqueue(chunk));
+
+          if (next.done) {
+            controller.close();
+            return;
+          }
+
+          timer = setTimeout(poll, REPLAY_POLL_INTERVAL_MS);
+        } catch (error) {
+          controller.error(error);
+        }
+      };
+
+      timer = setTimeout(poll, REPLAY_POLL_INTERVAL_MS);
+    },
+    cancel() {
+      clearTimeout(timer);
+    },
+  });
+}
+
+/**
+ * Stops a generation the user cancelled. Generations running in another isolate notice the flag
+ * once their client has disconnected. Returns `false` when the generation doesn't exist or
+ * belongs to another user.
+ */
+export async function cancelGeneration(store: GenerationStore, id: string, userId: string) {
+  const meta = await store.readMeta(id);
+
+  if (!meta || meta.userId !== userId) {
+    return false;
+  }
+
+  if (!meta.done) {
+    await store.setFlag(id, 'cancelled');
+    activeGenerations.get(id)?.();
+  }
+
+  return true;
+}
@@ -0,0 +1,181 @@
+import type { TextStreamPart, ToolSet } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { createStreamNormalizer, getUnclosedTags, type StreamNormalizerOptions } from './stream-normalizer';
+
+type Part = TextStreamPart<ToolSet>;
+
+const PACKAGE_JSON =
+  '```json\n{\n  "name": "demo",\n  "scripts": { "dev": "vite" },\n  "dependencies": { "react": "^18.3.1" }\n}\n```';
+
+describe('getUnclosedTags', () => {
+  it.each<[string, string]>([
+    ['Foo bar', ''],
+    ['<boltArtifact id="a" title="A"></boltArtifact>', ''],
+    ['<boltArtifact id="a" title="A">', '\n</boltArtifact>'],
+    ['<boltArtifact id="a" title="A"><boltAction type="shell">npm i', '\n</boltAction>\n</boltArtifact>'],
+    ['<boltArtifact id="a" title="A"><boltAction type="shell">npm i</boltAction>', '\n</boltArtifact>'],
+    ['<boltArtifact id="a" ti', ''],
+  ])('should close open artifacts and actions (%#)', (text, expected) => {
+    expect(getUnclosedTags(text)).toBe(expected);
+  });
+});
+
+describe('createStreamNormalizer', () => {
+  it('should pass through text without artifacts', async () => {
+    const parts = await runNormalizer(textBlock(['Hello, ', 'world!']));
+
+    expect(parts).toEqual(textBlock(['Hello, ', 'world!']));
+  });
+
+  it('should close an artifact left open at the end of a text block', async () => {
+    const parts = await runNormalizer(
+      textBlock([
+        'Before <boltArtifact id="a" title="A">',
+        '<boltAction type="file" filePath="index.js">con',
+        'sole.log(1)',
+      ]),
+    );
+
+    expect(getText(parts)).toMatchSnapshot();
+    expect(parts.at(-1)).toEqual({ type: 'text-end', id: '1' });
+  });
+
+  it('should close an artifact when the stream ends without a text end', async () => {
+    const parts = await runNormalizer([
+      { type: 'text-start', id: '1' },
+      { type: 'text-delta', id: '1', text: '<boltArtifact id="a" title="A"><boltAction type="shell">npm install' },
+      { type: 'abort' },
+    ]);
+
+    expect(parts).toMatchSnapshot();
+  });
+
+  it('should leave balanced artifacts untouched', async () => {
+    const text =
+      'Before <boltArtifact id="a" title="A"><boltAction type="shell">npm install</boltAction></boltArtifact>';
+    const parts = await runNormalizer(textBlock(text.split('')), { synthesizeArtifacts: true });
+
+    expect(getText(parts)).toBe(text);
+  });
+
+  describe('continued responses', () => {
+    const truncated = '<boltArtifact id="a" title="A"><boltAction type="file" filePath="index.js">con';
+
+    it('should leave an artifact open when the response is continued', async () => {
+      const parts = await runNormalizer([...textBlock([truncated]), finishStep('length')], { continueOnLength: true });
+
+      expect(getText(parts)).toBe(truncated);
+      expect(parts.map(({ type }) => type)).toEqual(['text-start', 'text-delta', 'text-end', 'finish-step']);
+    });
+
+    it('should close an artifact when the response stops for another reason', async () => {
+      const parts = await runNormalizer([...textBlock([truncated]), finishStep('stop')], { continueOnLength: true });
+
+      expect(parts).toMatchSnapshot();
+    });
+
+    it('should close an artifact opened by an earlier segment', async () => {
+      const parts = await runNormalizer([...textBlock(['sole.log(1)']), finishStep('length')], {
+        precedingText: truncated,
+      });
+
+      expect(getText(parts)).toBe('sole.log(1)\n</boltAction>\n</boltArtifact>');
+    });
+
+    it('should not close an artifact the continuation closes itself', async () => {
+      const parts = await runNormalizer(
+        [...textBlock(['sole.log(1)</boltAction></boltArtifact>']), finishStep('stop')],
+        {
+          continueOnLength: true,
+          precedingText: truncated,
+        },
+      );
+
+      expect(getText(parts)).toBe('sole.log(1)</boltAction></boltArtifact>');
+    });
+  });
+
+  describe('synthesized artifacts', () => {
+    const prose = [
+      'Create a `package.json`:\n\n',
+      `${PACKAGE_JSON}\n\n`,
+      'Then run `pnpm install` and start it with `pnpm dev`.',
+    ];
+
+    it('should turn a package.json and commands into an artifact', async () => {
+      const parts = await runNormalizer(textBlock(prose), { synthesizeArtifacts: true });
+
+      expect(getText(parts)).toMatchSnapshot();
+    });
+
+    it('should not synthesize artifacts unless enabled', async () => {
+      const parts = await runNormalizer(textBlock(prose));
+
+      expect(getText(parts)).toBe(prose.join(''));
+    });
+
+    it('should synthesize at most one artifact per response', async () => {
+      const parts = await runNormalizer([...textBlock(prose, '1'), ...textBlock(prose, '2')], {
+        synthesizeArtifacts: true,
+      });
+
+      expect(getText(parts).match(/<boltArtifact /g)).toHaveLength(1);
+    });
+
+    it.each<[string]>([
+      ['Run `npm install` and `npm run dev`.'],
+      ['```json\n{ "compilerOptions": { "strict": true } }\n```\n\nRun `npm install`.'],
+      ['```json\n{ "dependencies": { ... } }\n```\n\nRun `npm install`.'],
+    ])('should not synthesize an artifact without a complete package.json (%#)', async (text) => {
+      const parts = await runNormalizer(textBlock([text]), { synthesizeArtifacts: true });
+
+      expect(getText(parts)).toBe(text);
+    });
+  });
+});
+
+function textBlock(deltas: string[], id = '1'): Part[] {
+  return [
+    { type: 'text-start', id },
+    ...deltas.map((text): Part => ({ type: 'text-delta', id, text })),
+    { type: 'text-end', id },
+  ];
+}
+
+function finishStep(finishReason: 'stop' | 'length'): Part {
+  return {
+    type: 'finish-step',
+    finishReason,
+    usage: { inputTokens: 10, outputTokens: 20, totalTokens: 30 },
+    response: { id: 'response_1', modelId: 'test', timestamp: new Date(0) },
+    providerMetadata: undefined,
+  };
+}
+
+function getText(parts: Part[]) {
+  return parts.map((part) => (part.type === 'text-delta' ? part.text : '')).join('');
+}
+
+async function runNormalizer(input: Part[], options: StreamNormalizerOptions = {}) {
+  const transform = createStreamNormalizer({ createArtifactId: () => 'artifact_1', ...options })({
+    tools: {},
+    stopStream: () => undefined,
+  });
+
+  const reader = new ReadableStream<Part>({
+    start(controller) {
+      input.forEach((part) => controller.enqueue(part));
+      controller.close();
+    },
+  })
+    .pipeThrough(transform)
+    .getReader();
+
+  const output: Part[] = [];
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    output.push(result.value);
+  }
+
+  return output;
+}
@@ -0,0 +1,188 @@
+import { generateId, type StreamTextTransform, type TextStreamPart, type ToolSet } from 'ai';
+
+const ARTIFACT_TAG_OPEN = '<boltArtifact';
+const ARTIFACT_TAG_CLOSE = '</boltArtifact>';
+const ACTION_TAG_OPEN = '<boltAction';
+const ACTION_TAG_CLOSE = '</boltAction>';
+
+const PACKAGE_JSON_BLOCK = /```json[^\n]*\n([\s\S]*?)\n\s*```/g;
+const INSTALL_COMMAND = /\b(npm|pnpm|yarn|bun)\s+(?:install|i)\b/;
+const DEV_COMMAND = /\b(npm|pnpm|yarn|bun)\s+(?:run\s+)?dev\b/;
+
+type Part = TextStreamPart<ToolSet>;
+
+export interface StreamNormalizerOptions {
+  /**
+   * Turn a `package.json` code block and the install and dev server commands mentioned in prose
+   * into an artifact, for models that don't follow the artifact format. Only applies to responses
+   * without an artifact of their own.
+   */
+  synthesizeArtifacts?: boolean;
+
+  /**
+   * The response is continued when it hits the output token limit, so an artifact left open at
+   * that point stays open for the continuation to finish.
+   */
+  continueOnLength?: boolean;
+
+  /** text of the earlier segments of the response when this stream continues it */
+  precedingText?: string;
+
+  /** id for synthesised artifacts; a random id by default */
+  createArtifactId?: () => string;
+}
+
+/**
+ * Returns the tags that close an artifact or action the text leaves open. An opening tag that
+ * hasn't been completed counts as not opened.
+ */
+export function getUnclosedTags(text: string) {
+  const isOpen = (open: string, close: string) => {
+    const openIndex = text.lastIndexOf(open);
+
+    return openIndex !== -1 && openIndex > text.lastIndexOf(close) && text.indexOf('>', openIndex) !== -1;
+  };
+
+  if (!isOpen(ARTIFACT_TAG_OPEN, ARTIFACT_TAG_CLOSE)) {
+    return '';
+  }
+
+  return `${isOpen(ACTION_TAG_OPEN, ACTION_TAG_CLOSE) ? `\n${ACTION_TAG_CLOSE}` : ''}\n${ARTIFACT_TAG_CLOSE}`;
+}
+
+function findPackageJson(text: string) {
+  for (const [, block] of text.matchAll(PACKAGE_JSON_BLOCK)) {
+    try {
+      const json = JSON.parse(block);
+
+      if (
+        json &&
+        typeof json === 'object' &&
+        ('dependencies' in json || 'devDependencies' in json || 'scripts' in json)
+      ) {
+        return block.trim();
+      }
+    } catch {
+      // not JSON, or an excerpt with placeholders
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds an artifact from a response that describes a project in prose, or returns `undefined`
+ * when it doesn't contain a complete `package.json`. Commands keep the package manager the
+ * response used.
+ */
+export function synthesizeArtifact(text: string, artifactId: string) {
+  const packageJson = findPackageJson(text);
+
+  if (!packageJson) {
+    return undefined;
+  }
+
+  const actions = [`<boltAction type="file" filePath="package.json">\n${packageJson}\n</boltAction>`];
+  const install = INSTALL_COMMAND.exec(text);
+  const dev = DEV_COMMAND.exec(text);
+
+  if (install) {
+    actions.push(`<boltAction type="shell">\n${install[1]} install\n</boltAction>`);
+  }
+
+  if (dev) {
+    actions.push(`<boltAction type="shell">\n${dev[1]} run dev\n</boltAction>`);
+  }
+
+  return `\n\n<boltArtifact id="${artifactId}" title="Project setup">\n${actions.join('\n')}\n</boltArtifact>`;
+}
+
+/**
+ * Normalises the model's text before it's sent to the client, as a transform over the AI SDK
+ * stream: a response that opens an artifact or action closes it again, even when it's cut off,
+ * and prose that describes a project can be turned into an artifact (see
+ * `StreamNormalizerOptions`). Everything added reaches the client as ordinary text deltas;
+ * other parts pass through unchanged.
+ */
+export function createStreamNormalizer(options: StreamNormalizerOptions = {}): StreamTextTransform<ToolSet> {
+  const {
+    synthesizeArtifacts = false,
+    continueOnLength = false,
+    precedingText = '',
+    createArtifactId = () => `synthesized-${generateId()}`,
+  } = options;
+
+  return () => {
+    // ids of text blocks that haven't ended yet, and `text-end` parts held back until the step finishes
+    const openBlocks = new Set<string>();
+    const heldEnds: Array<Extract<Part, { type: 'text-end' }>> = [];
+    let text = precedingText;
+    let synthesized = false;
+
+    const completeText = (id: string, controller: TransformStreamDefaultController<Part>) => {
+      let suffix = getUnclosedTags(text);
+
+      if (!suffix && synthesizeArtifacts && !synthesized && !text.includes(ARTIFACT_TAG_OPEN)) {
+        suffix = synthesizeArtifact(text, createArtifactId()) ?? '';
+        synthesized = suffix !== '';
+      }
+
+      if (suffix) {
+        text += suffix;
+        controller.enqueue({ type: 'text-delta', id, text: suffix });
+      }
+    };
+
+    const endText = (complete: boolean, controller: TransformStreamDefaultController<Part>) => {
+      // a response cut off mid-block never gets its `text-end`, so that block is completed instead
+      const id = [...openBlocks].at(-1) ?? heldEnds.at(-1)?.id;
+
+      if (complete && id !== undefined) {
+        completeText(id, controller);
+      }
+
+      heldEnds.splice(0).forEach((part) => controller.enqueue(part));
+    };
+
+    return new TransformStream<Part, Part>({
+      transform(part, controller) {
+        switch (part.type) {
+          case 'text-start': {
+            openBlocks.add(part.id);
+            break;
+          }
+          case 'text-delta': {
+            // also covers providers that skip `text-start`
+            openBlocks.add(part.id);
+            text += part.text;
+            break;
+          }
+          case 'text-end': {
+            openBlocks.delete(part.id);
+
+            // whether the response continues is only known once the step finishes
+            if (continueOnLength) {
+              heldEnds.push(part);
+              return;
+            }
+
+            completeText(part.id, controller);
+            break;
+          }
+          case 'finish-step':
+          case 'finish': {
+            endText(!(continueOnLength && part.finishReason === 'length'), controller);
+            break;
+          }
+          case 'abort':
+          case 'error': {
+            endText(true, controller);
+            break;
+          }
+        }
+
+        controller.enqueue(part);
+      },
+    });
+  };
+}
@@ -1,52 +1,77 @@
-import { streamText as _streamText, type CoreMessage } from 'ai';
-import { getAPIKey, getOpenRouterAPIKey, getOpenAIAPIKey } from '~/lib/.server/llm/api-key';
-import { getAnthropicModel, getOpenRouterModel, getOpenAIModel } from '~/lib/.server/llm/model';
-import { MAX_TOKENS } from './constants';
-import { getSystemPrompt } from './prompts';
-
-export type Messages = CoreMessage[];
+import {
+  streamText as _streamText,
+  type LanguageModelUsage,
+  type ModelMessage,
+  type StopCondition,
+  type StreamTextTransform,
+  type ToolSet,
+} from 'ai';
+import { awaitFirstToken, FailoverError } from './failover';
+import { supportsReasoning, supportsVision } from './model-catalog';
+import { getReasoningOptions, loadModelCandidates, NO_PROVIDER_ERROR, type ResolvedModel } from './providers';
+import type { ModelFailover } from '~/types/usage';
+
+export type Messages = ModelMessage[];
 
 export interface StreamingOptions {
   toolChoice?: 'none' | 'auto';
-  onFinish?: (result: { text: string; finishReason: string }) => void | Promise<void>;
-  /** Optional per-request model override for OpenRouter */
+  onFinish?: (result: { text: string; finishReason: string; totalUsage: LanguageModelUsage }) => void | Promise<void>;
+
+  /** Called instead of `onFinish` when `abortSignal` aborts, with the steps that completed before */
+  onAbort?: (event: { steps: Array<{ usage: LanguageModelUsage }> }) => void | Promise<void>;
+
+  /** Cancels the provider request; the stream then ends with an `abort` part */
+  abortSignal?: AbortSignal;
+
+  /**
+   * Optional per-request model selector. Either a bare model id for the default provider or
+   * `<provider>:<model>`, e.g. `anthropic:claude-3-5-sonnet-20240620`.
+   */
   modelId?: string;
-}
 
-const DEFAULT_OPENROUTER_MODELS = [
-  'microsoft/wizardlm-2-8x22b',
-  'meta-llama/llama-3.1-8b-instruct:free',
-  'qwen/qwen2.5-vl-3b-instruct:free',
-];
+  /** Optional system prompt; callers that build their own system messages leave this empty */
+  system?: string;
 
-function parseModelList(value?: string) {
-  if (!value) {
-    return [] as string[];
-  }
+  /** Optional transform applied to the stream of the model that serves the request */
+  transform?: (model: ResolvedModel) => StreamTextTransform<ToolSet> | undefined;
+
+  /** Skip models known not to accept images; set when the conversation contains image parts */
+  requiresVision?: boolean;
+
+  /** Ask models that support it to reason before answering; the reasoning streams as separate parts */
+  reasoning?: boolean;
 
-  return value
-    .split(',')
-    .map((entry) => entry.trim())
-    .filter(Boolean);
+  /** Tools the model may call; see `workspaceTools` */
+  tools?: ToolSet;
+
+  /** When to stop calling the model again after it used a tool */
+  stopWhen?: StopCondition<ToolSet>;
 }
 
-export function streamText(messages: Messages, env?: Env, options?: StreamingOptions) {
+export async function streamText(messages: Messages, env?: Env, options?: StreamingOptions) {
   try {
-    const openRouterApiKey = getOpenRouterAPIKey(env);
-    const openaiApiKey = getOpenAIAPIKey(env);
-    const { modelId: overrideModelId, ...optionOverrides } = options ?? {};
-
-    const envModelSetting =
-      env?.OPENROUTER_MODEL ||
-      env?.LLM_MODEL ||
-      process.env.OPENROUTER_MODEL ||
-      process.env.LLM_MODEL;
-
-    const envModelIds = parseModelList(envModelSetting);
-    const requestedModelIds = overrideModelId ? [overrideModelId] : [];
-    const openRouterModelCandidates = Array.from(
-      new Set([...requestedModelIds, ...envModelIds, ...DEFAULT_OPENROUTER_MODELS]),
-    );
+    const {
+      modelId: overrideModelId,
+      system,
+      transform,
+      requiresVision,
+      reasoning,
+      abortSignal,
+      ...optionOverrides
+    } = options ?? {};
+    let candidates = await loadModelCandidates(env, overrideModelId);
+
+    if (candidates.length === 0) {
+      throw new Error(NO_PROVIDER_ERROR);
+    }
+
+    if (requiresVision) {
+      candidates = candidates.filter((candidate) => supportsVision(candidate.modelId) !== false);
+
+      if (candidates.length === 0) {
+        throw new Error('None of the configured models can read images. Configure a vision-capable model.');
+      }
+    }
 
     // Enhanced model parameters to prevent repetitive responses
     const enhancedOptions = {
@@ -54,60 +79,70 @@ export function streamText(messages: Messages, env?: Env, options?: StreamingOpt
       temperature: 0.7, // Balanced creativity vs consistency
       presencePenalty: 0.1, // Reduce repetitive phrases
       frequencyPenalty: 0.1, // Reduce repetitive words
-      maxTokens: 4000, // Reasonable response length
+      maxOutputTokens: 4000, // reasonable response length
     };
 
-    if (openRouterApiKey) {
-      let lastError: unknown;
-
-      for (const modelId of openRouterModelCandidates) {
-        try {
-          console.info(`[llm] Attempting OpenRouter model: ${modelId}`);
-
-          return _streamText({
-            ...enhancedOptions,
-            model: getOpenRouterModel(openRouterApiKey, modelId),
-            system: getSystemPrompt(),
-            messages,
-          });
-        } catch (error) {
-          console.warn(`[llm] OpenRouter model failed: ${modelId}`, error);
-          lastError = error;
+    let lastError: unknown;
+    const failovers: ModelFailover[] = [];
+
+    /**
+     * A candidate that fails, doesn't start answering within the first token timeout or finishes
+     * without output is abandoned for the next one. Once a model has started answering it's kept,
+     * since its output may already have reached the client. The last candidate is used as is.
+     */
+    for (const [index, candidate] of candidates.entries()) {
+      const isLastCandidate = index === candidates.length - 1;
+      const attempt = new AbortController();
+      const abortAttempt = () => attempt.abort();
+
+      abortSignal?.addEventListener('abort', abortAttempt, { once: true });
+
+      try {
+        console.info(`[llm] Attempting ${candidate.provider} model: ${candidate.modelId}`);
+
+        const result = _streamText({
+          ...enhancedOptions,
+          model: candidate.model,
+          system,
+          messages,
+          abortSignal: attempt.signal,
+
+          // retrying the same model only delays falling back to the next one
+          maxRetries: isLastCandidate ? undefined : 0,
+          experimental_transform: transform?.(candidate),
+          providerOptions:
+            reasoning && supportsReasoning(candidate.modelId) !== false
+              ? getReasoningOptions(candidate.provider)
+              : undefined,
+        });
+
+        if (!isLastCandidate) {
+          await awaitFirstToken(result.fullStream, { signal: abortSignal });
         }
-      }
 
-      if (lastError instanceof Error) {
-        throw lastError;
+        // lets callers attribute usage and cost to the model that actually served the request
+        return Object.assign(result, { provider: candidate.provider, modelId: candidate.modelId, failovers });
+      } catch (error) {
+        abortSignal?.removeEventListener('abort', abortAttempt);
+        attempt.abort();
+
+        console.warn(`[llm] ${candidate.provider} model failed: ${candidate.modelId}`, error);
+        failovers.push({
+          model: `${candidate.provider}:${candidate.modelId}`,
+          reason: error instanceof FailoverError ? error.reason : 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+        lastError = error instanceof FailoverError && error.cause !== undefined ? error.cause : error;
       }
-
-      throw new Error('All configured OpenRouter models failed.');
-    }
-
-    if (openaiApiKey) {
-      return _streamText({
-        ...enhancedOptions,
-        model: getOpenAIModel(openaiApiKey),
-        system: getSystemPrompt(),
-        messages,
-      });
     }
 
-    const anthropicKey = getAPIKey(env);
-    if (!anthropicKey) {
-      throw new Error(
-        'No API keys configured. Please set at least one: OPENROUTER_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY.',
-      );
+    if (lastError instanceof Error) {
+      throw lastError;
     }
 
-    return _streamText({
-      ...enhancedOptions,
-      model: getAnthropicModel(anthropicKey),
-      system: getSystemPrompt(),
-      messages,
-    });
+    throw new Error('All configured models failed.');
   } catch (error) {
     console.error('Error in streamText:', error);
     throw error;
   }
 }
-
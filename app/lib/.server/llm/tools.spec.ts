@@ -0,0 +1,114 @@
+import { generateText, type LanguageModel } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { MAX_TOOL_STEPS, stopWhen, workspaceTools } from './tools';
+import { toolCallToAction } from '~/lib/runtime/tool-actions';
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+interface ToolCall {
+  toolName: string;
+  input: unknown;
+}
+
+/** a model that makes the given tool calls in its first step and then answers with text */
+function createModel(calls: ToolCall[]) {
+  let stepCount = 0;
+
+  const model: LanguageModelV2 = {
+    specificationVersion: 'v2',
+    provider: 'test',
+    modelId: 'test-model',
+    supportedUrls: {},
+    doGenerate: async () => {
+      const usage = { inputTokens: 10, outputTokens: 10, totalTokens: 20 };
+
+      if (stepCount++ > 0) {
+        return { content: [{ type: 'text', text: 'Done.' }], finishReason: 'stop', usage, warnings: [] };
+      }
+
+      return {
+        content: calls.map(({ toolName, input }, index) => ({
+          type: 'tool-call' as const,
+          toolCallId: `call-${index}`,
+          toolName,
+          input: JSON.stringify(input),
+        })),
+        finishReason: 'tool-calls',
+        usage,
+        warnings: [],
+      };
+    },
+    doStream: () => Promise.reject(new Error('Not implemented')),
+  };
+
+  return model;
+}
+
+async function runTools(calls: ToolCall[]) {
+  const { steps } = await generateText({ model: createModel(calls), tools: workspaceTools, stopWhen, prompt: 'Go' });
+
+  return steps;
+}
+
+describe('workspaceTools', () => {
+  it('should acknowledge workspace changes, which the client maps onto actions', async () => {
+    const calls = [
+      { toolName: 'write_file', input: { path: 'src/App.tsx', content: 'export default 1;' } },
+      { toolName: 'run_shell', input: { command: 'npm install' } },
+      { toolName: 'start_dev_server', input: { command: 'npm run dev' } },
+    ];
+    const [step, answer] = await runTools(calls);
+
+    expect(step.toolResults.map(({ toolName, output }) => ({ toolName, output }))).toEqual([
+      { toolName: 'write_file', output: { path: 'src/App.tsx', status: 'queued' } },
+      { toolName: 'run_shell', output: { command: 'npm install', status: 'queued' } },
+      { toolName: 'start_dev_server', output: { command: 'npm run dev', status: 'queued' } },
+    ]);
+    expect(answer.text).toBe('Done.');
+
+    expect(step.toolCalls.map(toolCallToAction)).toEqual([
+      { type: 'file', filePath: 'src/App.tsx', content: 'export default 1;' },
+      { type: 'shell', content: 'npm install' },
+      { type: 'start', content: 'npm run dev' },
+    ]);
+  });
+
+  it('should leave reads to the client and end the request', async () => {
+    const steps = await runTools([
+      { toolName: 'read_file', input: { path: 'package.json' } },
+      { toolName: 'list_files', input: {} },
+    ]);
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0].toolCalls.map(({ toolName, input }) => ({ toolName, input }))).toEqual([
+      { toolName: 'read_file', input: { path: 'package.json' } },
+      { toolName: 'list_files', input: {} },
+    ]);
+    expect(steps[0].toolResults).toEqual([]);
+  });
+
+  it.each([
+    ['write_file', { content: 'x' }],
+    ['write_file', { path: '', content: 'x' }],
+    ['write_file', { path: 'a.ts' }],
+    ['write_file', { path: 'a.ts', content: 42 }],
+    ['run_shell', { command: '' }],
+    ['run_shell', { cmd: 'ls' }],
+    ['start_dev_server', {}],
+    ['read_file', { path: '' }],
+    ['list_files', { path: 1 }],
+  ])('should reject %s calls with malformed input %j', async (toolName, input) => {
+    const [step] = await runTools([{ toolName, input }]);
+    const [error] = step.content.filter((part) => part.type === 'tool-error');
+
+    expect(step.toolResults).toEqual([]);
+    expect(error).toMatchObject({ toolName, error: expect.stringContaining(`Invalid input for tool ${toolName}`) });
+  });
+
+  it('should stop after the maximum number of steps', async () => {
+    const step = { toolCalls: [], toolResults: [] };
+
+    expect(await stopWhen({ steps: Array(MAX_TOOL_STEPS - 1).fill(step) })).toBe(false);
+    expect(await stopWhen({ steps: Array(MAX_TOOL_STEPS).fill(step) })).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { stepCountIs, tool } from 'ai';
+import { z } from 'zod';
+
+/** server-side steps per request; the client starts a new request after answering a read */
+export const MAX_TOOL_STEPS = 8;
+
+export const stopWhen = stepCountIs(MAX_TOOL_STEPS);
+
+const pathSchema = z.string().min(1).describe('Path relative to the project root, e.g. `src/App.tsx`');
+
+/**
+ * Tools for reading and changing the user's workspace. The workspace is a WebContainer in the
+ * browser, so nothing runs here: `write_file`, `run_shell` and `start_dev_server` are acknowledged
+ * immediately and the client turns the calls into workbench actions, while `read_file` and
+ * `list_files` have no `execute` and are answered by the client.
+ */
+export const workspaceTools = {
+  write_file: tool({
+    description: 'Create or overwrite a file in the project with its complete content.',
+    inputSchema: z.object({
+      path: pathSchema,
+      content: z.string().describe('The full file content; never a diff or an excerpt'),
+    }),
+    execute: async ({ path }) => ({ path, status: 'queued' as const }),
+  }),
+  run_shell: tool({
+    description:
+      'Run a shell command that terminates in the project root, e.g. to install dependencies. Commands run in order after earlier file writes. Start the dev server with `start_dev_server` instead.',
+    inputSchema: z.object({
+      command: z.string().min(1).describe('The command to run, e.g. `npm install`'),
+    }),
+    execute: async ({ command }) => ({ command, status: 'queued' as const }),
+  }),
+  start_dev_server: tool({
+    description:
+      'Start the dev server in the project root, stopping the one already running. It restarts by itself when package.json changes, so call this once per project.',
+    inputSchema: z.object({
+      command: z.string().min(1).describe('The command that starts the dev server, e.g. `npm run dev`'),
+    }),
+    execute: async ({ command }) => ({ command, status: 'queued' as const }),
+  }),
+  read_file: tool({
+    description: 'Read the current content of a file in the project.',
+    inputSchema: z.object({ path: pathSchema }),
+  }),
+  list_files: tool({
+    description: 'List the files and folders in the project, or below the given folder.',
+    inputSchema: z.object({
+      path: z.string().optional().describe('Folder relative to the project root; the whole project when omitted'),
+    }),
+  }),
+};
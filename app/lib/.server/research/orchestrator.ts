@@ -1,6 +1,5 @@
 import { generateObject, generateText, jsonSchema, type Schema } from 'ai';
-import { getOpenRouterModel } from '~/lib/.server/llm/model';
-import { getOpenRouterAPIKey } from '~/lib/.server/llm/api-key';
+import { hasConfiguredProvider, loadModelCandidates } from '~/lib/.server/llm/providers';
 import crypto from 'crypto';
 import type {
   ResearchTask,
@@ -47,10 +46,9 @@ export async function orchestrateResearch({
   onDraftUpdate,
 }: ResearchOrchestratorParams): Promise<ResearchTask> {
   console.log('[Orchestrator] Starting research orchestration', { taskId, goal, mode });
-  const apiKey = getOpenRouterAPIKey(env);
 
-  if (!apiKey) {
-    console.error('[Orchestrator] OpenRouter API key not found in env');
+  if (!hasConfiguredProvider(env)) {
+    console.error('[Orchestrator] No LLM provider configured in env');
     return {
       id: taskId,
       goal,
@@ -68,23 +66,24 @@ export async function orchestrateResearch({
         bibliography: [],
         limitations: [],
       },
-      errorMessage: 'OpenRouter API key not configured',
+      errorMessage: 'No LLM provider configured',
     };
   }
 
   console.log('[Orchestrator] API key found, initializing model');
 
-  // Primary model: More reliable for structured JSON outputs
-  // Fallback: Free but sometimes unreliable with JSON formatting
-  const PRIMARY_MODEL_ID = 'alibaba/tongyi-deepresearch-30b-a3b:free';
-  const FALLBACK_MODEL_ID = 'openai/gpt-4o-mini';
-  const primaryModel = getOpenRouterModel(apiKey, PRIMARY_MODEL_ID);
-  const fallbackModel = getOpenRouterModel(apiKey, FALLBACK_MODEL_ID);
-
-  const availableModels: ModelCandidate[] = [
-    { name: PRIMARY_MODEL_ID, model: primaryModel },
-    { name: FALLBACK_MODEL_ID, model: fallbackModel },
-  ].filter((candidate) => Boolean(candidate.model));
+  /**
+   * Primary model: More reliable for structured JSON outputs
+   * Fallback: Free but sometimes unreliable with JSON formatting
+   * Both only apply when OpenRouter is configured; otherwise the default provider's models are used.
+   */
+  const PRIMARY_MODEL_ID = 'openrouter:alibaba/tongyi-deepresearch-30b-a3b:free';
+  const FALLBACK_MODEL_ID = 'openrouter:openai/gpt-4o-mini';
+
+  // every step retries across these models, so keep the list as short as the original pair
+  const availableModels: ModelCandidate[] = (await loadModelCandidates(env, [PRIMARY_MODEL_ID, FALLBACK_MODEL_ID]))
+    .slice(0, 2)
+    .map((candidate) => ({ name: `${candidate.provider}:${candidate.modelId}`, model: candidate.model }));
 
   if (!availableModels.length) {
     console.error('[Orchestrator] No models available for research orchestration');
@@ -11,6 +11,15 @@ export function getResearchTask(taskId: string): ResearchTask | undefined {
   return tasks.get(taskId);
 }
 
+/**
+ * Returns the task only when `userId` started it, so task ids can't be used to read other users' research.
+ */
+export function getResearchTaskForUser(taskId: string, userId: string | undefined): ResearchTask | undefined {
+  const task = tasks.get(taskId);
+
+  return task && (!task.userId || task.userId === userId) ? task : undefined;
+}
+
 export function updateResearchTask(taskId: string, updates: Partial<ResearchTask>): void {
   const task = tasks.get(taskId);
 
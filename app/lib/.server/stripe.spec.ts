@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { verifyStripeSignature } from './stripe';
+
+const SECRET = 'whsec_test';
+const BODY = '{"type":"invoice.payment_succeeded"}';
+const NOW = 1_700_000_000_000;
+
+describe('verifyStripeSignature', () => {
+  it('should accept a body signed with the endpoint secret', async () => {
+    const header = `t=${NOW / 1000},v1=${await sign(`${NOW / 1000}.${BODY}`, SECRET)}`;
+
+    await expect(verifyStripeSignature(BODY, header, SECRET, NOW)).resolves.toBe(true);
+  });
+
+  it('should reject a tampered body', async () => {
+    const header = `t=${NOW / 1000},v1=${await sign(`${NOW / 1000}.${BODY}`, SECRET)}`;
+
+    await expect(verifyStripeSignature(`${BODY} `, header, SECRET, NOW)).resolves.toBe(false);
+  });
+
+  it('should reject a body signed with another secret', async () => {
+    const header = `t=${NOW / 1000},v1=${await sign(`${NOW / 1000}.${BODY}`, 'whsec_other')}`;
+
+    await expect(verifyStripeSignature(BODY, header, SECRET, NOW)).resolves.toBe(false);
+  });
+
+  it('should reject an old timestamp', async () => {
+    const timestamp = NOW / 1000 - 600;
+    const header = `t=${timestamp},v1=${await sign(`${timestamp}.${BODY}`, SECRET)}`;
+
+    await expect(verifyStripeSignature(BODY, header, SECRET, NOW)).resolves.toBe(false);
+  });
+
+  it('should reject a missing header', async () => {
+    await expect(verifyStripeSignature(BODY, null, SECRET, NOW)).resolves.toBe(false);
+  });
+});
+
+async function sign(payload: string, secret: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,73 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { env } from 'node:process';
+import { getEnvSetting } from './llm/api-key';
+
+const clients = new Map<string, SupabaseClient>();
+
+export function getSupabaseUrl(cloudflareEnv?: Env) {
+  // `import.meta.env` is missing when the dev server's load context runs this outside of vite
+  const url =
+    getEnvSetting(cloudflareEnv, 'SUPABASE_URL') ?? env.VITE_SUPABASE_URL ?? import.meta.env?.VITE_SUPABASE_URL;
+
+  return typeof url === 'string' && url ? url.replace(/\/+$/, '') : undefined;
+}
+
+function getAnonKey(cloudflareEnv?: Env) {
+  const key =
+    getEnvSetting(cloudflareEnv, 'SUPABASE_ANON_KEY') ??
+    env.VITE_SUPABASE_ANON_KEY ??
+    import.meta.env?.VITE_SUPABASE_ANON_KEY;
+
+  return typeof key === 'string' && key ? key : undefined;
+}
+
+function getServiceRoleKey(cloudflareEnv?: Env) {
+  /**
+   * The `cloudflareEnv` is only used when deployed or when previewing locally.
+   * In development the environment variables are available through `env`.
+   */
+  return env.SUPABASE_SERVICE_ROLE_KEY || cloudflareEnv?.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+/**
+ * Supabase client authenticated with the service role key, for server-only operations that
+ * bypass row level security. Returns `undefined` when the project isn't configured.
+ */
+export function getServiceClient(cloudflareEnv?: Env) {
+  const url = getSupabaseUrl(cloudflareEnv);
+  const serviceRoleKey = getServiceRoleKey(cloudflareEnv);
+
+  if (!url || !serviceRoleKey) {
+    return undefined;
+  }
+
+  const cacheKey = `${url}\u0000${serviceRoleKey}`;
+  let client = clients.get(cacheKey);
+
+  if (!client) {
+    client = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+    });
+    clients.set(cacheKey, client);
+  }
+
+  return client;
+}
+
+/**
+ * Supabase client acting as the given user, so row level security applies. Used when the
+ * service role key isn't configured.
+ */
+export function getUserClient(accessToken: string, cloudflareEnv?: Env) {
+  const url = getSupabaseUrl(cloudflareEnv);
+  const anonKey = getAnonKey(cloudflareEnv);
+
+  if (!url || !anonKey) {
+    return undefined;
+  }
+
+  return createClient(url, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { meterRequest } from './metering';
+import type { AuthUser } from '~/lib/.server/auth';
+import { getServiceClient } from '~/lib/.server/supabase';
+
+vi.mock('~/lib/.server/supabase', () => ({ getServiceClient: vi.fn() }));
+
+const user: AuthUser = { id: 'user-1', role: 'authenticated', accessToken: 'token' };
+
+const row = {
+  plan: 'free',
+  daily_tokens_used: 1_000,
+  daily_tokens_limit: 50_000,
+  monthly_tokens_used: 20_000,
+  monthly_tokens_limit: 1_000_000,
+  research_runs_used: 2,
+  research_runs_limit: 5,
+  daily_reset_at: '2026-10-20T00:00:00+00:00',
+  monthly_reset_at: '2026-11-01T00:00:00+00:00',
+  allowed: true,
+};
+
+const rpc = vi.fn();
+
+function meterArgs(tokens: number, researchRuns: number, enforce: boolean) {
+  return { p_user_id: user.id, p_tokens: tokens, p_research_runs: researchRuns, p_enforce: enforce };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T22:00:00Z'));
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  vi.spyOn(console, 'info').mockImplementation(() => undefined);
+  vi.mocked(getServiceClient).mockReturnValue({ rpc } as unknown as ReturnType<typeof getServiceClient>);
+  rpc.mockReset();
+  rpc.mockResolvedValue({ data: row, error: null });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('meterRequest', () => {
+  it('should check the limits without counting anything', async () => {
+    const result = await meterRequest(user, undefined, 'chat');
+
+    expect(rpc).toHaveBeenCalledWith('meter_usage', meterArgs(0, 0, true));
+    expect(result.ok && result.meter.quota).toEqual({
+      plan: 'free',
+      dailyTokensUsed: 1_000,
+      dailyTokensLimit: 50_000,
+      monthlyTokensUsed: 20_000,
+      monthlyTokensLimit: 1_000_000,
+      researchRunsUsed: 2,
+      researchRunsLimit: 5,
+      dailyResetAt: '2026-10-20T00:00:00.000Z',
+      monthlyResetAt: '2026-11-01T00:00:00.000Z',
+    });
+  });
+
+  it('should add the tokens and research runs in one call each, without enforcing the limits', async () => {
+    const result = await meterRequest(user, undefined, 'research');
+
+    if (!result.ok) {
+      throw new Error('Expected the request to be allowed');
+    }
+
+    await result.meter.recordTokens(1_234.6);
+    await result.meter.recordResearchRun();
+    await result.meter.recordTokens(0);
+
+    expect(rpc.mock.calls.slice(1)).toEqual([
+      ['meter_usage', meterArgs(1_235, 0, false)],
+      ['meter_usage', meterArgs(0, 1, false)],
+    ]);
+  });
+
+  it('should reject callers over a token limit with a structured 429', async () => {
+    rpc.mockResolvedValue({
+      data: { ...row, daily_tokens_used: 50_000, allowed: false, exceeded: 'daily_tokens' },
+      error: null,
+    });
+
+    const result = await meterRequest(user, undefined, 'chat');
+
+    if (result.ok) {
+      throw new Error('Expected the request to be rejected');
+    }
+
+    expect(result.response.status).toBe(429);
+    expect(result.response.headers.get('Retry-After')).toBe('7200');
+    expect(await result.response.json()).toEqual({
+      error: "You've reached your daily usage limit.",
+      code: 'usage_limit_exceeded',
+      limit: 'daily_tokens',
+      quota: expect.objectContaining({ dailyTokensUsed: 50_000, dailyTokensLimit: 50_000 }),
+      retryAt: '2026-10-20T00:00:00.000Z',
+    });
+  });
+
+  it('should retry monthly limits after the monthly reset', async () => {
+    rpc.mockResolvedValue({ data: { ...row, allowed: false, exceeded: 'monthly_tokens' }, error: null });
+
+    const result = await meterRequest(user, undefined, 'enhancer');
+
+    expect(result.ok ? undefined : await result.response.json()).toMatchObject({
+      limit: 'monthly_tokens',
+      retryAt: '2026-11-01T00:00:00.000Z',
+    });
+  });
+
+  it("should reject research once today's runs are used up", async () => {
+    rpc.mockResolvedValue({ data: { ...row, research_runs_used: 5 }, error: null });
+
+    const result = await meterRequest(user, undefined, 'research');
+
+    expect(result.ok).toBe(false);
+    expect(result.ok ? undefined : await result.response.json()).toMatchObject({
+      error: "You've used all of today's deep research runs.",
+      limit: 'daily_research',
+    });
+
+    // the same caller may still chat
+    expect((await meterRequest(user, undefined, 'chat')).ok).toBe(true);
+  });
+
+  it('should fail open when the database cannot be reached', async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'connection refused' } });
+
+    const result = await meterRequest(user, undefined, 'chat');
+
+    if (!result.ok) {
+      throw new Error('Expected the request to be allowed');
+    }
+
+    expect(result.meter.userId).toBe(user.id);
+    expect(result.meter.quota).toBeUndefined();
+
+    rpc.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(result.meter.recordTokens(100)).resolves.toBeUndefined();
+  });
+
+  it('should require a user when metering is configured', async () => {
+    const result = await meterRequest(null, undefined, 'chat');
+
+    expect(result.ok ? undefined : result.response.status).toBe(401);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('should not meter without a service role key', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.mocked(getServiceClient).mockReturnValue(undefined);
+
+    const result = await meterRequest(null, undefined, 'chat');
+
+    expect(result.ok && result.meter.userId).toBeUndefined();
+    await expect(result.ok && result.meter.recordTokens(100)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AuthUser } from '~/lib/.server/auth';
+import { getServiceClient } from '~/lib/.server/supabase';
+import type { UsageLimit, UsageLimitExceeded, UsageQuota } from '~/types/usage';
+
+export type MeteredFeature = 'chat' | 'enhancer' | 'research';
+
+/** JSON returned by the `meter_usage` and `get_usage_quota` functions (supabase/migrations/002_usage_metering.sql) */
+interface QuotaRow {
+  plan: string;
+  daily_tokens_used: number;
+  daily_tokens_limit: number;
+  monthly_tokens_used: number;
+  monthly_tokens_limit: number;
+  research_runs_used: number;
+  research_runs_limit: number;
+  daily_reset_at: string;
+  monthly_reset_at: string;
+  allowed?: boolean;
+  exceeded?: UsageLimit;
+}
+
+export interface UsageMeter {
+  /** `undefined` when metering is disabled because Supabase isn't configured */
+  userId?: string;
+  quota?: UsageQuota;
+
+  /** adds the tokens a request consumed once the response has finished */
+  recordTokens(tokens: number): Promise<void>;
+
+  /** counts a deep research run once it has started doing work */
+  recordResearchRun(): Promise<void>;
+}
+
+export type MeterResult = { ok: true; meter: UsageMeter } | { ok: false; response: Response };
+
+const LIMIT_MESSAGES: Record<UsageLimit, string> = {
+  daily_tokens: "You've reached your daily usage limit.",
+  monthly_tokens: "You've reached your monthly usage limit.",
+  daily_research: "You've used all of today's deep research runs.",
+};
+
+const unmetered: UsageMeter = { recordTokens: () => Promise.resolve(), recordResearchRun: () => Promise.resolve() };
+
+let warnedUnconfigured = false;
+
+function jsonResponse(body: unknown, status: number, headers?: Record<string, string>) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function toQuota(row: QuotaRow): UsageQuota {
+  return {
+    plan: row.plan,
+    dailyTokensUsed: Number(row.daily_tokens_used),
+    dailyTokensLimit: Number(row.daily_tokens_limit),
+    monthlyTokensUsed: Number(row.monthly_tokens_used),
+    monthlyTokensLimit: Number(row.monthly_tokens_limit),
+    researchRunsUsed: Number(row.research_runs_used),
+    researchRunsLimit: Number(row.research_runs_limit),
+    dailyResetAt: new Date(row.daily_reset_at).toISOString(),
+    monthlyResetAt: new Date(row.monthly_reset_at).toISOString(),
+  };
+}
+
+async function meterUsage(
+  client: SupabaseClient,
+  userId: string,
+  tokens: number,
+  researchRuns: number,
+  enforce: boolean,
+) {
+  const { data, error } = await client.rpc('meter_usage', {
+    p_user_id: userId,
+    p_tokens: Math.max(0, Math.round(tokens)),
+    p_research_runs: researchRuns,
+    p_enforce: enforce,
+  });
+
+  if (error) {
+    throw new Error(`Failed to meter usage: ${error.message}`);
+  }
+
+  return data as QuotaRow;
+}
+
+function usageLimitResponse(row: QuotaRow, limit: UsageLimit = row.exceeded ?? 'daily_tokens') {
+  const quota = toQuota(row);
+  const retryAt = limit === 'monthly_tokens' ? quota.monthlyResetAt : quota.dailyResetAt;
+  const retryAfter = Math.max(0, Math.ceil((Date.parse(retryAt) - Date.now()) / 1000));
+
+  const body: UsageLimitExceeded = {
+    error: LIMIT_MESSAGES[limit],
+    code: 'usage_limit_exceeded',
+    limit,
+    quota,
+    retryAt,
+  };
+
+  return jsonResponse(body, 429, { 'Retry-After': String(retryAfter) });
+}
+
+/**
+ * Checks the caller's plan limits right before a metered request runs. Token limits reject
+ * callers that are already over them, since a response's size isn't known up front, and research
+ * requests callers that have used today's runs. Neither is counted here: tokens are recorded once
+ * the response has finished, and a research run once it has started doing work, so requests
+ * that fail early don't use up the allowance. Returns a 401 or 429 response to send back when the
+ * request may not proceed.
+ *
+ * Metering is skipped when `SUPABASE_SERVICE_ROLE_KEY` isn't set, e.g. in local development, and
+ * fails open if the database can't be reached so an outage doesn't take chat down with it.
+ */
+export async function meterRequest(
+  user: AuthUser | null,
+  env: Env | undefined,
+  feature: MeteredFeature,
+): Promise<MeterResult> {
+  const client = getServiceClient(env);
+
+  if (!client) {
+    if (!warnedUnconfigured) {
+      warnedUnconfigured = true;
+      console.warn('[usage] SUPABASE_SERVICE_ROLE_KEY is not set; usage is not metered');
+    }
+
+    return { ok: true, meter: unmetered };
+  }
+
+  if (!user) {
+    return { ok: false, response: jsonResponse({ error: 'Sign in to continue.' }, 401) };
+  }
+
+  const userId = user.id;
+  const meter: UsageMeter = {
+    userId,
+    recordTokens: (tokens) => record(client, userId, tokens, 0),
+    recordResearchRun: () => record(client, userId, 0, 1),
+  };
+
+  let row: QuotaRow;
+
+  try {
+    row = await meterUsage(client, userId, 0, 0, true);
+  } catch (error) {
+    console.error(`[usage] Failed to check limits for ${feature}`, error);
+
+    return { ok: true, meter };
+  }
+
+  if (!row.allowed) {
+    console.info(`[usage] ${feature} request rejected: ${row.exceeded}`);
+
+    return { ok: false, response: usageLimitResponse(row) };
+  }
+
+  if (feature === 'research' && Number(row.research_runs_used) >= Number(row.research_runs_limit)) {
+    console.info(`[usage] ${feature} request rejected: daily_research`);
+
+    return { ok: false, response: usageLimitResponse(row, 'daily_research') };
+  }
+
+  return { ok: true, meter: { ...meter, quota: toQuota(row) } };
+}
+
+async function record(client: SupabaseClient, userId: string, tokens: number, researchRuns: number) {
+  if (!(tokens > 0) && !(researchRuns > 0)) {
+    return;
+  }
+
+  try {
+    // the work has already been done, so record it even if it crossed a limit
+    await meterUsage(client, userId, tokens, researchRuns, false);
+  } catch (error) {
+    console.error('[usage] Failed to record usage', error);
+  }
+}
+
+/**
+ * Returns the caller's current quota, or `null` when metering is disabled.
+ */
+export async function getUsageQuota(user: AuthUser | null, env: Env | undefined) {
+  const client = getServiceClient(env);
+
+  if (!client) {
+    return jsonResponse({ quota: null }, 200);
+  }
+
+  if (!user) {
+    return jsonResponse({ error: 'Sign in to continue.' }, 401);
+  }
+
+  const { data, error } = await client.rpc('get_usage_quota', { p_user_id: user.id });
+
+  if (error) {
+    console.error('[usage] Failed to load quota', error);
+
+    return jsonResponse({ error: 'Failed to load usage' }, 500);
+  }
+
+  return jsonResponse({ quota: toQuota(data as QuotaRow) }, 200);
+}
@@ -1,7 +1,8 @@
 import type { UIMessage } from 'ai';
 import { useCallback, useState, useRef } from 'react';
 import { toast } from 'react-toastify';
-import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { createArtifactElement, StreamingMessageParser, type ParserCallbacks } from '~/lib/runtime/message-parser';
+import { ToolCallTranslator } from '~/lib/runtime/tool-actions';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { createScopedLogger } from '~/utils/logger';
 
@@ -9,6 +10,9 @@ export type LegacyMessage = {
   id: string;
   role: string;
   content: string;
+
+  /** the message's parts, for tool calls made with the `tools` action protocol */
+  parts?: UIMessage['parts'];
 };
 
 const logger = createScopedLogger('useMessageParser');
@@ -21,46 +25,51 @@ export function useMessageParser() {
   const processedMessagesRef = useRef<Set<string>>(new Set());
   const artifactFoundRef = useRef<Set<string>>(new Set());
   const streamingContentRef = useRef<{ [key: string]: string }>({});
+  const finalContentRef = useRef<{ [key: string]: string }>({});
   
+  // shared by the XML parser and the tool call translator so both protocols drive the workbench alike
+  const callbacks: ParserCallbacks = {
+    onArtifactOpen: (data) => {
+      logger.trace('onArtifactOpen', data);
+      console.log('🎯 WORKBENCH: Opening artifact:', data.id);
+
+      // track that an artifact was found for this message
+      artifactFoundRef.current.add(data.messageId);
+
+      workbenchStore.showWorkbench.set(true);
+      workbenchStore.addArtifact(data);
+    },
+    onArtifactClose: (data) => {
+      logger.trace('onArtifactClose');
+      workbenchStore.updateArtifact(data, { closed: true });
+    },
+    onActionOpen: (data) => {
+      logger.trace('onActionOpen', data.action);
+
+      // we only add command actions when the close tag got parsed because only then we have the content
+      if (data.action.type !== 'shell' && data.action.type !== 'start') {
+        workbenchStore.addAction(data);
+      }
+    },
+    onActionClose: (data) => {
+      logger.trace('onActionClose', data.action);
+
+      if (data.action.type === 'shell' || data.action.type === 'start') {
+        workbenchStore.addAction(data);
+      }
+
+      workbenchStore.runAction(data);
+    },
+  };
+
   // Create a single parser instance that will be reused
   const messageParserRef = useRef<StreamingMessageParser>(
     new StreamingMessageParser({
       stripMarkdownFences: true,
-      callbacks: {
-        onArtifactOpen: (data) => {
-          logger.trace('onArtifactOpen', data);
-          console.log('🎯 WORKBENCH: Opening artifact:', data.id);
-
-          // Track that an artifact was found for this message
-          artifactFoundRef.current.add(data.messageId);
-
-          workbenchStore.showWorkbench.set(true);
-          workbenchStore.addArtifact(data);
-        },
-        onArtifactClose: (data) => {
-          logger.trace('onArtifactClose');
-          workbenchStore.updateArtifact(data, { closed: true });
-        },
-        onActionOpen: (data) => {
-          logger.trace('onActionOpen', data.action);
-
-          // we only add shell actions when the close tag got parsed because only then we have the content
-          if (data.action.type !== 'shell') {
-            workbenchStore.addAction(data);
-          }
-        },
-        onActionClose: (data) => {
-          logger.trace('onActionClose', data.action);
-
-          if (data.action.type === 'shell') {
-            workbenchStore.addAction(data);
-          }
-
-          workbenchStore.runAction(data);
-        },
-      },
+      callbacks,
     })
   );
+  const toolCallTranslatorRef = useRef(new ToolCallTranslator(callbacks));
 
   const parseMessages = useCallback((messages: LegacyMessage[], isLoading: boolean) => {
 
@@ -71,8 +80,16 @@ export function useMessageParser() {
         const isLastMessage = index === messages.length - 1;
         const isStreamingMessage = isLoading && isLastMessage;
 
+        // tool calls are translated as soon as their input is complete, also for restored messages
+        const calledTools = toolCallTranslatorRef.current.translate(
+          message.id,
+          message.parts ?? [],
+          !isStreamingMessage,
+        );
+
         // Skip if we've already processed this complete message
         if (processedMessagesRef.current.has(message.id) && !isStreamingMessage) {
+          newParsedMessages[index] = finalContentRef.current[message.id];
           continue;
         }
 
@@ -120,7 +137,9 @@ export function useMessageParser() {
           const containsBoltArtifactTag = finalContent.includes('<boltArtifact');
 
           // If artifacts were found, show descriptive text plus code blocks
-          if (hasArtifacts) {
+          if (calledTools) {
+            finalContent = `${parsedContent}\n\n${createArtifactElement({ messageId: message.id })}`;
+          } else if (hasArtifacts) {
             finalContent = 'I\'ve created the files in the workbench. You can see the code and preview in the side panel.\n\n' + parsedContent;
           } else {
             finalContent = parsedContent;
@@ -137,6 +156,7 @@ export function useMessageParser() {
 
           // Mark message as fully processed
           processedMessagesRef.current.add(message.id);
+          finalContentRef.current[message.id] = finalContent;
         }
 
         newParsedMessages[index] = finalContent;
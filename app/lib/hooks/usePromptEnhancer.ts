@@ -1,4 +1,7 @@
 import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { handleUsageLimitError, loadUsageQuota } from '~/lib/stores/usage';
+import { auth } from '~/lib/supabase';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('usePromptEnhancement');
@@ -18,11 +21,22 @@ export function usePromptEnhancer() {
 
     const response = await fetch('/api/enhancer', {
       method: 'POST',
+      headers: await auth.getAuthHeaders(),
       body: JSON.stringify({
         message: input,
       }),
     });
 
+    if (!response.ok) {
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      const limitError = handleUsageLimitError(body);
+
+      toast.error(limitError?.error ?? body.error ?? 'Failed to enhance prompt');
+      resetEnhancer();
+
+      return;
+    }
+
     const reader = response.body?.getReader();
 
     const originalInput = input;
@@ -59,6 +73,7 @@ export function usePromptEnhancer() {
 
         setEnhancingPrompt(false);
         setPromptEnhanced(true);
+        loadUsageQuota();
 
         setTimeout(() => {
           setInput(_input);
@@ -0,0 +1,124 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, expect, it } from 'vitest';
+import { importKnowledgeFiles, MAX_ENTRY_LENGTH, splitContent } from './import';
+
+function paragraphs(count: number, length: number) {
+  return Array.from({ length: count }, (_, index) => `${index}`.padEnd(length, 'x')).join('\n\n');
+}
+
+describe('splitContent', () => {
+  it('should keep content within the limit whole', () => {
+    expect(splitContent('Short note.')).toEqual(['Short note.']);
+    expect(splitContent('a'.repeat(MAX_ENTRY_LENGTH))).toHaveLength(1);
+  });
+
+  it('should split long content at paragraph breaks', () => {
+    const content = paragraphs(30, 9_000);
+    const parts = splitContent(content);
+
+    expect(parts).toHaveLength(3);
+    expect(parts.every((part) => part.length <= MAX_ENTRY_LENGTH)).toBe(true);
+    expect(parts.every((part) => /^\d+x+$/.test(part.split('\n\n')[0]))).toBe(true);
+    expect(parts.join('\n\n')).toBe(content);
+  });
+
+  it('should cut content without paragraph breaks at the limit', () => {
+    const parts = splitContent('a'.repeat(MAX_ENTRY_LENGTH * 2 + 10));
+
+    expect(parts.map((part) => part.length)).toEqual([MAX_ENTRY_LENGTH, MAX_ENTRY_LENGTH, 10]);
+  });
+
+  it('should return no parts for empty content', () => {
+    expect(splitContent('')).toEqual([]);
+  });
+});
+
+describe('importKnowledgeFiles', () => {
+  it('should title Markdown files with their first heading', async () => {
+    const file = new File(['Intro\r\n\r\n\r\n\r\n# Brand voice  \r\nFriendly and direct.\r\n'], 'voice.md');
+    const { entries, failed } = await importKnowledgeFiles([file], ['brand']);
+
+    expect(failed).toEqual([]);
+    expect(entries).toEqual([
+      {
+        title: 'Brand voice',
+        content: 'Intro\n\n# Brand voice\nFriendly and direct.',
+        tags: ['brand'],
+        source: 'voice.md',
+      },
+    ]);
+  });
+
+  it('should fall back to the file name for titles', async () => {
+    const { entries } = await importKnowledgeFiles([
+      new File(['No heading here.'], 'support-hours.markdown'),
+      new File(['Plain text.'], 'notes.txt', { type: 'text/plain' }),
+    ]);
+
+    expect(entries.map(({ title }) => title)).toEqual(['support-hours', 'notes']);
+  });
+
+  it('should convert HTML to text with Markdown headings and lists', async () => {
+    const html = `<html>
+      <head><title>Pricing</title><style>p { color: red; }</style></head>
+      <body>
+        <h2>Plans</h2>
+        <p>The starter plan costs <strong>$12</strong> per month.<br>Annual billing saves 20%.</p>
+        <ul><li>Starter</li><li>Pro</li></ul>
+        <script>alert('ignored');</script>
+        <pre>npm  install
+  --save</pre>
+      </body>
+    </html>`;
+
+    const { entries } = await importKnowledgeFiles([new File([html], 'pricing.html', { type: 'text/html' })]);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].title).toBe('Pricing');
+    expect(entries[0].content).toBe(
+      [
+        '## Plans',
+        'The starter plan costs $12 per month.\nAnnual billing saves 20%.',
+        '- Starter',
+        '- Pro',
+        'npm  install\n  --save',
+      ].join('\n\n'),
+    );
+  });
+
+  it('should title HTML without a title element with its first heading', async () => {
+    const { entries } = await importKnowledgeFiles([new File(['<h1>Support</h1><p>Weekdays.</p>'], 'support.htm')]);
+
+    expect(entries[0]).toMatchObject({ title: 'Support', content: '# Support\n\nWeekdays.' });
+  });
+
+  it('should split long files into entries within the length limit', async () => {
+    const file = new File([paragraphs(30, 9_000)], 'handbook.txt');
+    const { entries } = await importKnowledgeFiles([file]);
+
+    expect(entries.map(({ title }) => title)).toEqual([
+      'handbook (part 1 of 3)',
+      'handbook (part 2 of 3)',
+      'handbook (part 3 of 3)',
+    ]);
+    expect(
+      entries.every(({ content, source }) => content.length <= MAX_ENTRY_LENGTH && source === 'handbook.txt'),
+    ).toBe(true);
+  });
+
+  it('should report files it cannot import and keep the others', async () => {
+    const { entries, failed } = await importKnowledgeFiles([
+      new File(['binary'], 'logo.png', { type: 'image/png' }),
+      new File(['   \n\n  '], 'empty.md'),
+      new File(['Kept.'], 'kept.txt'),
+    ]);
+
+    expect(entries.map(({ source }) => source)).toEqual(['kept.txt']);
+    expect(failed).toEqual([
+      { name: 'logo.png', error: 'Unsupported file type. Import Markdown, text, PDF or HTML files.' },
+      { name: 'empty.md', error: 'No text found. Scanned PDFs need OCR first.' },
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+import type { KnowledgeEntryDraft } from '~/lib/stores/knowledge-base';
+
+// keep in sync with the `knowledge_entries_content_length` constraint; longer files become several entries
+export const MAX_ENTRY_LENGTH = 100_000;
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+export const KNOWLEDGE_IMPORT_ACCEPT = '.md,.markdown,.txt,.text,.pdf,.html,.htm';
+
+type ImportFormat = 'markdown' | 'text' | 'pdf' | 'html';
+
+const FORMATS: Record<string, ImportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+  text: 'text',
+  pdf: 'pdf',
+  html: 'html',
+  htm: 'html',
+};
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'DD',
+  'DIV',
+  'DL',
+  'DT',
+  'FIGCAPTION',
+  'FOOTER',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'LI',
+  'MAIN',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'TABLE',
+  'TR',
+  'UL',
+]);
+
+export interface ImportResult {
+  entries: KnowledgeEntryDraft[];
+
+  /** files that couldn't be imported, with the reason */
+  failed: Array<{ name: string; error: string }>;
+}
+
+function getFormat(file: File): ImportFormat | undefined {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+
+  if (FORMATS[extension]) {
+    return FORMATS[extension];
+  }
+
+  if (file.type === 'application/pdf') {
+    return 'pdf';
+  }
+
+  if (file.type === 'text/html') {
+    return 'html';
+  }
+
+  return file.type.startsWith('text/') ? 'text' : undefined;
+}
+
+function getBaseName(name: string) {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+function normalizeWhitespace(text: string) {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseMarkdown(text: string, fileName: string) {
+  const heading = text.match(/^#\s+(.+)$/m)?.[1]?.trim();
+
+  return { title: heading || getBaseName(fileName), content: normalizeWhitespace(text) };
+}
+
+// collects the text of an element, with blank lines between blocks and markdown-style headings
+function collectText(node: Node, blocks: string[], current: { text: string }) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    current.text += node.textContent?.replace(/\s+/g, ' ') ?? '';
+    return;
+  }
+
+  if (!(node instanceof Element)) {
+    return;
+  }
+
+  // svg elements keep their lowercase tag name
+  const tag = node.tagName.toUpperCase();
+
+  if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG'].includes(tag)) {
+    return;
+  }
+
+  if (tag === 'BR') {
+    current.text += '\n';
+    return;
+  }
+
+  const isBlock = BLOCK_TAGS.has(tag);
+
+  const flush = () => {
+    if (current.text.trim()) {
+      blocks.push(current.text.trim());
+    }
+
+    current.text = '';
+  };
+
+  if (isBlock) {
+    flush();
+
+    const level = /^H([1-6])$/.exec(tag)?.[1];
+
+    if (level) {
+      current.text = `${'#'.repeat(Number(level))} `;
+    } else if (tag === 'LI') {
+      current.text = '- ';
+    }
+  }
+
+  if (tag === 'PRE') {
+    current.text += node.textContent ?? '';
+  } else {
+    node.childNodes.forEach((child) => collectText(child, blocks, current));
+  }
+
+  if (isBlock) {
+    flush();
+  }
+}
+
+function parseHtml(html: string, fileName: string) {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const blocks: string[] = [];
+
+  collectText(document.body, blocks, { text: '' });
+
+  const title = document.title.trim() || document.querySelector('h1')?.textContent?.trim() || getBaseName(fileName);
+
+  return { title, content: normalizeWhitespace(blocks.join('\n\n')) };
+}
+
+async function parsePdf(data: ArrayBuffer, fileName: string) {
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerSrc } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const pages: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { items } = await page.getTextContent();
+
+      pages.push(items.map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join(''));
+    }
+
+    const { info } = await pdf.getMetadata();
+    const title = (info as { Title?: unknown } | undefined)?.Title;
+
+    return {
+      title: typeof title === 'string' && title.trim() ? title.trim() : getBaseName(fileName),
+      content: normalizeWhitespace(pages.join('\n\n')),
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Splits text longer than `MAX_ENTRY_LENGTH` at paragraph breaks, so a long document becomes
+ * several entries instead of being cut off.
+ */
+export function splitContent(content: string) {
+  const parts: string[] = [];
+  let rest = content;
+
+  while (rest.length > MAX_ENTRY_LENGTH) {
+    const cut = rest.lastIndexOf('\n\n', MAX_ENTRY_LENGTH);
+    const end = cut > MAX_ENTRY_LENGTH / 2 ? cut : MAX_ENTRY_LENGTH;
+
+    parts.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+
+  return rest ? [...parts, rest] : parts;
+}
+
+async function parseFile(file: File) {
+  const format = getFormat(file);
+
+  if (!format) {
+    throw new Error('Unsupported file type. Import Markdown, text, PDF or HTML files.');
+  }
+
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`File is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+
+  if (format === 'pdf') {
+    return parsePdf(await file.arrayBuffer(), file.name);
+  }
+
+  const text = await file.text();
+
+  if (format === 'html') {
+    return parseHtml(text, file.name);
+  }
+
+  if (format === 'markdown') {
+    return parseMarkdown(text, file.name);
+  }
+
+  return { title: getBaseName(file.name), content: normalizeWhitespace(text) };
+}
+
+/**
+ * Parses files in the browser into knowledge base entries tagged with `tags`. Files that can't be
+ * parsed or contain no text are reported instead of failing the whole import.
+ */
+export async function importKnowledgeFiles(files: File[], tags: string[] = []): Promise<ImportResult> {
+  const result: ImportResult = { entries: [], failed: [] };
+
+  for (const file of files) {
+    try {
+      const { title, content } = await parseFile(file);
+
+      if (!content) {
+        result.failed.push({ name: file.name, error: 'No text found. Scanned PDFs need OCR first.' });
+        continue;
+      }
+
+      const parts = splitContent(content);
+
+      parts.forEach((part, index) => {
+        result.entries.push({
+          title: parts.length > 1 ? `${title} (part ${index + 1} of ${parts.length})` : title,
+          content: part,
+          tags,
+          source: file.name,
+        });
+      });
+    } catch (error) {
+      console.warn(`[knowledge-base] Failed to import ${file.name}`, error);
+      result.failed.push({ name: file.name, error: error instanceof Error ? error.message : 'Failed to read file' });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getPendingRows,
+  markPushed,
+  mergeRemoteCollections,
+  mergeRemoteEntries,
+  type KnowledgeCollectionRow,
+  type KnowledgeEntryRow,
+} from './sync';
+import type { KnowledgeBaseEntry, KnowledgeBaseState } from '~/lib/stores/knowledge-base';
+
+function entry(id: string, updatedAt: string, title = id): KnowledgeBaseEntry {
+  return { id, title, content: '', tags: [], createdAt: updatedAt, updatedAt };
+}
+
+function row(id: string, updatedAt: string, overrides: Partial<KnowledgeEntryRow> = {}): KnowledgeEntryRow {
+  return {
+    id,
+    user_id: 'user',
+    title: `remote ${id}`,
+    content: '',
+    tags: ['remote'],
+    source: null,
+    collection_id: null,
+    created_at: updatedAt,
+    updated_at: updatedAt,
+    deleted_at: null,
+    synced_at: updatedAt,
+    ...overrides,
+  };
+}
+
+const emptyState: KnowledgeBaseState = {
+  entries: [],
+  collections: [],
+  deleted: {},
+  deletedCollections: {},
+  pending: [],
+};
+
+describe('mergeRemoteEntries', () => {
+  it('should apply remote changes to entries without local changes', () => {
+    const state: KnowledgeBaseState = {
+      ...emptyState,
+      entries: [entry('a', '2026-01-01T00:00:00.000Z')],
+    };
+
+    const merged = mergeRemoteEntries(state, [
+      row('a', '2026-01-02T00:00:00+00:00'),
+      row('b', '2026-01-03T00:00:00+00:00'),
+    ]);
+
+    expect(merged.entries.map(({ id, title }) => [id, title])).toEqual([
+      ['a', 'remote a'],
+      ['b', 'remote b'],
+    ]);
+    expect(merged.syncedAt).toBe('2026-01-03T00:00:00.000Z');
+  });
+
+  it('should keep the newer edit when both sides changed', () => {
+    const state: KnowledgeBaseState = {
+      ...emptyState,
+      entries: [entry('a', '2026-01-05T00:00:00.000Z', 'local a'), entry('b', '2026-01-01T00:00:00.000Z', 'local b')],
+      pending: ['a', 'b'],
+    };
+
+    const merged = mergeRemoteEntries(state, [
+      row('a', '2026-01-02T00:00:00+00:00'),
+      row('b', '2026-01-02T00:00:00+00:00'),
+    ]);
+
+    expect(merged.entries.map(({ title }) => title)).toEqual(['local a', 'remote b']);
+    expect(merged.pending).toEqual(['a']);
+  });
+
+  it('should apply remote deletions and keep newer local edits over them', () => {
+    const state: KnowledgeBaseState = {
+      ...emptyState,
+      entries: [entry('a', '2026-01-01T00:00:00.000Z'), entry('b', '2026-01-05T00:00:00.000Z')],
+      pending: ['b'],
+    };
+
+    const merged = mergeRemoteEntries(state, [
+      row('a', '2026-01-02T00:00:00+00:00', { deleted_at: '2026-01-02T00:00:00+00:00' }),
+      row('b', '2026-01-02T00:00:00+00:00', { deleted_at: '2026-01-02T00:00:00+00:00' }),
+    ]);
+
+    expect(merged.entries.map(({ id }) => id)).toEqual(['b']);
+  });
+});
+
+describe('mergeRemoteCollections', () => {
+  it('should apply remote collections with their own sync cursor', () => {
+    const collectionRow: KnowledgeCollectionRow = {
+      id: 'c',
+      user_id: 'user',
+      name: 'Project',
+      created_at: '2026-01-02T00:00:00+00:00',
+      updated_at: '2026-01-02T00:00:00+00:00',
+      deleted_at: null,
+      synced_at: '2026-01-02T00:00:00+00:00',
+    };
+
+    const merged = mergeRemoteCollections({ ...emptyState, syncedAt: '2026-01-05T00:00:00.000Z' }, [collectionRow]);
+
+    expect(merged.collections).toMatchObject([{ id: 'c', name: 'Project' }]);
+    expect(merged.collectionsSyncedAt).toBe('2026-01-02T00:00:00.000Z');
+    expect(merged.syncedAt).toBe('2026-01-05T00:00:00.000Z');
+  });
+});
+
+describe('getPendingRows', () => {
+  it('should send changed entries and tombstones without content', () => {
+    const state: KnowledgeBaseState = {
+      ...emptyState,
+      entries: [entry('a', '2026-01-01T00:00:00.000Z')],
+      deleted: { b: '2026-01-02T00:00:00.000Z' },
+      pending: ['a', 'b'],
+    };
+
+    expect(getPendingRows(state, 'user').entries).toMatchObject([
+      { id: 'a', user_id: 'user', title: 'a', deleted_at: null },
+      { id: 'b', user_id: 'user', title: '', content: '', deleted_at: '2026-01-02T00:00:00.000Z' },
+    ]);
+  });
+
+  it('should send collections and their deletions apart from entries', () => {
+    const state: KnowledgeBaseState = {
+      ...emptyState,
+      entries: [{ ...entry('a', '2026-01-01T00:00:00.000Z'), collectionId: 'c' }],
+      collections: [
+        { id: 'c', name: 'Project', createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' },
+      ],
+      deletedCollections: { d: '2026-01-02T00:00:00.000Z' },
+      pending: ['a', 'c', 'd'],
+    };
+
+    const rows = getPendingRows(state, 'user');
+
+    expect(rows.entries).toMatchObject([{ id: 'a', collection_id: 'c' }]);
+    expect(rows.collections).toMatchObject([
+      { id: 'c', name: 'Project', deleted_at: null },
+      { id: 'd', name: '', deleted_at: '2026-01-02T00:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('markPushed', () => {
+  it('should keep entries edited while they were pushed pending', () => {
+    const pushed: KnowledgeBaseState = {
+      ...emptyState,
+      entries: [entry('a', '2026-01-01T00:00:00.000Z'), entry('b', '2026-01-01T00:00:00.000Z')],
+      deleted: { c: '2026-01-01T00:00:00.000Z' },
+      pending: ['a', 'b', 'c'],
+    };
+
+    const current: KnowledgeBaseState = {
+      ...pushed,
+      entries: [entry('a', '2026-01-01T00:00:00.000Z'), entry('b', '2026-01-02T00:00:00.000Z')],
+    };
+
+    expect(markPushed(current, pushed)).toMatchObject({ pending: ['b'], deleted: {} });
+  });
+});
@@ -0,0 +1,274 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { KnowledgeBaseEntry, KnowledgeBaseState, KnowledgeCollection } from '~/lib/stores/knowledge-base';
+
+export const ENTRIES_TABLE = 'knowledge_entries';
+export const COLLECTIONS_TABLE = 'knowledge_collections';
+
+type KnowledgeTable = typeof ENTRIES_TABLE | typeof COLLECTIONS_TABLE;
+
+// rows pulled per request
+const PAGE_SIZE = 500;
+
+const MIGRATIONS: Record<KnowledgeTable, string> = {
+  [ENTRIES_TABLE]: '004_knowledge_entries.sql',
+  [COLLECTIONS_TABLE]: '005_knowledge_collections.sql',
+};
+
+/** columns shared by the synced tables */
+interface SyncedRow {
+  id: string;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  synced_at: string;
+}
+
+/** a row of `public.knowledge_entries`, see `supabase/migrations/004_knowledge_entries.sql` */
+export interface KnowledgeEntryRow extends SyncedRow {
+  title: string;
+  content: string;
+  tags: string[];
+  source: string | null;
+  collection_id: string | null;
+}
+
+/** a row of `public.knowledge_collections`, see `supabase/migrations/005_knowledge_collections.sql` */
+export interface KnowledgeCollectionRow extends SyncedRow {
+  name: string;
+}
+
+type PushedRow<Row extends SyncedRow> = Omit<Row, 'synced_at'>;
+
+function time(timestamp: string) {
+  return new Date(timestamp).getTime();
+}
+
+function toIso(timestamp: string) {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Applies pulled rows to local items. Each item resolves on its own: the newest edit wins, so a
+ * local change that isn't synced yet survives an older remote one and is pushed next. Deletions
+ * are tombstones, compared like edits. Resolved ids are removed from `pending`.
+ */
+function mergeRows<Item extends { id: string; updatedAt: string }, Row extends SyncedRow>(
+  localItems: Item[],
+  localDeleted: Record<string, string>,
+  pending: Set<string>,
+  localSyncedAt: string | undefined,
+  rows: Row[],
+  toItem: (row: Row) => Item,
+) {
+  const items = new Map(localItems.map((item) => [item.id, item]));
+  const deleted = { ...localDeleted };
+  let syncedAt = localSyncedAt;
+
+  for (const row of rows) {
+    if (!syncedAt || time(row.synced_at) > time(syncedAt)) {
+      syncedAt = toIso(row.synced_at);
+    }
+
+    const localChange = items.get(row.id)?.updatedAt ?? deleted[row.id];
+
+    if (pending.has(row.id) && localChange && time(localChange) >= time(row.updated_at)) {
+      continue;
+    }
+
+    pending.delete(row.id);
+    delete deleted[row.id];
+
+    if (row.deleted_at) {
+      items.delete(row.id);
+    } else {
+      items.set(row.id, toItem(row));
+    }
+  }
+
+  return { items: [...items.values()], deleted, syncedAt };
+}
+
+/** Applies entries pulled from Supabase to the local state, see `mergeRows`. */
+export function mergeRemoteEntries(state: KnowledgeBaseState, rows: KnowledgeEntryRow[]): KnowledgeBaseState {
+  const pending = new Set(state.pending);
+
+  const { items, deleted, syncedAt } = mergeRows(
+    state.entries,
+    state.deleted,
+    pending,
+    state.syncedAt,
+    rows,
+    (row): KnowledgeBaseEntry => ({
+      id: row.id,
+      title: row.title,
+      content: row.content,
+      tags: row.tags ?? [],
+      source: row.source ?? undefined,
+      collectionId: row.collection_id ?? undefined,
+      createdAt: toIso(row.created_at),
+      updatedAt: toIso(row.updated_at),
+    }),
+  );
+
+  return { ...state, entries: items, deleted, pending: [...pending], syncedAt };
+}
+
+/** Applies collections pulled from Supabase to the local state, see `mergeRows`. */
+export function mergeRemoteCollections(state: KnowledgeBaseState, rows: KnowledgeCollectionRow[]): KnowledgeBaseState {
+  const pending = new Set(state.pending);
+
+  const { items, deleted, syncedAt } = mergeRows(
+    state.collections,
+    state.deletedCollections,
+    pending,
+    state.collectionsSyncedAt,
+    rows,
+    (row): KnowledgeCollection => ({
+      id: row.id,
+      name: row.name,
+      createdAt: toIso(row.created_at),
+      updatedAt: toIso(row.updated_at),
+    }),
+  );
+
+  return {
+    ...state,
+    collections: items,
+    deletedCollections: deleted,
+    pending: [...pending],
+    collectionsSyncedAt: syncedAt,
+  };
+}
+
+function toTombstone(id: string, userId: string, deletedAt: string) {
+  return { id, user_id: userId, created_at: deletedAt, updated_at: deletedAt, deleted_at: deletedAt };
+}
+
+/**
+ * Rows for the local changes that haven't been pushed yet. Deleted entries are sent without
+ * their content.
+ */
+export function getPendingRows(state: KnowledgeBaseState, userId: string) {
+  const entries: Array<PushedRow<KnowledgeEntryRow>> = [];
+  const collections: Array<PushedRow<KnowledgeCollectionRow>> = [];
+
+  for (const id of state.pending) {
+    const entry = state.entries.find((candidate) => candidate.id === id);
+    const collection = state.collections.find((candidate) => candidate.id === id);
+
+    if (entry) {
+      entries.push({
+        id,
+        user_id: userId,
+        title: entry.title,
+        content: entry.content,
+        tags: entry.tags,
+        source: entry.source ?? null,
+        collection_id: entry.collectionId ?? null,
+        created_at: entry.createdAt,
+        updated_at: entry.updatedAt,
+        deleted_at: null,
+      });
+    } else if (collection) {
+      collections.push({
+        id,
+        user_id: userId,
+        name: collection.name,
+        created_at: collection.createdAt,
+        updated_at: collection.updatedAt,
+        deleted_at: null,
+      });
+    } else if (state.deleted[id]) {
+      entries.push({
+        ...toTombstone(id, userId, state.deleted[id]),
+        title: '',
+        content: '',
+        tags: [],
+        source: null,
+        collection_id: null,
+      });
+    } else if (state.deletedCollections[id]) {
+      collections.push({ ...toTombstone(id, userId, state.deletedCollections[id]), name: '' });
+    }
+  }
+
+  return { entries, collections };
+}
+
+/**
+ * Clears the changes in `pushed` from the pending list, unless they were edited again while
+ * they were pushed.
+ */
+export function markPushed(state: KnowledgeBaseState, pushed: KnowledgeBaseState): KnowledgeBaseState {
+  const findVersion = (snapshot: KnowledgeBaseState, id: string) =>
+    snapshot.entries.find((entry) => entry.id === id)?.updatedAt ??
+    snapshot.collections.find((collection) => collection.id === id)?.updatedAt ??
+    snapshot.deleted[id] ??
+    snapshot.deletedCollections[id];
+
+  const pending = state.pending.filter((id) => findVersion(state, id) !== findVersion(pushed, id));
+  const keepPending = ([id]: [string, string]) => pending.includes(id);
+
+  return {
+    ...state,
+    pending,
+    deleted: Object.fromEntries(Object.entries(state.deleted).filter(keepPending)),
+    deletedCollections: Object.fromEntries(Object.entries(state.deletedCollections).filter(keepPending)),
+  };
+}
+
+function describeError(table: KnowledgeTable, error: { message?: string; code?: string }) {
+  // undefined_table and undefined_column
+  if (error.code === '42P01' || error.code === '42703' || error.message?.includes('does not exist')) {
+    return `Knowledge sync is not set up. Run the Supabase migration at supabase/migrations/${MIGRATIONS[table]}`;
+  }
+
+  return error.message ?? 'Unknown error';
+}
+
+/** Fetches the rows the server stored after `since`, oldest first. */
+export async function pullKnowledgeRows<Row extends SyncedRow>(
+  supabase: SupabaseClient,
+  table: KnowledgeTable,
+  userId: string,
+  since?: string,
+) {
+  const rows: Row[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from(table).select('*').eq('user_id', userId);
+
+    if (since) {
+      query = query.gt('synced_at', since);
+    }
+
+    const { data, error } = await query.order('synced_at', { ascending: true }).range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(describeError(table, error));
+    }
+
+    rows.push(...(data as Row[]));
+
+    if (data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+export async function pushKnowledgeRows(
+  supabase: SupabaseClient,
+  table: KnowledgeTable,
+  rows: Array<PushedRow<SyncedRow>>,
+) {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.from(table).upsert(rows, { onConflict: 'user_id,id' });
+
+  if (error) {
+    throw new Error(describeError(table, error));
+  }
+}
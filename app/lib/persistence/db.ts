@@ -115,6 +115,8 @@ export async function setMessages(
   urlId?: string,
   description?: string,
   userId?: string,
+  model?: string,
+  knowledgeCollections?: string[],
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('chats', 'readwrite');
@@ -127,6 +129,8 @@ export async function setMessages(
       description,
       timestamp: new Date().toISOString(),
       userId,
+      model,
+      knowledgeCollections,
     });
 
     request.onsuccess = () => resolve();
@@ -1,3 +1,10 @@
 export { openDatabase, getMessages, setMessages, deleteById, getUrlId, getNextId, clearAllChats, getAll, getAllByUser, migrateChatsToUser, clearChatsByUser } from './db';
 export type { ChatHistoryItem } from './useChatHistory';
-export { useChatHistory, chatId, description, currentUserId } from './useChatHistory';
+export {
+  useChatHistory,
+  chatId,
+  description,
+  currentUserId,
+  chatModel,
+  chatKnowledgeCollections,
+} from './useChatHistory';
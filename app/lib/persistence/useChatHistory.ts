@@ -13,6 +13,10 @@ export interface ChatHistoryItem {
   messages: UIMessage[];
   timestamp: string;
   userId?: string; // Add user ID for isolation
+  model?: string;
+
+  /** ids of the knowledge collections attached to the chat */
+  knowledgeCollections?: string[];
 }
 
 const persistenceEnabled = !import.meta.env.VITE_DISABLE_PERSISTENCE;
@@ -32,6 +36,12 @@ export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const currentUserId = atom<string | undefined>(undefined);
 
+// model selector picked for the current chat, stored alongside its messages
+export const chatModel = atom<string | undefined>(undefined);
+
+// knowledge collections attached to the current chat, stored alongside its messages
+export const chatKnowledgeCollections = atom<string[]>([]);
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const loaderData = useLoaderData<{ id?: string }>();
@@ -74,6 +84,8 @@ export function useChatHistory() {
             setInitialMessages(storedMessages.messages || []);
             setUrlId(storedMessages.urlId);
             description.set(storedMessages.description);
+            chatModel.set(storedMessages.model);
+            chatKnowledgeCollections.set(storedMessages.knowledgeCollections ?? []);
             chatId.set(storedMessages.id);
             setReady(true);
           } else {
@@ -130,7 +142,16 @@ export function useChatHistory() {
         description.set(firstArtifact?.title);
       }
 
-      await setMessages(db, currentChatId, messages, finalUrlId, description.get(), currentUserId.get());
+      await setMessages(
+        db,
+        currentChatId,
+        messages,
+        finalUrlId,
+        description.get(),
+        currentUserId.get(),
+        chatModel.get(),
+        chatKnowledgeCollections.get(),
+      );
     },
   };
 }
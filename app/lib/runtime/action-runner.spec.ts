@@ -0,0 +1,153 @@
+import type { WebContainer } from '@webcontainer/api';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionRunner, MAX_COMMAND_OUTPUT_LENGTH } from './action-runner';
+import type { ActionCallbackData } from './message-parser';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { BoltAction } from '~/types/actions';
+
+vi.mock('~/lib/stores/workbench', () => ({
+  workbenchStore: {
+    files: { get: () => ({}) },
+    filesStore: { startDevServer: vi.fn(async () => undefined) },
+  },
+}));
+
+vi.mock('~/lib/webcontainer', () => ({
+  webcontainerContext: { ready: true },
+}));
+
+const startDevServer = vi.mocked(workbenchStore.filesStore.startDevServer);
+
+function createWebContainer(exitCode = 0, output = ['done\n']) {
+  const spawn = vi.fn(async () => ({
+    output: new ReadableStream<string>({
+      start(controller) {
+        output.forEach((chunk) => controller.enqueue(chunk));
+        controller.close();
+      },
+    }),
+    exit: Promise.resolve(exitCode),
+    kill: vi.fn(),
+  }));
+
+  return { webcontainer: { workdir: '/home/project', spawn } as unknown as WebContainer, spawn };
+}
+
+let actionCount = 0;
+
+async function run(runner: ActionRunner, action: BoltAction) {
+  const data: ActionCallbackData = {
+    artifactId: 'artifact',
+    messageId: 'message',
+    actionId: `action-${actionCount++}`,
+    action,
+  };
+
+  runner.addAction(data);
+  await runner.runAction(data);
+
+  await vi.waitFor(() => {
+    expect(['complete', 'failed', 'aborted']).toContain(runner.actions.get()[data.actionId].status);
+  });
+
+  return runner.actions.get()[data.actionId];
+}
+
+beforeEach(() => {
+  startDevServer.mockReset();
+  startDevServer.mockResolvedValue(undefined);
+});
+
+describe('start actions', () => {
+  it('should hand the cleaned command to the FilesStore', async () => {
+    const { webcontainer, spawn } = createWebContainer();
+    const runner = new ActionRunner(Promise.resolve(webcontainer));
+
+    const action = await run(runner, { type: 'start', content: '\n  npm run   dev\n</boltAction>' });
+
+    expect(action.status).toBe('complete');
+    expect(startDevServer).toHaveBeenCalledWith('npm run dev', action.abortSignal);
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the dev server does not start', async () => {
+    startDevServer.mockRejectedValue(new Error('The dev server exited with code 1'));
+
+    const runner = new ActionRunner(Promise.resolve(createWebContainer().webcontainer));
+    const action = await run(runner, { type: 'start', content: 'npm run dev' });
+
+    expect(action).toMatchObject({ status: 'failed', error: 'The dev server exited with code 1' });
+  });
+
+  it('should fail without a command', async () => {
+    const runner = new ActionRunner(Promise.resolve(createWebContainer().webcontainer));
+    const action = await run(runner, { type: 'start', content: '  ' });
+
+    expect(action).toMatchObject({ status: 'failed', error: 'The start action has no command.' });
+    expect(startDevServer).not.toHaveBeenCalled();
+  });
+});
+
+describe('shell actions', () => {
+  it('should run the setup and hand a trailing dev server to the FilesStore', async () => {
+    const { webcontainer, spawn } = createWebContainer();
+    const runner = new ActionRunner(Promise.resolve(webcontainer));
+
+    const action = await run(runner, { type: 'shell', content: 'npm install && npm run dev' });
+
+    expect(action.status).toBe('complete');
+    expect(spawn).toHaveBeenCalledTimes(1);
+    expect(spawn).toHaveBeenCalledWith('/bin/jsh', ['-c', 'cd /home/project && pnpm install'], expect.anything());
+    expect(startDevServer).toHaveBeenCalledWith('npm run dev', action.abortSignal);
+  });
+
+  it('should not spawn a lone dev server command', async () => {
+    const { webcontainer, spawn } = createWebContainer();
+    const runner = new ActionRunner(Promise.resolve(webcontainer));
+
+    await run(runner, { type: 'shell', content: 'npm run dev' });
+
+    expect(spawn).not.toHaveBeenCalled();
+    expect(startDevServer).toHaveBeenCalledWith('npm run dev', expect.any(AbortSignal));
+  });
+
+  it('should not start the dev server when the setup fails', async () => {
+    const runner = new ActionRunner(Promise.resolve(createWebContainer(1).webcontainer));
+    const action = await run(runner, { type: 'shell', content: 'npm install && npm run dev' });
+
+    expect(action.status).toBe('failed');
+    expect(startDevServer).not.toHaveBeenCalled();
+  });
+
+  it('should run commands that finish as they are', async () => {
+    const { webcontainer, spawn } = createWebContainer();
+    const runner = new ActionRunner(Promise.resolve(webcontainer));
+
+    await run(runner, { type: 'shell', content: 'pnpm run build' });
+
+    expect(spawn).toHaveBeenCalledWith('/bin/jsh', ['-c', 'pnpm run build'], expect.anything());
+    expect(startDevServer).not.toHaveBeenCalled();
+  });
+
+  it('should fail on a non-zero exit code and keep the result', async () => {
+    const output = ['\x1b[31mnpm ERR!\x1b[0m missing script: lint\n'];
+    const runner = new ActionRunner(Promise.resolve(createWebContainer(1, output).webcontainer));
+    const action = await run(runner, { type: 'shell', content: 'pnpm run lint' });
+
+    expect(action).toMatchObject({
+      status: 'failed',
+      error: '`pnpm run lint` exited with code 1',
+      result: { exitCode: 1, output: 'npm ERR! missing script: lint', truncated: false },
+    });
+  });
+
+  it('should keep the end of long output', async () => {
+    const output = Array.from({ length: 2_000 }, (_, index) => `line ${index}\n`);
+    const runner = new ActionRunner(Promise.resolve(createWebContainer(0, output).webcontainer));
+    const { result } = await run(runner, { type: 'shell', content: 'pnpm run build' });
+
+    expect(result?.truncated).toBe(true);
+    expect(result?.output).toHaveLength(MAX_COMMAND_OUTPUT_LENGTH);
+    expect(result?.output.endsWith('line 1999')).toBe(true);
+  });
+});
@@ -5,24 +5,45 @@ import { absInWorkdir, relToWorkdir } from '~/lib/webcontainer/path';
 import type { BoltAction } from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import { getStartCommand, splitDevServerCommand } from './dev-server';
 import type { ActionCallbackData } from './message-parser';
 import type { TerminalStore } from '~/lib/stores/terminal';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { webcontainerContext } from '~/lib/webcontainer';
+import { WORK_DIR } from '~/utils/constants';
+import { applyUnifiedDiff, describeRejectedHunks } from '~/utils/diff';
 import { extractCode, safeJsonParse } from '~/utils/sanitize';
+import { applySearchReplaceBlocks, parseSearchReplaceBlocks } from '~/utils/search-replace';
+import { getOutputTail } from '~/utils/terminal';
 
 const logger = createScopedLogger('ActionRunner');
 
 // Reduce log noise in fallback mode
 let webContainerUnavailableLogged = false;
 
+// characters of a shell command's output kept in its result, counted from the end
+export const MAX_COMMAND_OUTPUT_LENGTH = 8000;
+
 export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
 
+/** how a shell action's command finished */
+export interface CommandResult {
+  exitCode: number;
+
+  /** the end of the combined stdout and stderr, as plain text */
+  output: string;
+
+  /** whether the beginning of the output was cut to `MAX_COMMAND_OUTPUT_LENGTH` */
+  truncated: boolean;
+  durationMs: number;
+}
+
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
   abort: () => void;
   executed: boolean;
   abortSignal: AbortSignal;
+  result?: CommandResult;
 };
 
 export type FailedActionState = BoltAction &
@@ -33,7 +54,7 @@ export type FailedActionState = BoltAction &
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed' | 'result'>>;
 
 export type ActionStateUpdate =
   | BaseActionUpdate
@@ -75,45 +96,6 @@ export class ActionRunner {
     }
   }
 
-  /**
-   * Build a dev command (executable + args only) with framework-aware fallback.
-   * Caller is responsible for adding `cd <projectRootAbs> &&` if needed.
-   */
-  #buildDevCommand(projectRootAbs: string): string {
-    try {
-      const files = workbenchStore.files.get();
-      const pkgEntry = Object.entries(files).find(
-        ([filePath, dirent]) => dirent?.type === 'file' && this.#isPackageJsonPath(filePath),
-      );
-      const pkgContent = pkgEntry && pkgEntry[1]?.type === 'file' ? pkgEntry[1].content : '{}';
-      const pkg = JSON.parse(pkgContent);
-      const hasDev = Boolean(pkg?.scripts?.dev);
-      const deps = { ...(pkg?.dependencies || {}), ...(pkg?.devDependencies || {}) } as Record<string, string>;
-      const hasVite = typeof deps['vite'] === 'string';
-      const hasNext = typeof deps['next'] === 'string';
-
-      if (hasDev) {
-        if (hasVite) {
-          return `pnpm run dev || pnpm exec vite`;
-        }
-        if (hasNext) {
-          return `pnpm run dev || pnpm exec next dev`;
-        }
-        return `pnpm run dev`;
-      }
-      if (hasVite) {
-        return `pnpm exec vite`;
-      }
-      if (hasNext) {
-        return `pnpm exec next dev`;
-      }
-      // Unknown framework - attempt dev anyway
-      return `pnpm run dev`;
-    } catch {
-      return `pnpm run dev`;
-    }
-  }
-
   actions: ActionsMap = map({});
 
   constructor(webcontainerPromise: Promise<WebContainer>, terminalStore?: TerminalStore) {
@@ -181,14 +163,13 @@ export class ActionRunner {
     try {
       switch (action.type) {
         case 'shell': {
-          const isDevServerCommand = this.#isDevServerCommand(action.content);
-          await this.#runShellAction(action);
-          
-          // Only update status here for non-dev-server commands
-          // Dev server commands handle their own status updates
-          if (!isDevServerCommand) {
-            this.#updateAction(actionId, { status: action.abortSignal.aborted ? 'aborted' : 'complete' });
-          }
+          await this.#runShellAction(actionId, action);
+          this.#updateAction(actionId, { status: action.abortSignal.aborted ? 'aborted' : 'complete' });
+          break;
+        }
+        case 'start': {
+          await this.#runStartAction(action);
+          this.#updateAction(actionId, { status: action.abortSignal.aborted ? 'aborted' : 'complete' });
           break;
         }
         case 'file': {
@@ -196,59 +177,83 @@ export class ActionRunner {
           this.#updateAction(actionId, { status: action.abortSignal.aborted ? 'aborted' : 'complete' });
           break;
         }
+        case 'patch': {
+          await this.#runPatchAction(action);
+          this.#updateAction(actionId, { status: 'complete' });
+          break;
+        }
+        case 'replace': {
+          await this.#runReplaceAction(action);
+          this.#updateAction(actionId, { status: 'complete' });
+          break;
+        }
+        case 'delete': {
+          await workbenchStore.filesStore.deletePath(this.#resolveActionPath(action.filePath));
+          this.#updateAction(actionId, { status: 'complete' });
+          break;
+        }
+        case 'rename': {
+          await workbenchStore.filesStore.renamePath(
+            this.#resolveActionPath(action.from),
+            this.#resolveActionPath(action.to),
+          );
+          this.#updateAction(actionId, { status: 'complete' });
+          break;
+        }
+        case 'mkdir': {
+          await workbenchStore.filesStore.createFolder(this.#resolveActionPath(action.filePath));
+          this.#updateAction(actionId, { status: 'complete' });
+          break;
+        }
       }
     } catch (error: any) {
-      this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+      this.#updateAction(actionId, {
+        status: 'failed',
+        error: error instanceof Error && error.message ? error.message : 'Action failed',
+      });
 
       // re-throw the error to be caught in the promise chain
       throw error;
     }
   }
 
-  async #runShellAction(action: ActionState) {
+  /**
+   * Runs the command of a shell action. A dev server command at its end is handed to the
+   * `FilesStore` like a start action, since it never exits and would block the actions after it.
+   */
+  async #runShellAction(actionId: string, action: ActionState) {
     if (action.type !== 'shell') {
       unreachable('Expected shell action');
     }
 
-    const actionId = Object.keys(this.actions.get()).find((id) => this.actions.get()[id] === action);
-    const isDevServerCommandOriginal = this.#isDevServerCommand(action.content);
-
-    if (isDevServerCommandOriginal) {
-      logger.info('⚙️ Delegating dev server command to FilesStore bootstrap');
-
-      if (action.abortSignal.aborted) {
-        if (actionId) {
-          this.#updateAction(actionId, { status: 'aborted' });
-        }
-        return;
-      }
-
-      // Avoid cascading retries; rely on FilesStore to guard the call
-      workbenchStore.filesStore?.tryBootstrap?.();
+    const { setup, devServer } = splitDevServerCommand(action.content);
 
-      if (actionId) {
-        const status = action.abortSignal.aborted ? 'aborted' : 'complete';
-        this.#updateAction(actionId, { status });
-      }
+    if (setup) {
+      await this.#runCommand(actionId, action, setup);
+    }
 
-      return;
+    if (devServer && !action.abortSignal.aborted) {
+      logger.info(`Starting the dev server for shell command: ${devServer}`);
+      await workbenchStore.filesStore.startDevServer(devServer, action.abortSignal);
     }
+  }
 
-    // Gate non-dev-server shell commands when WebContainer isn't ready
+  /**
+   * Runs a command and records its exit code, output and duration in the action's `result`. A
+   * non-zero exit code fails the action.
+   */
+  async #runCommand(actionId: string, action: ActionState, command: string) {
+    // gate shell commands when WebContainer isn't ready
     if (!webcontainerContext.ready) {
       logger.info('⏭️ WebContainer not ready; deferring shell command until container initializes');
-      
-      if (actionId) {
-        // Mark as complete to avoid blocking the UI; FilesStore will handle install automatically
-        this.#updateAction(actionId, { status: 'complete' });
-      }
-      
+
+      // complete to avoid blocking the UI; FilesStore will handle install automatically
       return;
     }
 
     const webcontainer = await this.#webcontainer;
     // Normalize and sanitize command for WebContainer environment (prefer pnpm over npm/yarn)
-    let cleanedCommand = action.content;
+    let cleanedCommand = command;
 
     // Strip any residual bolt tags that may leak into content
     cleanedCommand = cleanedCommand
@@ -313,24 +318,25 @@ export class ActionRunner {
       .replace(/\s+/g, ' ')
       .trim();
 
-    if (cleanedCommand !== action.content) {
-      logger.debug(`Original command: ${action.content}`);
+    if (cleanedCommand !== command) {
+      logger.debug(`Original command: ${command}`);
       logger.debug(`Cleaned command for jsh: ${cleanedCommand}`);
     }
 
+    const startedAt = Date.now();
+    let output = '';
+    let truncated = false;
+    let exitCode: number;
+
     try {
       const { abs: projectRootAbs } = await this.#getProjectRoot();
 
-      // For install/dev commands, ensure we run in PROJECT_ROOT and set env
+      // for install commands, ensure we run in PROJECT_ROOT and set env
       const isInstall = /\bpnpm\s+(install|i)(\s|$)/.test(cleanedCommand);
       if (isInstall) {
         cleanedCommand = `cd ${projectRootAbs} && pnpm install`;
       }
-      if (isDevServerCommandOriginal) {
-        cleanedCommand = this.#buildDevCommand(projectRootAbs);
-      }
       // Use jsh with cleaned command
-      const isDevServerCommand = this.#isDevServerCommand(cleanedCommand);
       const env = {
         npm_config_yes: true as unknown as string,
         HOST: '0.0.0.0',
@@ -338,11 +344,11 @@ export class ActionRunner {
 
       const process = await webcontainer.spawn('/bin/jsh', ['-c', cleanedCommand], { env });
 
-      action.abortSignal.addEventListener('abort', () => {
-        process.kill();
-      });
+      const kill = () => process.kill();
+
+      action.abortSignal.addEventListener('abort', kill, { once: true });
 
-      process.output.pipeTo(
+      const outputDone = process.output.pipeTo(
         new WritableStream({
           write: (data) => {
             // Send output to all attached terminals only (avoid console spam)
@@ -350,26 +356,36 @@ export class ActionRunner {
             for (const { terminal } of terminals) {
               terminal.write(data);
             }
+
+            output += data;
+
+            // cut with some slack, so escape codes split at the cut are dropped with it later
+            if (output.length > MAX_COMMAND_OUTPUT_LENGTH * 2) {
+              output = output.slice(-MAX_COMMAND_OUTPUT_LENGTH * 2);
+              truncated = true;
+            }
           },
         }),
       );
 
-      if (isDevServerCommand) {
-        // For dev server commands, don't wait for exit - they run indefinitely
-        // Set up a listener for port events to mark as complete when server is ready
-        logger.debug('Dev server command detected, not waiting for exit');
-        this.#handleDevServerProcess(action, process);
-      } else {
-        const exitCode = await process.exit;
-        logger.debug(`Process terminated with code ${exitCode}`);
-        
-        // Log warning for failed commands but don't throw
-        if (exitCode !== 0) {
-          logger.warn(`Shell command failed with exit code ${exitCode}: ${cleanedCommand}`);
-          const terminals = this.#terminalStore?.getTerminals() ?? [];
-          for (const { terminal } of terminals) {
-            terminal.write(`\n⚠️  Command exited with code ${exitCode}\n`);
-          }
+      try {
+        exitCode = await process.exit;
+      } finally {
+        action.abortSignal.removeEventListener('abort', kill);
+      }
+
+      logger.debug(`Process terminated with code ${exitCode}`);
+
+      // the last output can arrive after the exit; don't wait long for a stream that stays open
+      await Promise.race([outputDone.catch(() => undefined), new Promise((resolve) => setTimeout(resolve, 500))]);
+
+      if (exitCode !== 0) {
+        logger.warn(`Shell command failed with exit code ${exitCode}: ${cleanedCommand}`);
+
+        const terminals = this.#terminalStore?.getTerminals() ?? [];
+
+        for (const { terminal } of terminals) {
+          terminal.write(`\n⚠️  Command exited with code ${exitCode}\n`);
         }
       }
     } catch (error: unknown) {
@@ -388,120 +404,43 @@ export class ActionRunner {
       for (const { terminal } of terminals) {
         terminal.write(`\n❌ Shell command failed: ${errorMessage}\n`);
         terminal.write(`Command: ${cleanedCommand}\n`);
-        if (isDevServerCommandOriginal) {
-          terminal.write(`💡 This was a dev server command. Files are still created and accessible in the workbench.\n`);
-        terminal.write(`🔗 Try checking the dev server manually in your local environment.\n`);
-        }
-      }
-      
-      // For dev server commands, try to continue gracefully
-      if (isDevServerCommandOriginal) {
-        logger.warn('Dev server command failed but continuing - files were still created');
-        // Don't throw, just log the issue
-      } else {
-        // For non-dev server commands, we can be more strict
-        throw new Error(`Shell command failed: ${errorMessage}`);
       }
+
+      throw new Error(`Shell command failed: ${errorMessage}`);
     }
-  }
 
-  /**
-   * Check if a shell command is likely a dev server command
-   */
-  #isDevServerCommand(command: string): boolean {
-    const devServerPatterns = [
-      /npm\s+run\s+dev/,
-      /pnpm\s+run\s+dev/,
-      /yarn\s+dev/,
-      /pnpm\s+dev/,
-      /vite\s*$/,
-      /vite\s+dev/,
-      /next\s+dev/,
-      /next\s+start/,
-      /pnpm\s+run\s+start/,
-      /npm\s+run\s+start/,
-      /yarn\s+start/,
-      /remix\s+dev/,
-      /nuxt\s+dev/,
-      /svelte-kit\s+dev/,
-      /astro\s+dev/,
-      /ng\s+serve/,
-      /gatsby\s+develop/,
-    ];
-
-    return devServerPatterns.some(pattern => pattern.test(command.trim()));
+    const tail = getOutputTail(output, MAX_COMMAND_OUTPUT_LENGTH);
+
+    this.#updateAction(actionId, {
+      result: {
+        exitCode,
+        output: tail.output,
+        truncated: truncated || tail.truncated,
+        durationMs: Date.now() - startedAt,
+      },
+    });
+
+    if (exitCode !== 0 && !action.abortSignal.aborted) {
+      throw new Error(`\`${command.trim().replace(/\s+/g, ' ')}\` exited with code ${exitCode}`);
+    }
   }
 
   /**
-   * Handle dev server processes that run indefinitely
+   * Hands the command to the `FilesStore`, which owns the dev server, and waits until the server
+   * is ready.
    */
-  async #handleDevServerProcess(action: ActionState, process: any) {
-    // Set action as running and wait for port event or timeout
-    const actionId = Object.keys(this.actions.get()).find(
-      id => this.actions.get()[id] === action
-    );
+  async #runStartAction(action: ActionState) {
+    if (action.type !== 'start') {
+      unreachable('Expected start action');
+    }
 
-    if (!actionId) return;
+    const command = getStartCommand(action.content);
 
-    const webcontainer = await this.#webcontainer;
-    let completed = false;
-    let processExited = false;
-    
-    // Set up port listener to detect when dev server is ready
-    const portListener = (port: number, type: string) => {
-      if (type === 'open' && !completed) {
-        logger.debug(`Dev server port ${port} opened, marking action as complete`);
-        completed = true;
-        this.#updateAction(actionId, { status: 'complete' });
-      }
-    };
-
-    webcontainer.on('port', portListener);
-
-    // Monitor process exit to detect early failures
-    process.exit.then((exitCode: number) => {
-      processExited = true;
-      if (!completed && exitCode !== 0) {
-        logger.error(`Dev server exited early with code ${exitCode}`);
-        completed = true;
-        this.#updateAction(actionId, { 
-          status: 'failed', 
-          error: 'Dev server failed to start - did you install dependencies? Check terminal for errors.' 
-        });
-        
-        // Write error message to terminals
-        const terminals = this.#terminalStore?.getTerminals() ?? [];
-        for (const { terminal } of terminals) {
-          terminal.write('\r\n\x1b[31m❌ Dev server failed to start. Make sure dependencies are installed with `pnpm install`\x1b[0m\r\n');
-        }
-      }
-    }).catch(() => {
-      // Process was killed/aborted, not an error
-    });
+    if (!command) {
+      throw new Error('The start action has no command.');
+    }
 
-    // Quick exit detection - if process exits within 1 second, it's likely a dependency issue
-    setTimeout(() => {
-      if (processExited && !completed) {
-        logger.error('Dev server exited too quickly, likely missing dependencies');
-        completed = true;
-        this.#updateAction(actionId, { 
-          status: 'failed', 
-          error: 'Dev server failed to start - dependencies may be missing. Run `pnpm install` first.' 
-        });
-      }
-    }, 1000); // 1 second timeout for quick failures
-
-    // Timeout fallback in case no port is detected (fallback to normal completion)
-    setTimeout(() => {
-      if (!completed && !processExited) {
-        const currentAction = this.actions.get()[actionId];
-        if (currentAction && currentAction.status === 'running') {
-          logger.debug('Dev server timeout reached, assuming server is running');
-          completed = true;
-          this.#updateAction(actionId, { status: 'complete' });
-        }
-      }
-    }, 30000); // 30 second timeout
+    await workbenchStore.filesStore.startDevServer(command, action.abortSignal);
   }
 
   async #runFileAction(action: ActionState) {
@@ -537,10 +476,92 @@ export class ActionRunner {
       logger.debug('Processed package.json');
     }
 
+    await this.#writeFile(action.filePath, processedContent);
+    workbenchStore.filesStore.clearFailedEdit(action.filePath);
+  }
+
+  /**
+   * Applies the unified diff of a patch action to the current content of the file. Hunks that
+   * don't match are skipped; they fail the action and are reported with the next user message.
+   */
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const absPath = this.#resolveActionPath(action.filePath);
+    const file = workbenchStore.filesStore.getFile(absPath);
+
+    if (!file) {
+      throw new Error(`${action.filePath} does not exist. Create it with a file action.`);
+    }
+
+    if (file.isBinary) {
+      throw new Error(`${action.filePath} is a binary file`);
+    }
+
+    const result = applyUnifiedDiff(file.content, action.content);
+
+    if (result.hunkCount === 0) {
+      throw new Error(`The patch to ${action.filePath} has no hunks. Start each hunk with an @@ line.`);
+    }
+
+    if (result.rejected.length < result.hunkCount) {
+      await this.#writeFile(absPath, result.content);
+    }
+
+    if (result.rejected.length > 0) {
+      const error = describeRejectedHunks(action.filePath, result);
+
+      workbenchStore.filesStore.recordFailedEdit(absPath, error);
+      throw new Error(error);
+    }
+
+    workbenchStore.filesStore.clearFailedEdit(absPath);
+  }
+
+  /**
+   * Applies the SEARCH/REPLACE blocks of a replace action. The file only changes when every block
+   * applies; otherwise the failure is reported with the next user message.
+   */
+  async #runReplaceAction(action: ActionState) {
+    if (action.type !== 'replace') {
+      unreachable('Expected replace action');
+    }
+
+    const absPath = this.#resolveActionPath(action.filePath);
+    const file = workbenchStore.filesStore.getFile(absPath);
+
+    if (file?.isBinary) {
+      throw new Error(`${action.filePath} is a binary file`);
+    }
+
+    try {
+      const blocks = parseSearchReplaceBlocks(action.content);
+
+      if (blocks.length === 0) {
+        throw new Error(`The replace action for ${action.filePath} has no <<<<<<< SEARCH ... >>>>>>> REPLACE blocks.`);
+      }
+
+      // only empty search texts can apply to a file that doesn't exist, and they create it
+      if (!file && blocks.some(({ search }) => search.trim())) {
+        throw new Error(`${action.filePath} does not exist. Create it with a file action.`);
+      }
+
+      await this.#writeFile(absPath, applySearchReplaceBlocks(file?.content ?? '', blocks, action.filePath));
+    } catch (error) {
+      workbenchStore.filesStore.recordFailedEdit(absPath, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    workbenchStore.filesStore.clearFailedEdit(absPath);
+  }
+
+  async #writeFile(filePath: string, processedContent: string) {
     if (webcontainerContext.ready) {
       try {
-        await workbenchStore.filesStore?.saveFile(action.filePath, processedContent);
-        logger.debug(`File written to WebContainer via FilesStore: ${action.filePath}`);
+        await workbenchStore.filesStore?.saveFile(filePath, processedContent);
+        logger.debug(`File written to WebContainer via FilesStore: ${filePath}`);
         return;
       } catch (error) {
         logger.error('Failed to write file via WebContainer:', error);
@@ -554,7 +575,7 @@ export class ActionRunner {
     }
 
     try {
-      const absPath = absInWorkdir(action.filePath);
+      const absPath = absInWorkdir(filePath);
       const currentFiles = workbenchStore.files.get();
       const existingFile = currentFiles[absPath];
 
@@ -593,6 +614,24 @@ export class ActionRunner {
     }
   }
 
+  /**
+   * Resolves a path of a delete, rename or mkdir action. Throws for paths outside the project and
+   * for the project root itself.
+   */
+  #resolveActionPath(targetPath: string) {
+    if (!targetPath?.trim()) {
+      throw new Error('Missing path');
+    }
+
+    const absPath = absInWorkdir(targetPath);
+
+    if (absPath === WORK_DIR) {
+      throw new Error(`Path is the project root: ${targetPath}`);
+    }
+
+    return absPath;
+  }
+
   #isPackageJsonPath(targetPath: string) {
     try {
       const rel = relToWorkdir(targetPath);
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDevServerRestart,
+  getPackageSignature,
+  getStartCommand,
+  isDevServerCommand,
+  splitDevServerCommand,
+  withDevServerFlags,
+} from './dev-server';
+
+describe('isDevServerCommand', () => {
+  it.each([
+    'npm run dev',
+    'pnpm dev',
+    'yarn start',
+    'npm start',
+    'bun run preview',
+    'pnpm run dev -- --port 3000',
+    'vite',
+    'vite --host',
+    'npx vite preview',
+    'npx --yes serve -s dist',
+    'next dev',
+    'pnpm exec astro dev',
+  ])('should match %s', (command) => {
+    expect(isDevServerCommand(command)).toBe(true);
+  });
+
+  it.each(['npm install', 'pnpm run build', 'vite build', 'npm test', 'npm run devtools', 'node script.js'])(
+    'should not match %s',
+    (command) => {
+      expect(isDevServerCommand(command)).toBe(false);
+    },
+  );
+});
+
+describe('splitDevServerCommand', () => {
+  it('should keep commands that finish as they are', () => {
+    expect(splitDevServerCommand('npm install && npm run build')).toEqual({ setup: 'npm install && npm run build' });
+  });
+
+  it('should split the dev server off the end of a command', () => {
+    expect(splitDevServerCommand('npm install  &&\n npm run dev')).toEqual({
+      setup: 'npm install',
+      devServer: 'npm run dev',
+    });
+  });
+
+  it('should hand a lone dev server command over entirely', () => {
+    expect(splitDevServerCommand('<boltAction type="shell">npm run dev</boltAction>')).toEqual({
+      setup: undefined,
+      devServer: 'npm run dev',
+    });
+  });
+
+  it('should only split the last command', () => {
+    expect(splitDevServerCommand('npm run dev && npm test')).toEqual({ setup: 'npm run dev && npm test' });
+  });
+
+  it('should return nothing for an empty command', () => {
+    expect(splitDevServerCommand('  ')).toEqual({ setup: undefined });
+  });
+});
+
+describe('getStartCommand', () => {
+  it('should strip stray tags and whitespace', () => {
+    expect(getStartCommand('\n  npm run   dev\n</boltAction>')).toBe('npm run dev');
+  });
+});
+
+describe('withDevServerFlags', () => {
+  it('should pass the host and port to vite and next scripts', () => {
+    const pkg = { scripts: { dev: 'vite', start: 'next start', next: 'next dev --turbo' } };
+
+    expect(withDevServerFlags('npm run dev', pkg, 5174)).toBe('npm run dev -- --host 0.0.0.0 --port 5174');
+    expect(withDevServerFlags('pnpm run dev', pkg, 5174)).toBe('pnpm run dev --host 0.0.0.0 --port 5174');
+    expect(withDevServerFlags('yarn start', pkg, 3001)).toBe('yarn start --hostname 0.0.0.0 --port 3001');
+    expect(withDevServerFlags('bun run next', pkg, 3001)).toBe('bun run next --hostname 0.0.0.0 --port 3001');
+  });
+
+  it('should pass the host and port to vite and next commands', () => {
+    expect(withDevServerFlags('npx vite --open', {}, 5174)).toBe('npx vite --open --host 0.0.0.0 --port 5174');
+    expect(withDevServerFlags('pnpm exec next dev', {}, 3001)).toBe(
+      'pnpm exec next dev --hostname 0.0.0.0 --port 3001',
+    );
+  });
+
+  it('should keep the port a command picks', () => {
+    const pkg = { scripts: { dev: 'vite --port 3000', start: 'next start -p 8080' } };
+
+    expect(withDevServerFlags('npm run dev', pkg, 5174)).toBe('npm run dev');
+    expect(withDevServerFlags('npm start', pkg, 5174)).toBe('npm start');
+  });
+
+  it('should leave other servers alone', () => {
+    const pkg = { scripts: { dev: 'node server.js', build: 'vite build' } };
+
+    expect(withDevServerFlags('npm run dev', pkg, 5174)).toBe('npm run dev');
+    expect(withDevServerFlags('npm run build', pkg, 5174)).toBe('npm run build');
+    expect(withDevServerFlags('npm run missing', pkg, 5174)).toBe('npm run missing');
+    expect(withDevServerFlags('npx serve dist', pkg, 5174)).toBe('npx serve dist');
+  });
+});
+
+describe('getDevServerRestart', () => {
+  const pkg = {
+    scripts: { dev: 'vite' },
+    dependencies: { react: '^18.3.1' },
+    devDependencies: { vite: '^5.4.0' },
+  };
+  const running = getPackageSignature(pkg);
+
+  it('should not restart for changes the dev server picks up itself', () => {
+    expect(getDevServerRestart(running, { ...pkg, name: 'renamed', version: '1.0.1' })).toBe('none');
+  });
+
+  it('should restart when the scripts change', () => {
+    expect(getDevServerRestart(running, { ...pkg, scripts: { dev: 'vite --port 3000' } })).toBe('restart');
+  });
+
+  it('should reinstall when the dependencies change', () => {
+    expect(getDevServerRestart(running, { ...pkg, dependencies: { ...pkg.dependencies, zod: '^3.23.0' } })).toBe(
+      'reinstall',
+    );
+    expect(getDevServerRestart(running, { ...pkg, devDependencies: {} })).toBe('reinstall');
+  });
+});
@@ -0,0 +1,127 @@
+/** commands that keep running until they're stopped, like the dev servers of the common frameworks */
+const DEV_SERVER_COMMANDS = [
+  /^(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?(?:dev|start|serve|preview)(?:\s|$)/,
+  /^(?:(?:npx|bunx|pnpm\s+(?:dlx|exec)|yarn)\s+(?:--yes\s+)?)?(?:next\s+(?:dev|start)|astro\s+(?:dev|preview)|nuxt\s+dev|react-scripts\s+start|webpack\s+serve|http-server|serve)(?:\s|$)/,
+
+  // `vite` alone serves the app, unlike `vite build`
+  /^(?:(?:npx|bunx|pnpm\s+(?:dlx|exec)|yarn)\s+(?:--yes\s+)?)?vite(?:\s+(?:dev|serve|preview))?(?:\s+-|$)/,
+];
+
+// runs a package.json script, e.g. `npm run dev` or `pnpm dev`
+const SCRIPT_COMMAND = /^(npm|pnpm|yarn|bun)\s+(?:run\s+)?([\w:.-]+)$/;
+
+export interface PackageSignature {
+  dependencies: string;
+  scripts: string;
+}
+
+export type DevServerRestart = 'none' | 'restart' | 'reinstall';
+
+function normalizeCommand(command: string) {
+  return command
+    .replace(/<\/?boltAction[^>]*>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function isDevServerCommand(command: string) {
+  const normalized = normalizeCommand(command);
+
+  return DEV_SERVER_COMMANDS.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * Splits the dev server command off the end of a shell command, e.g. `npm install && npm run dev`,
+ * so it can be started like a start action instead of blocking the action queue until it exits.
+ */
+export function splitDevServerCommand(command: string): { setup?: string; devServer?: string } {
+  const segments = normalizeCommand(command)
+    .split('&&')
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  const last = segments.at(-1);
+
+  if (!last || !isDevServerCommand(last)) {
+    return { setup: segments.join(' && ') || undefined };
+  }
+
+  const setup = segments.slice(0, -1);
+
+  return { setup: setup.length > 0 ? setup.join(' && ') : undefined, devServer: last };
+}
+
+/**
+ * The command of a start action, without stray tags and extra whitespace.
+ */
+export function getStartCommand(content: string) {
+  return normalizeCommand(content);
+}
+
+/**
+ * The host and port flags of the vite or next server a command starts, e.g. `vite --open`.
+ */
+function getHostFlags(command: string, port: number) {
+  const words = command.split('&&').at(-1)!.trim().split(/\s+/);
+  const index = words.findIndex((word) => word === 'vite' || word === 'next');
+  const subcommand = words[index + 1];
+
+  if (index === -1 || /(?:^|\s)(?:--port|-p)(?:\s|=|$)/.test(command)) {
+    return undefined;
+  }
+
+  if (
+    words[index] === 'vite' &&
+    (!subcommand || ['dev', 'serve', 'preview'].includes(subcommand) || subcommand.startsWith('-'))
+  ) {
+    return `--host 0.0.0.0 --port ${port}`;
+  }
+
+  if (words[index] === 'next' && (subcommand === 'dev' || subcommand === 'start')) {
+    return `--hostname 0.0.0.0 --port ${port}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Adds the host and port flags to a dev server command when it starts vite or next, directly or
+ * through a package.json script, since they ignore `HOST` and `PORT`. Commands that pick their
+ * own port are left alone.
+ */
+export function withDevServerFlags(command: string, pkg: any, port: number) {
+  const normalized = normalizeCommand(command);
+  const script = normalized.match(SCRIPT_COMMAND);
+  const target = script ? pkg?.scripts?.[script[2]] : normalized;
+  const flags = typeof target === 'string' ? getHostFlags(target, port) : undefined;
+
+  if (!flags) {
+    return normalized;
+  }
+
+  // npm only passes the arguments after `--` on to the script
+  return script?.[1] === 'npm' ? `${normalized} -- ${flags}` : `${normalized} ${flags}`;
+}
+
+/**
+ * The parts of package.json that need a dev server restart when they change.
+ */
+export function getPackageSignature(pkg: any): PackageSignature {
+  return {
+    dependencies: JSON.stringify([pkg?.dependencies ?? {}, pkg?.devDependencies ?? {}]),
+    scripts: JSON.stringify(pkg?.scripts ?? {}),
+  };
+}
+
+/**
+ * Whether a change to package.json needs the running dev server restarted, and whether the
+ * dependencies have to be installed again first.
+ */
+export function getDevServerRestart(running: PackageSignature, pkg: unknown): DevServerRestart {
+  const { dependencies, scripts } = getPackageSignature(pkg);
+
+  if (dependencies !== running.dependencies) {
+    return 'reinstall';
+  }
+
+  return scripts === running.scripts ? 'none' : 'restart';
+}
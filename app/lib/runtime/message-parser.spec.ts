@@ -152,6 +152,27 @@ describe('StreamingMessageParser', () => {
       runTest(input, expected);
     });
   });
+  describe('file system actions', () => {
+    it('should parse delete, rename and mkdir actions from their attributes', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+
+      parser.parse(
+        'message_1',
+        '<boltArtifact title="Cleanup" id="cleanup">' +
+          '<boltAction type="delete" filePath="src/old.ts"></boltAction>' +
+          '<boltAction type="rename" from="src/App.jsx" to=\'src/App.tsx\'></boltAction>' +
+          '<boltAction type="mkdir" filepath="public/images">\n</boltAction>' +
+          '</boltArtifact>',
+      );
+
+      expect(onActionClose.mock.calls.map(([{ action }]) => action)).toEqual([
+        { type: 'delete', filePath: 'src/old.ts', content: '' },
+        { type: 'rename', from: 'src/App.jsx', to: 'src/App.tsx', content: '' },
+        { type: 'mkdir', filePath: 'public/images', content: '' },
+      ]);
+    });
+  });
 });
 
 function runTest(input: string | string[], outputOrExpectedResult: string | ExpectedResult) {
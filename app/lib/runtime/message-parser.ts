@@ -1,4 +1,4 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction } from '~/types/actions';
+import type { ActionType, BoltAction, BoltActionData } from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
@@ -345,47 +345,61 @@ export class StreamingMessageParser {
 
     const actionType = this.#extractAttribute(actionTag, 'type') as ActionType;
 
-    const actionAttributes = {
-      type: actionType,
-      content: '',
-    };
+    // accept both `filePath` and `filepath` attribute names for better tolerance with model output
+    const filePath = this.#extractAttribute(actionTag, 'filePath') || this.#extractAttribute(actionTag, 'filepath');
 
-    if (actionType === 'file') {
-      // Accept both `filePath` and `filepath` attribute names for better tolerance with model output
-      let filePath = (this.#extractAttribute(actionTag, 'filePath') ||
-        this.#extractAttribute(actionTag, 'filepath')) as string;
+    switch (actionType) {
+      case 'file': {
+        if (!filePath) {
+          logger.debug('File path not specified, using default');
+        }
 
-      if (!filePath) {
-        logger.debug('File path not specified, using default');
-        filePath = 'untitled.txt';
+        return { type: actionType, content: '', filePath: filePath || 'untitled.txt' } satisfies BoltAction;
+      }
+      case 'patch':
+      case 'replace':
+      case 'delete':
+      case 'mkdir': {
+        // a missing path fails when the action runs
+        return { type: actionType, content: '', filePath: filePath ?? '' } satisfies BoltAction;
       }
+      case 'rename': {
+        const from = this.#extractAttribute(actionTag, 'from') ?? '';
+        const to = this.#extractAttribute(actionTag, 'to') ?? '';
 
-      (actionAttributes as FileAction).filePath = filePath;
-    } else if (actionType !== 'shell') {
-      logger.warn(`Unknown action type '${actionType}'`);
-    }
+        return { type: actionType, content: '', from, to } satisfies BoltAction;
+      }
+      case 'shell':
+      case 'start': {
+        return { type: actionType, content: '' } satisfies BoltAction;
+      }
+      default: {
+        logger.warn(`Unknown action type '${actionType}'`);
 
-    return actionAttributes as FileAction | ShellAction;
+        return { type: actionType, content: '' } as BoltAction;
+      }
+    }
   }
 
   /**
-   * Extract attribute value from a tag, handling escaped quotes
+   * Extract attribute value from a tag, handling escaped quotes. Names must follow whitespace, so
+   * `to` doesn't match the end of another attribute's name.
    */
   #extractAttribute(tag: string, attributeName: string): string | undefined {
     // First try simple pattern
-    const simpleMatch = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
+    const simpleMatch = tag.match(new RegExp(`\\s${attributeName}="([^"]*)"`, 'i'));
     if (simpleMatch) {
       return simpleMatch[1];
     }
 
     // Handle single quotes
-    const singleQuoteMatch = tag.match(new RegExp(`${attributeName}='([^']*)'`, 'i'));
+    const singleQuoteMatch = tag.match(new RegExp(`\\s${attributeName}='([^']*)'`, 'i'));
     if (singleQuoteMatch) {
       return singleQuoteMatch[1];
     }
 
     // Handle no quotes
-    const noQuoteMatch = tag.match(new RegExp(`${attributeName}=([^\\s>]+)`, 'i'));
+    const noQuoteMatch = tag.match(new RegExp(`\\s${attributeName}=([^\\s>]+)`, 'i'));
     if (noQuoteMatch) {
       return noQuoteMatch[1];
     }
@@ -394,7 +408,7 @@ export class StreamingMessageParser {
   }
 }
 
-const createArtifactElement: ElementFactory = (props) => {
+export const createArtifactElement: ElementFactory = (props) => {
   const elementProps = [
     'class="__boltArtifact__"',
     ...Object.entries(props).map(([key, value]) => {
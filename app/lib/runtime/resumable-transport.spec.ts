@@ -0,0 +1,85 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import type { UIMessageChunk } from 'ai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearPendingGeneration, getPendingGeneration, ResumableChatTransport } from './resumable-transport';
+
+const STORAGE_KEY = 'pending_generation_v1';
+
+class TestTransport extends ResumableChatTransport<never> {
+  async read(chunks: object[]) {
+    const body = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join('');
+    const reader = this.processResponseStream(new Response(body).body!).getReader();
+    const received: UIMessageChunk[] = [];
+
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      received.push(result.value);
+    }
+
+    return received;
+  }
+}
+
+function textDeltas(count: number) {
+  return Array.from({ length: count }, (_, index) => ({ type: 'text-delta', id: 'text-1', delta: `${index}` }));
+}
+
+function storedGeneration() {
+  return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+}
+
+const transport = new TestTransport({ api: '/api/chat', getChatId: () => 'chat-1' });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  clearPendingGeneration();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('ResumableChatTransport', () => {
+  it('should consume the generation marker and count the chunks after it', async () => {
+    const chunks = await transport.read([
+      { type: 'data-generation', data: { id: 'gen-1', offset: 0 } },
+      ...textDeltas(3),
+    ]);
+
+    expect(chunks).toEqual(textDeltas(3));
+    expect(getPendingGeneration()).toEqual({ id: 'gen-1', chatId: 'chat-1', offset: 3 });
+  });
+
+  it('should persist the offset at most once per interval', async () => {
+    const setItem = vi.spyOn(localStorage, 'setItem');
+
+    await transport.read([{ type: 'data-generation', data: { id: 'gen-1', offset: 0 } }, ...textDeltas(50)]);
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+    expect(storedGeneration()).toMatchObject({ id: 'gen-1', offset: 0 });
+
+    vi.advanceTimersByTime(1_000);
+
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(storedGeneration()).toMatchObject({ id: 'gen-1', offset: 50 });
+  });
+
+  it('should persist the offset when the page is hidden', async () => {
+    await transport.read([{ type: 'data-generation', data: { id: 'gen-1', offset: 0 } }, ...textDeltas(5)]);
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(storedGeneration()).toMatchObject({ id: 'gen-1', offset: 5 });
+  });
+
+  it('should not restore a cleared generation when the pending write fires', async () => {
+    await transport.read([{ type: 'data-generation', data: { id: 'gen-1', offset: 0 } }, ...textDeltas(5)]);
+
+    clearPendingGeneration();
+    vi.advanceTimersByTime(1_000);
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
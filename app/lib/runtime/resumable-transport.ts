@@ -0,0 +1,211 @@
+import { DefaultChatTransport, type HttpChatTransportInitOptions, type UIMessage, type UIMessageChunk } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ResumableTransport');
+
+// mirrors `GENERATION_DATA_TYPE` in `resumable-stream.ts`
+const GENERATION_DATA_TYPE = 'data-generation';
+
+const STORAGE_KEY = 'pending_generation_v1';
+
+/**
+ * A generation the client hasn't received completely yet. Persisted so it can be resumed after a
+ * reload as well as after a dropped connection.
+ */
+export interface PendingGeneration {
+  id: string;
+
+  /** the persisted chat the generation belongs to */
+  chatId?: string;
+
+  /** the assistant message the generation streams into, once it has been created */
+  messageId?: string;
+
+  /** index of the next chunk to receive */
+  offset: number;
+}
+
+/** how often the offset is persisted while chunks arrive */
+const PERSIST_INTERVAL = 1_000;
+
+let pendingGeneration: PendingGeneration | undefined;
+let persistTimer: ReturnType<typeof setTimeout> | undefined;
+
+function persistPendingGeneration() {
+  clearTimeout(persistTimer);
+  persistTimer = undefined;
+
+  try {
+    if (pendingGeneration) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(pendingGeneration));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // ignore persistence errors
+  }
+}
+
+function savePendingGeneration(generation: PendingGeneration | undefined) {
+  pendingGeneration = generation;
+  persistPendingGeneration();
+}
+
+/**
+ * Counts a received chunk. The offset is only persisted every `PERSIST_INTERVAL` and when the page
+ * is hidden, rather than on every chunk; a generation that is resumed after a reload is usually
+ * replayed from the start anyway, see `preparePendingResume`.
+ */
+function advancePendingGeneration(generation: PendingGeneration) {
+  pendingGeneration = { ...generation, offset: generation.offset + 1 };
+  persistTimer ??= setTimeout(persistPendingGeneration, PERSIST_INTERVAL);
+}
+
+function flushPendingGeneration() {
+  if (persistTimer !== undefined) {
+    persistPendingGeneration();
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', flushPendingGeneration);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      flushPendingGeneration();
+    }
+  });
+}
+
+export function getPendingGeneration(): PendingGeneration | undefined {
+  if (pendingGeneration || typeof window === 'undefined') {
+    return pendingGeneration;
+  }
+
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+
+    pendingGeneration = raw ? (JSON.parse(raw) as PendingGeneration) : undefined;
+  } catch {
+    pendingGeneration = undefined;
+  }
+
+  return pendingGeneration;
+}
+
+export function clearPendingGeneration() {
+  savePendingGeneration(undefined);
+}
+
+/**
+ * Records the assistant message the pending generation streams into.
+ */
+export function setPendingMessageId(messageId: string) {
+  const generation = getPendingGeneration();
+
+  if (generation && !generation.messageId) {
+    savePendingGeneration({ ...generation, messageId });
+  }
+}
+
+/**
+ * Prepares resuming the pending generation when `lastMessageId` is the last message in the chat.
+ * Chunks already received are only skipped when that message holds them; after a reload it
+ * usually doesn't, and the generation is replayed from the start.
+ */
+export function preparePendingResume(lastMessageId: string | undefined) {
+  const generation = getPendingGeneration();
+
+  if (generation && generation.messageId !== lastMessageId) {
+    savePendingGeneration({ ...generation, messageId: undefined, offset: 0 });
+  }
+
+  return generation !== undefined;
+}
+
+/**
+ * Cancels the pending generation on the server when the user stops it. Stopping `useChat` only
+ * ends this client's request, and the server keeps generating for a while in case it's resumed.
+ */
+export async function cancelPendingGeneration(api: string, getHeaders: () => Promise<Record<string, string>>) {
+  const generation = getPendingGeneration();
+
+  if (!generation) {
+    return;
+  }
+
+  clearPendingGeneration();
+
+  try {
+    await fetch(`${api}/${encodeURIComponent(generation.id)}/stream`, {
+      method: 'DELETE',
+      headers: await getHeaders(),
+      keepalive: true,
+    });
+  } catch (error) {
+    logger.warn(`Failed to cancel generation ${generation.id}`, error);
+  }
+}
+
+type ResumableChatTransportOptions<Message extends UIMessage> = HttpChatTransportInitOptions<Message> & {
+  /** the persisted chat, recorded with the pending generation */
+  getChatId: () => string | undefined;
+};
+
+/**
+ * A `DefaultChatTransport` that tracks how much of the current generation has been received, so
+ * `useChat`'s `resumeStream` can continue it from `api/chat/<generation>/stream`. The generation
+ * markers the server sends are consumed here and never reach `useChat`.
+ */
+export class ResumableChatTransport<Message extends UIMessage> extends DefaultChatTransport<Message> {
+  #getChatId: () => string | undefined;
+
+  constructor({ getChatId, ...options }: ResumableChatTransportOptions<Message>) {
+    super({
+      ...options,
+      prepareReconnectToStreamRequest: ({ api, headers, credentials }) => {
+        const generation = getPendingGeneration();
+
+        return {
+          api: `${api}/${encodeURIComponent(generation?.id ?? '')}/stream?offset=${generation?.offset ?? 0}`,
+          headers,
+          credentials,
+        };
+      },
+    });
+
+    this.#getChatId = getChatId;
+  }
+
+  protected processResponseStream(stream: ReadableStream<Uint8Array>): ReadableStream<UIMessageChunk> {
+    return super.processResponseStream(stream).pipeThrough(
+      new TransformStream<UIMessageChunk, UIMessageChunk>({
+        transform: (chunk, controller) => {
+          const generation = getPendingGeneration();
+
+          if (chunk.type === GENERATION_DATA_TYPE) {
+            const { id, offset } = chunk.data as { id: string; offset: number };
+
+            logger.trace(`Receiving generation ${id} from ${offset}`);
+
+            savePendingGeneration({
+              id,
+              chatId: this.#getChatId() ?? generation?.chatId,
+
+              // a replay from the start streams into a new message
+              messageId: generation?.id === id && offset > 0 ? generation.messageId : undefined,
+              offset,
+            });
+
+            return;
+          }
+
+          if (generation) {
+            advancePendingGeneration(generation);
+          }
+
+          controller.enqueue(chunk);
+        },
+      }),
+    );
+  }
+}
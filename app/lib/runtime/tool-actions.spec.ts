@@ -0,0 +1,241 @@
+import type { UIMessage } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import { WORK_DIR } from '~/utils/constants';
+import {
+  answerToolCall,
+  isClientToolCall,
+  shouldSendToolResults,
+  toolCallToAction,
+  ToolCallTranslator,
+} from './tool-actions';
+
+type MessagePart = UIMessage['parts'][number];
+
+const files: FileMap = {
+  [`${WORK_DIR}/package.json`]: { type: 'file', content: '{"name":"app"}', isBinary: false },
+  [`${WORK_DIR}/src`]: { type: 'folder' },
+  [`${WORK_DIR}/src/main.ts`]: { type: 'file', content: 'console.log(1);', isBinary: false },
+  [`${WORK_DIR}/logo.png`]: { type: 'file', content: '', isBinary: true },
+  [`${WORK_DIR}/removed.ts`]: undefined,
+};
+
+describe('toolCallToAction', () => {
+  it('should map write_file onto a file action', () => {
+    expect(toolCallToAction({ toolName: 'write_file', input: { path: 'src/main.ts', content: 'x' } })).toEqual({
+      type: 'file',
+      filePath: 'src/main.ts',
+      content: 'x',
+    });
+  });
+
+  it('should keep empty file contents', () => {
+    expect(toolCallToAction({ toolName: 'write_file', input: { path: '.env', content: '' } })).toEqual({
+      type: 'file',
+      filePath: '.env',
+      content: '',
+    });
+  });
+
+  it('should map run_shell onto a shell action', () => {
+    expect(toolCallToAction({ toolName: 'run_shell', input: { command: 'pnpm install' } })).toEqual({
+      type: 'shell',
+      content: 'pnpm install',
+    });
+  });
+
+  it('should map start_dev_server onto a start action', () => {
+    expect(toolCallToAction({ toolName: 'start_dev_server', input: { command: 'pnpm run dev' } })).toEqual({
+      type: 'start',
+      content: 'pnpm run dev',
+    });
+  });
+
+  it.each([
+    ['write_file', { content: 'x' }],
+    ['write_file', { path: 'a.ts' }],
+    ['write_file', { path: 42, content: 'x' }],
+    ['write_file', { path: 'a.ts', content: { text: 'x' } }],
+    ['run_shell', {}],
+    ['run_shell', { command: '' }],
+    ['run_shell', { command: ['ls'] }],
+    ['start_dev_server', { command: null }],
+    ['write_file', undefined],
+    ['run_shell', 'ls'],
+  ])('should ignore %s calls with malformed input %j', (toolName, input) => {
+    expect(toolCallToAction({ toolName, input })).toBeUndefined();
+  });
+
+  it('should ignore other tools', () => {
+    expect(toolCallToAction({ toolName: 'read_file', input: { path: 'a.ts' } })).toBeUndefined();
+  });
+});
+
+describe('isClientToolCall', () => {
+  it('should only match the tools the client answers', () => {
+    expect(isClientToolCall({ toolName: 'read_file', input: {} })).toBe(true);
+    expect(isClientToolCall({ toolName: 'list_files', input: {} })).toBe(true);
+    expect(isClientToolCall({ toolName: 'write_file', input: {} })).toBe(false);
+    expect(isClientToolCall({ toolName: 'web_search', input: {} })).toBe(false);
+  });
+});
+
+describe('answerToolCall', () => {
+  it('should read a file', () => {
+    expect(answerToolCall({ toolName: 'read_file', input: { path: 'src/main.ts' } }, files)).toEqual({
+      path: 'src/main.ts',
+      content: 'console.log(1);',
+    });
+  });
+
+  it('should fail for missing files, folders and binary files', () => {
+    expect(() => answerToolCall({ toolName: 'read_file', input: { path: 'missing.ts' } }, files)).toThrow(
+      'missing.ts does not exist',
+    );
+    expect(() => answerToolCall({ toolName: 'read_file', input: { path: 'removed.ts' } }, files)).toThrow(
+      'removed.ts does not exist',
+    );
+    expect(() => answerToolCall({ toolName: 'read_file', input: { path: 'src' } }, files)).toThrow('src is a folder');
+    expect(() => answerToolCall({ toolName: 'read_file', input: { path: 'logo.png' } }, files)).toThrow(
+      'logo.png is a binary file',
+    );
+  });
+
+  it('should refuse paths outside of the workdir', () => {
+    expect(() => answerToolCall({ toolName: 'read_file', input: { path: '../../etc/passwd' } }, files)).toThrow(
+      'Path escapes workdir',
+    );
+  });
+
+  it('should list the workdir when the path is missing or malformed', () => {
+    const expected = {
+      path: '.',
+      entries: ['logo.png', 'package.json', 'src/', 'src/main.ts'],
+      truncated: false,
+    };
+
+    expect(answerToolCall({ toolName: 'list_files', input: {} }, files)).toEqual(expected);
+    expect(answerToolCall({ toolName: 'list_files', input: { path: 7 } }, files)).toEqual(expected);
+  });
+
+  it('should list a folder', () => {
+    expect(answerToolCall({ toolName: 'list_files', input: { path: 'src' } }, files)).toEqual({
+      path: 'src',
+      entries: ['main.ts'],
+      truncated: false,
+    });
+  });
+
+  it('should truncate long listings', () => {
+    const many: FileMap = {};
+
+    for (let i = 0; i < 510; i++) {
+      many[`${WORK_DIR}/file-${String(i).padStart(3, '0')}.ts`] = { type: 'file', content: '', isBinary: false };
+    }
+
+    const result = answerToolCall({ toolName: 'list_files', input: {} }, many);
+
+    expect(result).toMatchObject({ truncated: true });
+    expect((result as { entries: string[] }).entries).toHaveLength(500);
+  });
+
+  it('should fail for unknown tools', () => {
+    expect(() => answerToolCall({ toolName: 'write_file', input: {} }, files)).toThrow('Unknown tool: write_file');
+  });
+});
+
+describe('shouldSendToolResults', () => {
+  it('should send once every read call of the last step is answered', () => {
+    const message = assistant([
+      { type: 'step-start' },
+      toolPart('read_file', '1', 'output-available', { path: 'a.ts' }),
+      toolPart('list_files', '2', 'output-available', {}),
+    ]);
+
+    expect(shouldSendToolResults({ messages: [message] })).toBe(true);
+  });
+
+  it('should wait for unanswered calls', () => {
+    const message = assistant([
+      { type: 'step-start' },
+      toolPart('read_file', '1', 'output-available', { path: 'a.ts' }),
+      toolPart('read_file', '2', 'input-available', { path: 'b.ts' }),
+    ]);
+
+    expect(shouldSendToolResults({ messages: [message] })).toBe(false);
+  });
+
+  it('should not send when the last step only used acknowledged tools', () => {
+    const message = assistant([
+      { type: 'step-start' },
+      toolPart('read_file', '1', 'output-available', { path: 'a.ts' }),
+      { type: 'step-start' },
+      toolPart('write_file', '2', 'output-available', { path: 'a.ts', content: 'x' }),
+    ]);
+
+    expect(shouldSendToolResults({ messages: [message] })).toBe(false);
+  });
+
+  it('should not send without tool calls', () => {
+    const message = assistant([{ type: 'step-start' }, { type: 'text', text: 'Done.' }]);
+
+    expect(shouldSendToolResults({ messages: [message] })).toBe(false);
+    expect(shouldSendToolResults({ messages: [] })).toBe(false);
+  });
+});
+
+describe('ToolCallTranslator', () => {
+  it('should emit one artifact with an action per workspace call', () => {
+    const callbacks = {
+      onArtifactOpen: vi.fn(),
+      onArtifactClose: vi.fn(),
+      onActionOpen: vi.fn(),
+      onActionClose: vi.fn(),
+    };
+    const translator = new ToolCallTranslator(callbacks);
+    const parts: MessagePart[] = [
+      toolPart('write_file', '1', 'input-available', { path: 'a.ts', content: 'x' }),
+      toolPart('read_file', '2', 'input-available', { path: 'a.ts' }),
+      toolPart('run_shell', '3', 'input-streaming', { command: 'pn' }),
+    ];
+
+    expect(translator.translate('message-1', parts, false)).toBe(true);
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionClose).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionClose).toHaveBeenCalledWith(
+      expect.objectContaining({ actionId: '1', action: { type: 'file', filePath: 'a.ts', content: 'x' } }),
+    );
+
+    parts[2] = toolPart('run_shell', '3', 'input-available', { command: 'pnpm test' });
+
+    translator.translate('message-1', parts, true);
+    translator.translate('message-1', parts, true);
+
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledTimes(1);
+    expect(callbacks.onActionClose).toHaveBeenCalledTimes(2);
+    expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip calls with malformed input', () => {
+    const onActionOpen = vi.fn();
+    const translator = new ToolCallTranslator({ onActionOpen });
+    const parts = [toolPart('write_file', '1', 'input-available', { content: 'x' })];
+
+    expect(translator.translate('message-1', parts, true)).toBe(false);
+    expect(onActionOpen).not.toHaveBeenCalled();
+  });
+});
+
+function assistant(parts: unknown[]): UIMessage {
+  return { id: 'assistant-1', role: 'assistant', parts: parts as MessagePart[] };
+}
+
+function toolPart(toolName: string, toolCallId: string, state: string, input: unknown) {
+  return {
+    type: `tool-${toolName}`,
+    toolCallId,
+    state,
+    input,
+    ...(state === 'output-available' ? { output: {} } : {}),
+  } as MessagePart;
+}
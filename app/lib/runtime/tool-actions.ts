@@ -0,0 +1,180 @@
+import { getToolName, isToolUIPart, lastAssistantMessageIsCompleteWithToolCalls, type UIMessage } from 'ai';
+import type { FileMap } from '~/lib/stores/files';
+import { absInWorkdir } from '~/lib/webcontainer/path';
+import type { BoltAction } from '~/types/actions';
+import { createScopedLogger } from '~/utils/logger';
+import type { ParserCallbacks } from './message-parser';
+
+const logger = createScopedLogger('ToolActions');
+
+/** tools the model calls to change the workspace; the server acknowledges them */
+const ACTION_TOOLS = ['write_file', 'run_shell', 'start_dev_server'];
+
+/** tools the client answers from the workspace */
+const CLIENT_TOOLS = ['read_file', 'list_files'];
+
+const MAX_LISTED_FILES = 500;
+
+type MessagePart = UIMessage['parts'][number];
+
+export interface ToolCall {
+  toolName: string;
+  input: unknown;
+}
+
+function getString(input: unknown, key: string) {
+  const value = (input as Record<string, unknown> | undefined)?.[key];
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Maps a `write_file`, `run_shell` or `start_dev_server` call onto the action the `<boltAction>` tag would have produced.
+ */
+export function toolCallToAction({ toolName, input }: ToolCall): BoltAction | undefined {
+  if (toolName === 'write_file') {
+    const filePath = getString(input, 'path');
+    const content = getString(input, 'content');
+
+    return filePath && content !== undefined ? { type: 'file', filePath, content } : undefined;
+  }
+
+  if (toolName === 'run_shell') {
+    const command = getString(input, 'command');
+
+    return command ? { type: 'shell', content: command } : undefined;
+  }
+
+  if (toolName === 'start_dev_server') {
+    const command = getString(input, 'command');
+
+    return command ? { type: 'start', content: command } : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether the client answers this tool call; see `answerToolCall`.
+ */
+export function isClientToolCall({ toolName }: ToolCall) {
+  return CLIENT_TOOLS.includes(toolName);
+}
+
+/**
+ * Answers a `read_file` or `list_files` call from the workbench files. Throws when the call can't
+ * be answered, e.g. for a missing file; the message becomes the tool's error.
+ */
+export function answerToolCall({ toolName, input }: ToolCall, files: FileMap) {
+  const path = getString(input, 'path') ?? '.';
+  const absPath = absInWorkdir(path);
+
+  if (toolName === 'read_file') {
+    const dirent = files[absPath];
+
+    if (dirent?.type !== 'file') {
+      throw new Error(dirent ? `${path} is a folder` : `${path} does not exist`);
+    }
+
+    if (dirent.isBinary) {
+      throw new Error(`${path} is a binary file`);
+    }
+
+    return { path, content: dirent.content };
+  }
+
+  if (toolName === 'list_files') {
+    const prefix = `${absPath}/`;
+    const entries = Object.entries(files)
+      .filter(([filePath, dirent]) => dirent && filePath.startsWith(prefix))
+      .map(([filePath, dirent]) => filePath.slice(prefix.length) + (dirent?.type === 'folder' ? '/' : ''))
+      .sort();
+
+    return {
+      path,
+      entries: entries.slice(0, MAX_LISTED_FILES),
+      truncated: entries.length > MAX_LISTED_FILES,
+    };
+  }
+
+  throw new Error(`Unknown tool: ${toolName}`);
+}
+
+/**
+ * Decides when `useChat` sends the conversation back after the client answered tool calls. Only
+ * the read tools need it; the server already continues after the tools it acknowledges.
+ */
+export function shouldSendToolResults({ messages }: { messages: UIMessage[] }) {
+  const message = messages[messages.length - 1];
+
+  if (!message || !lastAssistantMessageIsCompleteWithToolCalls({ messages })) {
+    return false;
+  }
+
+  const lastStepStart = message.parts.findLastIndex((part) => part.type === 'step-start');
+
+  return message.parts
+    .slice(lastStepStart + 1)
+    .some((part) => isToolUIPart(part) && CLIENT_TOOLS.includes(getToolName(part) as string));
+}
+
+/**
+ * Translates workspace tool calls into the same artifact and action callbacks the
+ * `StreamingMessageParser` emits for `<boltArtifact>` tags, so the `ActionRunner` handles both
+ * protocols alike. Each message's tool calls become the actions of one artifact.
+ */
+export class ToolCallTranslator {
+  #translated = new Map<string, Set<string>>();
+  #closed = new Set<string>();
+
+  constructor(private _callbacks: ParserCallbacks = {}) {}
+
+  /**
+   * Emits callbacks for the message's tool calls that haven't been translated yet. Returns whether
+   * the message called any workspace tools.
+   */
+  translate(messageId: string, parts: MessagePart[], isComplete: boolean) {
+    const artifact = { messageId, id: `tools-${messageId}`, title: 'Workspace changes' };
+    let actionIds = this.#translated.get(messageId);
+
+    for (const part of parts) {
+      // calls are translated once their input has finished streaming
+      if (!isToolUIPart(part) || (part.state !== 'input-available' && part.state !== 'output-available')) {
+        continue;
+      }
+
+      const toolName = getToolName(part) as string;
+
+      if (!ACTION_TOOLS.includes(toolName) || actionIds?.has(part.toolCallId)) {
+        continue;
+      }
+
+      const action = toolCallToAction({ toolName, input: part.input });
+
+      if (!action) {
+        logger.warn(`Ignoring ${toolName} call with invalid input`, part.input);
+        continue;
+      }
+
+      if (!actionIds) {
+        actionIds = new Set();
+        this.#translated.set(messageId, actionIds);
+        this._callbacks.onArtifactOpen?.(artifact);
+      }
+
+      actionIds.add(part.toolCallId);
+
+      const data = { artifactId: artifact.id, messageId, actionId: part.toolCallId, action };
+
+      this._callbacks.onActionOpen?.(data);
+      this._callbacks.onActionClose?.(data);
+    }
+
+    if (actionIds && isComplete && !this.#closed.has(messageId)) {
+      this.#closed.add(messageId);
+      this._callbacks.onArtifactClose?.(artifact);
+    }
+
+    return actionIds !== undefined;
+  }
+}
@@ -6,10 +6,13 @@ export interface UserProfile {
   name: string;
   email: string;
   avatar_url?: string;
+  custom_instructions?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+type ProfileUpdates = Partial<Pick<UserProfile, 'name' | 'avatar_url' | 'custom_instructions'>>;
+
 export interface Subscription {
   id: string;
   user_id: string;
@@ -214,7 +217,7 @@ export class SettingsDataLayer {
     }
   }
 
-  async updateProfile(updates: { name?: string; avatar_url?: string }): Promise<{ data: UserProfile | null; error: string | null }> {
+  async updateProfile(updates: ProfileUpdates): Promise<{ data: UserProfile | null; error: string | null }> {
     try {
       await this.ensureInitialized();
 
@@ -322,8 +325,14 @@ export class SettingsDataLayer {
         console.warn('Usage view not available, using defaults');
       }
 
-      const dailyUsed = usageData?.daily_used || 0;
-      const monthlyUsed = usageData?.monthly_used || 0;
+      // RETURNS TABLE functions come back as an array of rows
+      const usageRow = Array.isArray(usageData) ? usageData[0] : usageData;
+      const dailyUsed = Number(usageRow?.daily_used) || 0;
+      const monthlyUsed = Number(usageRow?.monthly_used) || 0;
+
+      // prefer the limits the server enforces
+      dailyLimit = Number(usageRow?.daily_limit) || dailyLimit;
+      monthlyLimit = Number(usageRow?.monthly_limit) || monthlyLimit;
 
       // Calculate next refill date (first day of next month)
       const now = new Date();
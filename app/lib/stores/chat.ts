@@ -1,7 +1,13 @@
-import { map } from 'nanostores';
+import { atom, map } from 'nanostores';
 
 export const chatStore = map({
   started: false,
   aborted: false,
   showChat: true,
 });
+
+/**
+ * A message to send as if the user typed it, e.g. a fix request from an action. `Chat` sends it
+ * once no response is streaming and clears it.
+ */
+export const queuedMessage = atom<string | null>(null);
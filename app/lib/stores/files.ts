@@ -8,6 +8,14 @@ import { WORK_DIR } from '~/utils/constants';
 import { computeFileModifications } from '~/utils/diff';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import { withResolvers } from '~/utils/promises';
+import { safeJsonParse } from '~/utils/sanitize';
+import {
+  getDevServerRestart,
+  getPackageSignature,
+  withDevServerFlags,
+  type PackageSignature,
+} from '~/lib/runtime/dev-server';
 import { webcontainerContext } from '~/lib/webcontainer';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { mkdirp } from '~/lib/webcontainer/fs-helpers';
@@ -18,6 +26,9 @@ const logger = createScopedLogger('FilesStore');
 const utf8TextDecoder = new TextDecoder('utf8', { fatal: true });
 const FILE_WRITE_DEBOUNCE_MS = 250;
 const INSTALL_LOG_LINE_LIMIT = 2000;
+
+// how long a start action waits for the dev server to report that it's ready
+const DEV_SERVER_READY_TIMEOUT_MS = 60_000;
 const INSTALL_WATCHDOG_MS = 120_000;
 
 class InstallLogBuffer {
@@ -107,6 +118,33 @@ export class FilesStore {
    */
   #devProcess: any | null = null;
 
+  /**
+   * Command of the latest start action, used whenever the dev server (re)starts. Without one, the
+   * package's dev or start script runs.
+   */
+  #devCommand: string | null = null;
+
+  /**
+   * The package.json the running dev server started with, to restart it when its dependencies
+   * or scripts change.
+   */
+  #devServerPackage: (PackageSignature & { path: string }) | null = null;
+
+  /**
+   * Resolves once the running dev server reports that it's ready.
+   */
+  #devServerReady: PromiseWithResolvers<void> | null = null;
+
+  /**
+   * Set when the dependencies changed, so the next bootstrap installs even if node_modules exists.
+   */
+  #dependenciesChanged = false;
+
+  /**
+   * The bootstrap in progress, so starting the dev server can wait for it.
+   */
+  #bootstrapPromise: Promise<void> | null = null;
+
   /**
    * Track installation state and retries
    */
@@ -139,6 +177,12 @@ export class FilesStore {
    */
   #modifiedFiles: Map<string, string> = import.meta.hot?.data.modifiedFiles ?? new Map();
 
+  /**
+   * Why the model's edits to these files didn't apply, since the last user message. Sent along
+   * with the next message like the modifications, so the model can redo them.
+   */
+  #failedEdits = new Map<string, string>();
+
   /**
    * Bootstrap function for auto-starting dev servers
    */
@@ -217,6 +261,20 @@ export class FilesStore {
 
   resetFileModifications() {
     this.#modifiedFiles.clear();
+    this.#failedEdits.clear();
+  }
+
+  getFailedEdits() {
+    return Object.fromEntries(this.#failedEdits);
+  }
+
+  recordFailedEdit(filePath: string, error: string) {
+    this.#failedEdits.set(absInWorkdir(filePath), error);
+  }
+
+  // a later edit that applied supersedes the failure
+  clearFailedEdit(filePath: string) {
+    this.#failedEdits.delete(absInWorkdir(filePath));
   }
 
   #enforceMemoryLimits() {
@@ -251,6 +309,130 @@ export class FilesStore {
     await this.#scheduleFileWrite(absPath, content);
   }
 
+  /**
+   * Removes a file, or a folder with everything in it, from the WebContainer and the file map.
+   * Until the WebContainer is ready only the file map changes.
+   */
+  async deletePath(targetPath: string) {
+    const absPath = absInWorkdir(targetPath);
+    const removed = this.#findPaths(absPath);
+
+    this.#cancelPendingWrites(absPath);
+
+    if (webcontainerContext.ready) {
+      const webcontainer = await this.#webcontainer;
+
+      await webcontainer.fs.rm(relToWorkdir(absPath), { recursive: true });
+    } else if (removed.length === 0) {
+      throw new Error(`${targetPath} does not exist`);
+    }
+
+    for (const [direntPath, dirent] of removed) {
+      if (dirent?.type === 'file') {
+        this.#size = Math.max(0, this.#size - 1);
+      }
+
+      this.files.setKey(direntPath, undefined);
+      this.#modifiedFiles.delete(direntPath);
+    }
+
+    logger.debug(`Deleted ${absPath}`);
+  }
+
+  /**
+   * Moves a file or folder, creating the missing parent folders of the destination. Fails when the
+   * destination exists.
+   */
+  async renamePath(fromPath: string, toPath: string) {
+    const fromAbs = absInWorkdir(fromPath);
+    const toAbs = absInWorkdir(toPath);
+
+    if (toAbs === fromAbs || toAbs.startsWith(`${fromAbs}/`)) {
+      throw new Error(`Cannot move ${fromPath} into itself`);
+    }
+
+    if (this.files.get()[toAbs]) {
+      throw new Error(`${toPath} already exists`);
+    }
+
+    const moved = this.#findPaths(fromAbs);
+
+    this.#cancelPendingWrites(fromAbs);
+
+    if (webcontainerContext.ready) {
+      const webcontainer = await this.#webcontainer;
+
+      await mkdirp(webcontainer, toAbs);
+      await webcontainer.fs.rename(relToWorkdir(fromAbs), relToWorkdir(toAbs));
+    } else if (moved.length === 0) {
+      throw new Error(`${fromPath} does not exist`);
+    }
+
+    this.#addParentFolders(toAbs);
+
+    for (const [direntPath, dirent] of moved) {
+      const targetAbs = `${toAbs}${direntPath.slice(fromAbs.length)}`;
+      const originalContent = this.#modifiedFiles.get(direntPath);
+
+      this.files.setKey(direntPath, undefined);
+      this.files.setKey(targetAbs, dirent);
+      this.#modifiedFiles.delete(direntPath);
+
+      if (originalContent !== undefined) {
+        this.#modifiedFiles.set(targetAbs, originalContent);
+      }
+    }
+
+    logger.debug(`Moved ${fromAbs} to ${toAbs}`);
+  }
+
+  /**
+   * Creates a folder and its missing parents. Existing folders are left as they are.
+   */
+  async createFolder(targetPath: string) {
+    const absPath = absInWorkdir(targetPath);
+
+    if (this.files.get()[absPath]?.type === 'file') {
+      throw new Error(`${targetPath} is a file`);
+    }
+
+    if (webcontainerContext.ready) {
+      const webcontainer = await this.#webcontainer;
+
+      await webcontainer.fs.mkdir(relToWorkdir(absPath), { recursive: true });
+    }
+
+    this.#addParentFolders(absPath);
+    this.files.setKey(absPath, { type: 'folder' });
+  }
+
+  // the path itself and everything below it
+  #findPaths(absPath: string) {
+    return Object.entries(this.files.get()).filter(
+      ([direntPath, dirent]) => dirent && (direntPath === absPath || direntPath.startsWith(`${absPath}/`)),
+    );
+  }
+
+  #addParentFolders(absPath: string) {
+    let parent = nodePath.posix.dirname(absPath);
+
+    while (parent.startsWith(`${WORK_DIR}/`) && !this.files.get()[parent]) {
+      this.files.setKey(parent, { type: 'folder' });
+      parent = nodePath.posix.dirname(parent);
+    }
+  }
+
+  // a debounced write flushed after a delete or move would bring the old path back
+  #cancelPendingWrites(absPath: string) {
+    for (const [pendingPath, pending] of this.#pendingWrites) {
+      if (pendingPath === absPath || pendingPath.startsWith(`${absPath}/`)) {
+        clearTimeout(pending.timer);
+        this.#pendingWrites.delete(pendingPath);
+        pending.resolvers.forEach((resolve) => resolve());
+      }
+    }
+  }
+
   #scheduleFileWrite(absPath: string, content: string) {
     return new Promise<void>((resolve, reject) => {
       const existing = this.#pendingWrites.get(absPath);
@@ -468,7 +650,14 @@ export class FilesStore {
 
           let pkg = JSON.parse(pkgContent);
 
-          const installOutcome = await this.#ensureDependenciesInstalled(wc, projectRootAbs, projectRootRel, pkgRel, pkg, hasNodeModules);
+          const installOutcome = await this.#ensureDependenciesInstalled(
+            wc,
+            projectRootAbs,
+            projectRootRel,
+            pkgRel,
+            pkg,
+            hasNodeModules && !this.#dependenciesChanged,
+          );
           if (!installOutcome.success) {
             const logs = installOutcome.failureTail?.length
               ? installOutcome.failureTail.join('\n')
@@ -488,33 +677,26 @@ export class FilesStore {
           }
 
           pkg = installOutcome.pkg;
-
-          const deps = { ...(pkg?.dependencies || {}), ...(pkg?.devDependencies || {}) } as Record<string, string>;
-          const hasVite = typeof deps['vite'] === 'string';
-          const hasNext = typeof deps['next'] === 'string';
-
-          pkg = await this.#normalizeDevScript(wc, pkgRel, pkg, { hasNext, hasVite });
+          this.#dependenciesChanged = false;
 
           await this.#ensureScaffolding(pkg, projectRootAbs);
 
-          const hasDevScript = Boolean(pkg?.scripts?.dev);
-          logger.info(`🚀 Has dev script: ${hasDevScript}, script: ${pkg?.scripts?.dev || 'none'}`);
-
           const headerPatchRequireArg = await this.#ensurePreviewHeaderPatch(wc, projectRootAbs);
 
-          const devCommand = this.#buildDevCommand({ hasDevScript, hasNext, hasVite }, targetPort);
+          const devCommand = this.#devCommand ?? this.#getScriptCommand(pkg);
           if (!devCommand) {
-            logger.warn('⚠️ Unable to determine dev server command; falling back to static preview');
+            logger.warn('⚠️ No start action or dev script; falling back to static preview');
             await this.#startStaticPreview({
               rootAbs: projectRootAbs,
               reason: 'no-dev-command',
-              fallbackMessage: 'Unable to determine the correct dev server command. Serving the latest generated files statically.',
+              fallbackMessage: 'The project has no dev script. Serving the latest generated files statically.',
               port: targetPort,
             });
             return;
           }
 
-          const cmd = `cd ${projectRootAbs} && ${devCommand}`;
+          // vite and next ignore PORT, and the preview waits for the server on `targetPort`
+          const cmd = `cd ${projectRootAbs} && ${withDevServerFlags(devCommand, pkg, targetPort)}`;
 
           logger.info('🌐 Starting dev server');
           logger.info(`📝 Dev command: ${cmd}`);
@@ -533,11 +715,22 @@ export class FilesStore {
           await this.#stopCurrentProcess({ resetBootstrap: false, resetPreview: false });
           this.bootstrapAttempted = true;
 
-          this.#devProcess = await wc.spawn('/bin/jsh', ['-c', cmd], {
+          const devProcess = await wc.spawn('/bin/jsh', ['-c', cmd], {
             env: spawnEnv,
           });
+          this.#devProcess = devProcess;
           logger.info('✅ Dev server process spawned');
           this.#bootstrapMode = 'dev';
+          this.#devServerPackage = { path: pkgPathAbs, ...getPackageSignature(pkg) };
+
+          const ready = withResolvers<void>();
+          this.#devServerReady = ready;
+
+          const removePortListener = wc.on('port', (_port, type) => {
+            if (type === 'open') {
+              ready.resolve();
+            }
+          });
 
           // Watch dev server output
           const outputDecoder = new TextDecoder();
@@ -571,6 +764,7 @@ export class FilesStore {
                   // Skip localhost-based readiness check - PreviewsStore handles this via WebContainer port events
                   if (!readinessScheduled && this.#hasReadinessSignal(readinessBuffer, targetPort)) {
                     readinessScheduled = true;
+                    ready.resolve();
                     logger.info(`🎯 Dev server readiness detected for port ${targetPort} (preview URL will be set by WebContainer port event)`);
                     // PreviewsStore.portHandler already called markPreviewReady with the real WebContainer URL
                   }
@@ -586,27 +780,35 @@ export class FilesStore {
             )
             .catch(() => {});
 
-          // Reset pointer when process exits
-          this.#devProcess.exit.then((exitCode: number) => {
-            logger.warn(`⚠️ Dev server process exited with code ${exitCode}`);
-            this.#devProcess = null;
-            if (this.#bootstrapMode === 'dev') {
-              this.#bootstrapMode = 'idle';
+          // reset the pointer when the process exits, unless a restart already replaced it
+          const resetDevProcess = () => {
+            removePortListener();
+
+            if (this.#devProcess !== devProcess) {
+              return;
             }
-            this.#currentPort = null;
-            this.#previewReadyPorts.clear();
-            this.bootstrapAttempted = false;
-          }).catch((error: unknown) => {
-            logger.error(`❌ Dev server process error:`, error);
+
             this.#devProcess = null;
+            this.#devServerReady = null;
+
             if (this.#bootstrapMode === 'dev') {
               this.#bootstrapMode = 'idle';
             }
+
             this.#currentPort = null;
             this.#previewReadyPorts.clear();
             this.bootstrapAttempted = false;
-          });
+          };
 
+          devProcess.exit
+            .then((exitCode: number) => {
+              logger.warn(`⚠️ Dev server process exited with code ${exitCode}`);
+              resetDevProcess();
+            })
+            .catch((error: unknown) => {
+              logger.error(`❌ Dev server process error:`, error);
+              resetDevProcess();
+            });
         } catch (e) {
           logger.error('❌ Auto-bootstrap failed (non-fatal):', e instanceof Error ? e.message : String(e));
         } finally {
@@ -616,8 +818,14 @@ export class FilesStore {
         }
       };
 
-      // Store the bootstrap function for reuse
-      this.tryBootstrap = tryBootstrap;
+      // store the bootstrap function for reuse; calls while it runs share the running bootstrap
+      this.tryBootstrap = () => {
+        this.#bootstrapPromise ??= tryBootstrap().finally(() => {
+          this.#bootstrapPromise = null;
+        });
+
+        return this.#bootstrapPromise;
+      };
 
       // Don't run initial bootstrap - wait for package.json to be created
       this.#initialized = true;
@@ -729,7 +937,9 @@ export class FilesStore {
 
             const isPackageJson = this.#isPackageJsonPath(absFilePath);
 
-            if (isPackageJson && this.tryBootstrap) {
+            if (isPackageJson && this.#devProcess && this.#bootstrapMode === 'dev') {
+              this.#scheduleDevServerRestart(absFilePath);
+            } else if (isPackageJson && this.tryBootstrap) {
               // Only reset bootstrapAttempted if we're in static mode and need to retry
               if (this.#bootstrapMode === 'static' && !this.#installFailed) {
                 this.bootstrapAttempted = false;
@@ -958,56 +1168,121 @@ http.ServerResponse.prototype.writeHead = function patchedWriteHead(statusCode,
     }
   }
 
-  #buildDevCommand(
-    options: { hasDevScript: boolean; hasNext: boolean; hasVite: boolean },
-    port: number,
-  ): string | null {
-    if (options.hasNext) {
-      return `pnpm exec next dev --port ${port} --hostname 0.0.0.0`;
+  #getScriptCommand(pkg: any) {
+    if (pkg?.scripts?.dev) {
+      return 'pnpm run dev';
     }
 
-    if (options.hasVite) {
-      return `pnpm exec vite --host 0.0.0.0 --port ${port}`;
-    }
-
-    if (options.hasDevScript) {
-      return `HOST=0.0.0.0 PORT=${port} pnpm run dev`;
+    if (pkg?.scripts?.start) {
+      return 'pnpm run start';
     }
 
     return null;
   }
 
-  async #normalizeDevScript(
-    wc: WebContainer,
-    pkgRel: string,
-    pkg: any,
-    options: { hasNext: boolean; hasVite: boolean },
-  ) {
-    const scripts = (pkg.scripts ??= {});
-    const original = typeof scripts.dev === 'string' ? scripts.dev.trim() : '';
-    let changed = false;
+  /**
+   * Starts the dev server for a start action and resolves once it's ready. The running server is
+   * stopped first, and later package.json changes restart it with the same command. Rejects when
+   * the server can't be started or exits before it's ready.
+   */
+  async startDevServer(command: string, signal?: AbortSignal) {
+    this.#devCommand = command;
 
-    if (options.hasNext) {
-      const desired = 'next dev';
-      if (original !== desired) {
-        scripts.dev = desired;
-        changed = true;
-        logger.info('🛠 Normalized Next.js dev script');
-      }
-    } else if (options.hasVite) {
-      const desired = 'vite';
-      if (original !== desired) {
-        scripts.dev = desired;
-        changed = true;
-        logger.info('🛠 Normalized Vite dev script');
+    if (!webcontainerContext.ready) {
+      logger.info('⏭️ WebContainer not ready; the dev server starts once it initializes');
+      return;
+    }
+
+    // a running bootstrap may be installing the dependencies the server needs
+    await this.#bootstrapPromise;
+    await this.#stopCurrentProcess({ resetPreview: false });
+    await this.tryBootstrap?.();
+
+    const devProcess = this.#devProcess;
+    const ready = this.#devServerReady;
+
+    if (!devProcess || !ready || this.#bootstrapMode !== 'dev') {
+      throw new Error(
+        this.#installFailed
+          ? 'Installing the dependencies failed, so the dev server did not start. Check the terminal for errors.'
+          : 'The dev server did not start. Check the terminal for errors.',
+      );
+    }
+
+    const onAbort = () => {
+      if (this.#devProcess === devProcess) {
+        void this.#stopCurrentProcess({ resetPreview: false });
       }
+
+      ready.resolve();
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const exited = devProcess.exit.then((exitCode: number) => {
+      throw new Error(
+        `The dev server exited with code ${exitCode} before it was ready. Check the terminal for errors.`,
+      );
+    });
+
+    const timeout = setTimeout(() => {
+      logger.warn('Dev server did not report readiness in time; assuming it is running');
+      ready.resolve();
+    }, DEV_SERVER_READY_TIMEOUT_MS);
+
+    try {
+      await Promise.race([ready.promise, exited]);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
     }
+  }
 
-    if (changed) {
-      await this.#writePackageJson(wc, pkgRel, pkg);
+  /**
+   * Debounced, so the edits made in quick succession, e.g. by autofixes, restart the server once.
+   */
+  #scheduleDevServerRestart(pkgPath: string) {
+    const existingTimer = this.#debounceTimers.get('restart-dev');
+
+    if (existingTimer) {
+      clearTimeout(existingTimer);
     }
 
-    return pkg;
+    this.#debounceTimers.set(
+      'restart-dev',
+      setTimeout(() => {
+        this.#debounceTimers.delete('restart-dev');
+        void this.#restartDevServer(pkgPath);
+      }, 1000) as unknown as number,
+    );
+  }
+
+  /**
+   * Restarts the dev server when the dependencies or scripts in its package.json changed since it
+   * started. Changed dependencies are installed first.
+   */
+  async #restartDevServer(pkgPath: string) {
+    const running = this.#devServerPackage;
+    const file = this.getFile(pkgPath);
+    const pkg = file ? safeJsonParse(file.content, null) : null;
+
+    // wait for a valid package.json; a start action or bootstrap in progress starts the server itself
+    if (!pkg || running?.path !== pkgPath || this.#bootstrapMode !== 'dev' || this.#bootstrapPromise) {
+      return;
+    }
+
+    const restart = getDevServerRestart(running, pkg);
+
+    if (restart === 'none') {
+      return;
+    }
+
+    logger.info('📋 package.json changed; restarting the dev server');
+
+    this.#dependenciesChanged ||= restart === 'reinstall';
+
+    await this.#stopCurrentProcess({ resetPreview: false });
+    await this.tryBootstrap?.();
   }
 
   #getSafePort(start = 5174, end = 5299) {
@@ -1244,6 +1519,8 @@ http.ServerResponse.prototype.writeHead = function patchedWriteHead(statusCode,
 
     const process = this.#devProcess;
     this.#devProcess = null;
+    this.#devServerReady = null;
+    this.#devServerPackage = null;
 
     try {
       process.kill?.();
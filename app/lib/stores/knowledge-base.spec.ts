@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  addKnowledgeBaseEntry,
+  addKnowledgeCollection,
+  getChatKnowledgeEntries,
+  importKnowledgeBaseEntries,
+  knowledgeBaseStore,
+  removeKnowledgeCollection,
+  updateKnowledgeBaseEntry,
+} from './knowledge-base';
+import { MAX_ENTRY_LENGTH } from '~/lib/knowledge/import';
+
+beforeEach(() => {
+  knowledgeBaseStore.set({ entries: [], collections: [], deleted: {}, deletedCollections: {}, pending: [] });
+});
+
+describe('entry length', () => {
+  it('should accept entries up to the limit, ignoring surrounding whitespace', () => {
+    const id = addKnowledgeBaseEntry({ title: 'Long', content: ` ${'a'.repeat(MAX_ENTRY_LENGTH)}\n` });
+
+    expect(knowledgeBaseStore.get().entries.find((entry) => entry.id === id)?.content).toHaveLength(MAX_ENTRY_LENGTH);
+  });
+
+  it('should reject new entries over the limit', () => {
+    expect(() => addKnowledgeBaseEntry({ title: 'Too long', content: 'a'.repeat(MAX_ENTRY_LENGTH + 1) })).toThrow(
+      RangeError,
+    );
+    expect(knowledgeBaseStore.get().entries).toEqual([]);
+    expect(knowledgeBaseStore.get().pending).toEqual([]);
+  });
+
+  it('should import none of the entries when one is over the limit', () => {
+    expect(() =>
+      importKnowledgeBaseEntries([
+        { title: 'Fine', content: 'Fine.' },
+        { title: 'Too long', content: 'a'.repeat(MAX_ENTRY_LENGTH + 1) },
+      ]),
+    ).toThrow(RangeError);
+    expect(knowledgeBaseStore.get().entries).toEqual([]);
+  });
+
+  it('should reject updates over the limit and keep the entry unchanged', () => {
+    const id = addKnowledgeBaseEntry({ title: 'Note', content: 'Short.' });
+
+    expect(() => updateKnowledgeBaseEntry(id, { content: 'a'.repeat(MAX_ENTRY_LENGTH + 1) })).toThrow(RangeError);
+    expect(knowledgeBaseStore.get().entries[0].content).toBe('Short.');
+  });
+});
+
+describe('collections', () => {
+  it('should only send the entries of attached collections, plus the shared ones', () => {
+    const project = addKnowledgeCollection('Project');
+    const other = addKnowledgeCollection('Other');
+    const shared = addKnowledgeBaseEntry({ title: 'Shared', content: 'Shared.' });
+    const inProject = addKnowledgeBaseEntry({ title: 'Project', content: 'Project.', collectionId: project });
+
+    addKnowledgeBaseEntry({ title: 'Other', content: 'Other.', collectionId: other });
+
+    const ids = getChatKnowledgeEntries(knowledgeBaseStore.get(), [project]).map((entry) => entry.id);
+
+    expect(ids).toEqual([shared, inProject]);
+  });
+
+  it('should not send the entries of a removed collection to any chat', () => {
+    const project = addKnowledgeCollection('Project');
+    const shared = addKnowledgeBaseEntry({ title: 'Shared', content: 'Shared.' });
+    const inProject = addKnowledgeBaseEntry({ title: 'Project', content: 'Project.', collectionId: project });
+
+    removeKnowledgeCollection(project);
+
+    const state = knowledgeBaseStore.get();
+
+    expect(getChatKnowledgeEntries(state, [project]).map((entry) => entry.id)).toEqual([shared]);
+    expect(getChatKnowledgeEntries(state).map((entry) => entry.id)).toEqual([shared]);
+    expect(state.deleted[inProject]).toBeDefined();
+    expect(state.pending).toEqual(expect.arrayContaining([project, inProject]));
+  });
+
+  it('should not send entries whose collection was deleted on another device', () => {
+    const project = addKnowledgeCollection('Project');
+
+    addKnowledgeBaseEntry({ title: 'Project', content: 'Project.', collectionId: project });
+
+    // the deletion of the collection was pulled before the deletion of its entries
+    knowledgeBaseStore.set({ ...knowledgeBaseStore.get(), collections: [] });
+
+    expect(getChatKnowledgeEntries(knowledgeBaseStore.get(), [project])).toEqual([]);
+  });
+});
@@ -1,21 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { atom } from 'nanostores';
+import { MAX_ENTRY_LENGTH } from '~/lib/knowledge/import';
+import {
+  COLLECTIONS_TABLE,
+  ENTRIES_TABLE,
+  getPendingRows,
+  markPushed,
+  mergeRemoteCollections,
+  mergeRemoteEntries,
+  pullKnowledgeRows,
+  pushKnowledgeRows,
+  type KnowledgeCollectionRow,
+  type KnowledgeEntryRow,
+} from '~/lib/knowledge/sync';
 
 export type KnowledgeBaseEntry = {
   id: string;
   title: string;
   content: string;
+  tags: string[];
+
+  /** name of the file the entry was imported from */
+  source?: string;
+
+  /** entries without a collection are sent with every chat */
+  collectionId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** a group of entries, e.g. for one project, that chats only receive when it is attached to them */
+export type KnowledgeCollection = {
+  id: string;
+  name: string;
   createdAt: string;
   updatedAt: string;
 };
 
 export type KnowledgeBaseState = {
   entries: KnowledgeBaseEntry[];
+  collections: KnowledgeCollection[];
+
+  /** when each deleted entry was deleted, kept until the deletion is synced */
+  deleted: Record<string, string>;
+  deletedCollections: Record<string, string>;
+
+  /** ids of the entries and collections changed or deleted since they were last synced */
+  pending: string[];
+
+  /** account the entries are synced with */
+  userId?: string;
+
+  /** server time of the newest change pulled from Supabase */
+  syncedAt?: string;
+  collectionsSyncedAt?: string;
+};
+
+export type KnowledgeSyncState = {
+  /** `local` when signed out or Supabase isn't configured, so entries only live in this browser */
+  status: 'local' | 'syncing' | 'synced' | 'error';
+  error?: string;
+  lastSyncedAt?: string;
+};
+
+export type KnowledgeEntryDraft = {
+  title: string;
+  content: string;
+  tags?: string[];
+  source?: string;
+  collectionId?: string;
 };
 
 const STORAGE_KEY = 'knowledge_base_v1';
-const defaultState: KnowledgeBaseState = { entries: [] };
+const defaultState: KnowledgeBaseState = {
+  entries: [],
+  collections: [],
+  deleted: {},
+  deletedCollections: {},
+  pending: [],
+};
+
+// changes made in quick succession are pushed together
+const SYNC_DELAY_MS = 1_500;
 
 const knowledgeBaseStore = atom<KnowledgeBaseState>(defaultState);
+const knowledgeSyncStore = atom<KnowledgeSyncState>({ status: 'local' });
+
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+let activeSync: Promise<void> | undefined;
+let syncAgain = false;
 
 function createId() {
   try {
@@ -27,24 +100,59 @@ function createId() {
   return `kb_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) {
+    return [];
+  }
+
+  const normalized = tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+
+  return [...new Set(normalized)];
+}
+
 function sanitizeEntries(entries: unknown): KnowledgeBaseEntry[] {
   if (!Array.isArray(entries)) return [];
 
   return entries
-    .map((entry) => {
+    .map((entry): KnowledgeBaseEntry | null => {
       if (!entry || typeof entry !== 'object') return null;
 
       const id = typeof (entry as any).id === 'string' ? (entry as any).id : createId();
       const title = typeof (entry as any).title === 'string' ? (entry as any).title : '';
       const content = typeof (entry as any).content === 'string' ? (entry as any).content : '';
+      const tags = normalizeTags((entry as any).tags);
+      const source = typeof (entry as any).source === 'string' ? (entry as any).source : undefined;
+      const collectionId = typeof (entry as any).collectionId === 'string' ? (entry as any).collectionId : undefined;
       const createdAt = typeof (entry as any).createdAt === 'string' ? (entry as any).createdAt : new Date().toISOString();
       const updatedAt = typeof (entry as any).updatedAt === 'string' ? (entry as any).updatedAt : createdAt;
 
-      return { id, title, content, createdAt, updatedAt } satisfies KnowledgeBaseEntry;
+      return { id, title, content, tags, source, collectionId, createdAt, updatedAt } satisfies KnowledgeBaseEntry;
     })
     .filter((entry): entry is KnowledgeBaseEntry => entry !== null);
 }
 
+function sanitizeCollections(collections: unknown): KnowledgeCollection[] {
+  if (!Array.isArray(collections)) {
+    return [];
+  }
+
+  return collections.filter(
+    (collection): collection is KnowledgeCollection =>
+      Boolean(collection) &&
+      typeof collection.id === 'string' &&
+      typeof collection.name === 'string' &&
+      typeof collection.createdAt === 'string' &&
+      typeof collection.updatedAt === 'string',
+  );
+}
+
+function sanitizeTimestamps(value: unknown): Record<string, string> {
+  return value && typeof value === 'object' ? (value as Record<string, string>) : {};
+}
+
 function loadKnowledgeBase(): KnowledgeBaseState {
   if (typeof window === 'undefined') return defaultState;
 
@@ -53,12 +161,27 @@ function loadKnowledgeBase(): KnowledgeBaseState {
     if (!raw) return defaultState;
 
     const parsed = JSON.parse(raw);
+
+    // entries saved before sync existed are uploaded on the first sync
     if (Array.isArray(parsed)) {
-      return { entries: sanitizeEntries(parsed) };
+      const entries = sanitizeEntries(parsed);
+      return { ...defaultState, entries, pending: entries.map((entry) => entry.id) };
     }
 
     if (parsed && typeof parsed === 'object' && 'entries' in parsed) {
-      return { entries: sanitizeEntries((parsed as any).entries) };
+      const entries = sanitizeEntries((parsed as any).entries);
+      const pending = Array.isArray(parsed.pending) ? parsed.pending : entries.map((entry) => entry.id);
+
+      return {
+        entries,
+        collections: sanitizeCollections(parsed.collections),
+        deleted: sanitizeTimestamps(parsed.deleted),
+        deletedCollections: sanitizeTimestamps(parsed.deletedCollections),
+        pending,
+        userId: typeof parsed.userId === 'string' ? parsed.userId : undefined,
+        syncedAt: typeof parsed.syncedAt === 'string' ? parsed.syncedAt : undefined,
+        collectionsSyncedAt: typeof parsed.collectionsSyncedAt === 'string' ? parsed.collectionsSyncedAt : undefined,
+      };
     }
   } catch (error) {
     console.warn('[knowledge-base] Failed to load from storage', error);
@@ -77,38 +200,72 @@ function persist(state: KnowledgeBaseState) {
   }
 }
 
-export { knowledgeBaseStore };
+function commit(state: KnowledgeBaseState) {
+  knowledgeBaseStore.set(state);
+  persist(state);
+}
+
+function markPending(state: KnowledgeBaseState, ids: string[]) {
+  return { ...state, pending: [...new Set([...state.pending, ...ids])] };
+}
+
+export { knowledgeBaseStore, knowledgeSyncStore };
 
 export function hydrateKnowledgeBase() {
   const next = loadKnowledgeBase();
   knowledgeBaseStore.set(next);
 }
 
-export function addKnowledgeBaseEntry(entry: { title: string; content: string }) {
+// longer entries would be rejected by the database and fail the whole sync
+function assertEntryLength(content: string) {
+  if (content.length > MAX_ENTRY_LENGTH) {
+    throw new RangeError(
+      `Knowledge base entries can have at most ${MAX_ENTRY_LENGTH.toLocaleString('en-US')} characters. Import long documents as files to split them.`,
+    );
+  }
+}
+
+function createEntry(entry: KnowledgeEntryDraft): KnowledgeBaseEntry {
   const now = new Date().toISOString();
-  const normalizedTitle = entry.title.trim();
-  const normalizedContent = entry.content.trim();
+  const content = entry.content.trim();
 
-  const newEntry: KnowledgeBaseEntry = {
+  assertEntryLength(content);
+
+  return {
     id: createId(),
-    title: normalizedTitle,
-    content: normalizedContent,
+    title: entry.title.trim(),
+    content,
+    tags: normalizeTags(entry.tags),
+    source: entry.source,
+    collectionId: entry.collectionId,
     createdAt: now,
     updatedAt: now,
   };
+}
+
+export function addKnowledgeBaseEntry(entry: KnowledgeEntryDraft) {
+  return importKnowledgeBaseEntries([entry])[0];
+}
 
+/**
+ * Adds several entries at once, e.g. the ones imported from files, and returns their ids. Throws
+ * without adding any when one is longer than `MAX_ENTRY_LENGTH`.
+ */
+export function importKnowledgeBaseEntries(drafts: KnowledgeEntryDraft[]) {
+  const newEntries = drafts.map(createEntry);
+  const ids = newEntries.map((entry) => entry.id);
   const current = knowledgeBaseStore.get();
-  const next = { entries: [...current.entries, newEntry] } satisfies KnowledgeBaseState;
 
-  knowledgeBaseStore.set(next);
-  persist(next);
+  commit(markPending({ ...current, entries: [...current.entries, ...newEntries] }, ids));
+  scheduleKnowledgeSync();
 
-  return newEntry.id;
+  return ids;
 }
 
+/** Throws when the new content is longer than `MAX_ENTRY_LENGTH`. */
 export function updateKnowledgeBaseEntry(
   id: string,
-  updates: Partial<Pick<KnowledgeBaseEntry, 'title' | 'content'>>,
+  updates: Partial<Pick<KnowledgeBaseEntry, 'title' | 'content' | 'tags' | 'collectionId'>>,
 ) {
   const current = knowledgeBaseStore.get();
   const index = current.entries.findIndex((entry) => entry.id === id);
@@ -119,43 +276,233 @@ export function updateKnowledgeBaseEntry(
   const normalizedContent =
     typeof updates.content === 'string' ? updates.content.trim() : current.entries[index].content;
 
+  assertEntryLength(normalizedContent);
+
   const updatedEntry: KnowledgeBaseEntry = {
     ...current.entries[index],
     title: normalizedTitle,
     content: normalizedContent,
+    tags: updates.tags ? normalizeTags(updates.tags) : current.entries[index].tags,
+    collectionId: 'collectionId' in updates ? updates.collectionId : current.entries[index].collectionId,
     updatedAt: new Date().toISOString(),
   };
 
   const nextEntries = [...current.entries];
   nextEntries[index] = updatedEntry;
 
-  const next = { entries: nextEntries } satisfies KnowledgeBaseState;
-
-  knowledgeBaseStore.set(next);
-  persist(next);
+  commit(markPending({ ...current, entries: nextEntries }, [id]));
+  scheduleKnowledgeSync();
 }
 
 export function removeKnowledgeBaseEntry(id: string) {
+  removeEntries([id]);
+}
+
+export function clearKnowledgeBase() {
+  removeEntries(knowledgeBaseStore.get().entries.map((entry) => entry.id));
+}
+
+function removeEntries(ids: string[]) {
+  const current = knowledgeBaseStore.get();
+  const now = new Date().toISOString();
+  const deleted = { ...current.deleted };
+
+  for (const id of ids) {
+    deleted[id] = now;
+  }
+
+  const nextEntries = current.entries.filter((entry) => !ids.includes(entry.id));
+
+  commit(markPending({ ...current, entries: nextEntries, deleted }, ids));
+  scheduleKnowledgeSync();
+}
+
+export function addKnowledgeCollection(name: string) {
+  const now = new Date().toISOString();
+  const collection: KnowledgeCollection = { id: createId(), name: name.trim(), createdAt: now, updatedAt: now };
   const current = knowledgeBaseStore.get();
-  const nextEntries = current.entries.filter((entry) => entry.id !== id);
 
-  const next = { entries: nextEntries } satisfies KnowledgeBaseState;
-  knowledgeBaseStore.set(next);
-  persist(next);
+  commit(markPending({ ...current, collections: [...current.collections, collection] }, [collection.id]));
+  scheduleKnowledgeSync();
+
+  return collection.id;
 }
 
-export function clearKnowledgeBase() {
-  knowledgeBaseStore.set(defaultState);
-  persist(defaultState);
+export function renameKnowledgeCollection(id: string, name: string) {
+  const current = knowledgeBaseStore.get();
+  const updatedAt = new Date().toISOString();
+
+  const collections = current.collections.map((collection) =>
+    collection.id === id ? { ...collection, name: name.trim(), updatedAt } : collection,
+  );
+
+  commit(markPending({ ...current, collections }, [id]));
+  scheduleKnowledgeSync();
+}
+
+/** Deletes a collection and the entries in it. */
+export function removeKnowledgeCollection(id: string) {
+  const current = knowledgeBaseStore.get();
+  const now = new Date().toISOString();
+  const removed = current.entries.filter((entry) => entry.collectionId === id).map((entry) => entry.id);
+  const deleted = { ...current.deleted };
+
+  for (const entryId of removed) {
+    deleted[entryId] = now;
+  }
+
+  commit(
+    markPending(
+      {
+        ...current,
+        entries: current.entries.filter((entry) => entry.collectionId !== id),
+        collections: current.collections.filter((collection) => collection.id !== id),
+        deleted,
+        deletedCollections: { ...current.deletedCollections, [id]: now },
+      },
+      [id, ...removed],
+    ),
+  );
+  scheduleKnowledgeSync();
+}
+
+/**
+ * The entries a chat receives: the ones without a collection, and the ones in the collections
+ * attached to it. Entries whose collection no longer exists, e.g. when its deletion was synced
+ * before theirs, aren't sent to any chat.
+ */
+export function getChatKnowledgeEntries(state: KnowledgeBaseState, attachedCollections: string[] = []) {
+  const attached = new Set(
+    state.collections.map((collection) => collection.id).filter((id) => attachedCollections.includes(id)),
+  );
+
+  return state.entries.filter((entry) => !entry.collectionId || attached.has(entry.collectionId));
+}
+
+/**
+ * Pulls the entries changed in Supabase since the last sync and pushes the local changes. Entries
+ * stay local while signed out, and until the next sync when it fails.
+ */
+export function syncKnowledgeBase(): Promise<void> {
+  if (activeSync) {
+    syncAgain = true;
+    return activeSync;
+  }
+
+  activeSync = runSync().finally(() => {
+    activeSync = undefined;
+
+    if (syncAgain) {
+      syncAgain = false;
+      scheduleKnowledgeSync();
+    }
+  });
+
+  return activeSync;
+}
+
+export function scheduleKnowledgeSync(delay = SYNC_DELAY_MS) {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  clearTimeout(syncTimer);
+  syncTimer = setTimeout(() => void syncKnowledgeBase(), delay);
+}
+
+async function runSync() {
+  let supabase: SupabaseClient;
+
+  try {
+    ({ supabase } = await import('~/lib/supabase'));
+  } catch {
+    knowledgeSyncStore.set({ status: 'local' });
+    return;
+  }
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  const userId: string | undefined = session?.user?.id;
+
+  if (!userId) {
+    knowledgeSyncStore.set({ status: 'local' });
+    return;
+  }
+
+  knowledgeSyncStore.set({ ...knowledgeSyncStore.get(), status: 'syncing', error: undefined });
+
+  try {
+    const current = knowledgeBaseStore.get();
+
+    if (current.userId !== userId) {
+      // entries of another account that used this browser aren't carried over
+      commit(
+        current.userId
+          ? { ...defaultState, userId }
+          : { ...current, userId, syncedAt: undefined, collectionsSyncedAt: undefined },
+      );
+    }
+
+    const collectionRows = await pullKnowledgeRows<KnowledgeCollectionRow>(
+      supabase,
+      COLLECTIONS_TABLE,
+      userId,
+      knowledgeBaseStore.get().collectionsSyncedAt,
+    );
+    const entryRows = await pullKnowledgeRows<KnowledgeEntryRow>(
+      supabase,
+      ENTRIES_TABLE,
+      userId,
+      knowledgeBaseStore.get().syncedAt,
+    );
+
+    commit(mergeRemoteEntries(mergeRemoteCollections(knowledgeBaseStore.get(), collectionRows), entryRows));
+
+    const pushed = knowledgeBaseStore.get();
+    const pendingRows = getPendingRows(pushed, userId);
+
+    await pushKnowledgeRows(supabase, COLLECTIONS_TABLE, pendingRows.collections);
+    await pushKnowledgeRows(supabase, ENTRIES_TABLE, pendingRows.entries);
+
+    commit(markPushed(knowledgeBaseStore.get(), pushed));
+    knowledgeSyncStore.set({ status: 'synced', lastSyncedAt: new Date().toISOString() });
+  } catch (error) {
+    console.warn('[knowledge-base] Failed to sync', error);
+    knowledgeSyncStore.set({
+      ...knowledgeSyncStore.get(),
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to sync the knowledge base',
+    });
+  }
+}
+
+async function watchAuth() {
+  try {
+    const { supabase } = await import('~/lib/supabase');
+
+    supabase.auth.onAuthStateChange((event: string) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+        scheduleKnowledgeSync(0);
+      }
+    });
+  } catch {
+    // supabase isn't configured, entries stay in this browser
+  }
 }
 
 if (typeof window !== 'undefined') {
   hydrateKnowledgeBase();
+  scheduleKnowledgeSync(0);
+  void watchAuth();
 
   window.addEventListener('storage', (event) => {
     if (event.key === STORAGE_KEY) {
       hydrateKnowledgeBase();
     }
   });
+
+  window.addEventListener('online', () => scheduleKnowledgeSync(0));
+  window.addEventListener('focus', () => scheduleKnowledgeSync());
 }
 
@@ -0,0 +1,37 @@
+import { atom } from 'nanostores';
+import type { ModelCatalog } from '~/types/model';
+
+export type ModelCatalogState = ModelCatalog & {
+  loaded: boolean;
+};
+
+const defaultState: ModelCatalogState = { models: [], loaded: false };
+
+export const modelCatalogStore = atom<ModelCatalogState>(defaultState);
+
+let pendingLoad: Promise<void> | undefined;
+
+/**
+ * Fetches the configured models from `/api/models` once per page load. Failures leave the catalog
+ * empty so the chat keeps using the server default.
+ */
+export function loadModelCatalog() {
+  if (!pendingLoad) {
+    pendingLoad = fetch('/api/models')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load models: ${response.status}`);
+        }
+
+        const catalog = (await response.json()) as ModelCatalog;
+
+        modelCatalogStore.set({ ...catalog, loaded: true });
+      })
+      .catch((error) => {
+        console.warn('[models] Failed to load model catalog', error);
+        modelCatalogStore.set({ ...defaultState, loaded: true });
+      });
+  }
+
+  return pendingLoad;
+}
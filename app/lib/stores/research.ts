@@ -1,5 +1,7 @@
 import { atom, map, type MapStore, type WritableAtom } from 'nanostores';
+import { auth } from '~/lib/supabase';
 import type { ResearchTask } from '~/types/research';
+import { handleUsageLimitError, loadUsageQuota } from './usage';
 
 export class ResearchStore {
   currentTaskId: WritableAtom<string | null> = import.meta.hot?.data.currentTaskId ?? atom(null);
@@ -50,16 +52,20 @@ export class ResearchStore {
     try {
       const response = await fetch('/api/research-v2', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await auth.getAuthHeaders()) },
         body: JSON.stringify({ goal, mode }),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' })) as { error?: string };
         console.error('[ResearchStore] API error:', errorData);
+        handleUsageLimitError(errorData);
         throw new Error(errorData?.error || 'Failed to start research');
       }
 
+      // the run now counts against today's allowance
+      loadUsageQuota();
+
       const data = (await response.json()) as { taskId: string };
       console.log('[ResearchStore] Research started with taskId:', data.taskId);
       this.currentTaskId.set(data.taskId);
@@ -1,13 +1,25 @@
 import { atom } from 'nanostores';
+import type { ActionProtocol } from '~/types/actions';
+import type { ChatIntent } from '~/types/intent';
 
 export type AppSettings = {
   showTokenUsage: boolean;
   editorLineWrapping: boolean;
+
+  /** how the model makes workspace changes; models without tool calling always use artifacts */
+  actionProtocol: ActionProtocol;
+
+  /** model selector used for new chats; the server default applies when unset */
+  defaultModel?: string;
+
+  /** answers every message as this kind of request; the server classifies each message when unset */
+  chatIntent?: ChatIntent;
 };
 
 const DEFAULT_SETTINGS: AppSettings = {
   showTokenUsage: false,
   editorLineWrapping: true,
+  actionProtocol: 'artifact',
 };
 
 const STORAGE_KEY = 'app_settings_v1';
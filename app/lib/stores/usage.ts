@@ -0,0 +1,53 @@
+import { atom } from 'nanostores';
+import { auth } from '~/lib/supabase';
+import type { UsageLimitExceeded, UsageQuota } from '~/types/usage';
+
+/** the signed-in user's quota; `undefined` until loaded or when the server doesn't meter usage */
+export const usageQuotaStore = atom<UsageQuota | undefined>(undefined);
+
+/**
+ * Refreshes the quota from `/api/usage`. Called on load and after each metered request finishes.
+ */
+export async function loadUsageQuota() {
+  try {
+    const response = await fetch('/api/usage', { headers: await auth.getAuthHeaders() });
+
+    if (!response.ok) {
+      // signed out or metering unavailable
+      usageQuotaStore.set(undefined);
+      return;
+    }
+
+    const { quota } = (await response.json()) as { quota: UsageQuota | null };
+
+    usageQuotaStore.set(quota ?? undefined);
+  } catch (error) {
+    console.warn('[usage] Failed to load usage quota', error);
+  }
+}
+
+/**
+ * Recognises the 429 body returned by metered routes, either parsed or as the raw text that
+ * `useChat` puts in the error message, and updates the quota from it.
+ */
+export function handleUsageLimitError(body: unknown): UsageLimitExceeded | undefined {
+  let payload = body;
+
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!payload || typeof payload !== 'object' || (payload as UsageLimitExceeded).code !== 'usage_limit_exceeded') {
+    return undefined;
+  }
+
+  const limitError = payload as UsageLimitExceeded;
+
+  usageQuotaStore.set(limitError.quota);
+
+  return limitError;
+}
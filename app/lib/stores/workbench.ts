@@ -222,6 +222,10 @@ export class WorkbenchStore {
     return this.#filesStore.getFileModifications();
   }
 
+  getFailedEdits() {
+    return this.#filesStore.getFailedEdits();
+  }
+
   resetAllFileModifications() {
     this.#filesStore.resetFileModifications();
   }
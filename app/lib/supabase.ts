@@ -19,8 +19,29 @@ export const supabase = globalAny.__gleio_supabase__ ?? createClient(supabaseUrl
   }
 })
 
-if (typeof window !== 'undefined') {
+// read by app/lib/.server/auth.ts for requests that can't send an Authorization header, like `EventSource`
+const ACCESS_TOKEN_COOKIE = 'gleio-access-token';
+
+function syncAccessTokenCookie(session: { access_token: string; expires_at?: number } | null) {
+  const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+
+  if (!session) {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax${secure}`;
+    return;
+  }
+
+  const maxAge = session.expires_at ? Math.max(0, session.expires_at - Math.floor(Date.now() / 1000)) : 3600;
+
+  document.cookie = `${ACCESS_TOKEN_COOKIE}=${encodeURIComponent(session.access_token)}; Path=/; Max-Age=${maxAge}; SameSite=Lax${secure}`;
+}
+
+if (typeof window !== 'undefined' && !(window as any).__gleio_supabase__) {
   (window as any).__gleio_supabase__ = supabase;
+
+  // fires for the restored session on load and after every sign-in, refresh and sign-out
+  supabase.auth.onAuthStateChange((_event: string, session: { access_token: string; expires_at?: number } | null) => {
+    syncAccessTokenCookie(session);
+  });
 }
 
 // Auth helper functions
@@ -104,6 +125,15 @@ export const auth = {
     return { session, error }
   },
 
+  // bearer token for the app's own API routes, which meter usage per user
+  getAuthHeaders: async (): Promise<Record<string, string>> => {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {};
+  },
+
   // Listen to auth state changes
   onAuthStateChange: (callback: (event: string, session: any) => void) => {
     return supabase.auth.onAuthStateChange(callback)
@@ -1,7 +1,15 @@
 import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { requireAccess } from '~/lib/.server/auth';
 
 // Framework-agnostic handler for serverless compatibility
-export async function loader({ request }: LoaderFunctionArgs) {
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  // proxies public Google avatars, restricted to the hosts below
+  const access = await requireAccess(context, 'anonymous');
+
+  if (!access.ok) {
+    return access.response;
+  }
+
   try {
     const url = new URL(request.url);
     const imageUrl = url.searchParams.get('url');
@@ -61,7 +69,13 @@ export async function loader({ request }: LoaderFunctionArgs) {
 }
 
 // Handle OPTIONS requests for CORS preflight
-export async function action({ request }: LoaderFunctionArgs) {
+export async function action({ request, context }: LoaderFunctionArgs) {
+  const access = await requireAccess(context, 'anonymous');
+
+  if (!access.ok) {
+    return access.response;
+  }
+
   if (request.method === 'OPTIONS') {
     return new Response(null, {
       status: 200,
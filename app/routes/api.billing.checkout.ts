@@ -2,9 +2,16 @@
 // This is a pseudo-handler - in production, this would be implemented server-side
 
 import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { requireAccess } from '~/lib/.server/auth';
 
 export async function action({ request, context }: ActionFunctionArgs) {
   try {
+    const access = await requireAccess(context, 'authenticated');
+
+    if (!access.ok) {
+      return access.response;
+    }
+
     const { priceId, successUrl, cancelUrl } = await request.json() as {
       priceId: string;
       successUrl?: string;
@@ -16,13 +23,12 @@ export async function action({ request, context }: ActionFunctionArgs) {
     }
 
     // In a real implementation, this would:
-    // 1. Get the authenticated user
-    // 2. Create or retrieve Stripe customer ID
-    // 3. Create a checkout session with Stripe
-    // 4. Return the checkout URL
+    // 1. Create or retrieve Stripe customer ID for the authenticated user
+    // 2. Create a checkout session with Stripe
+    // 3. Return the checkout URL
 
     // Pseudo implementation for demonstration
-    const checkoutUrl = `https://checkout.stripe.com/pay/cs_test_${priceId.replace(/[^a-zA-Z0-9]/g, '')}`;
+    const checkoutUrl = `https://checkout.stripe.com/pay/cs_test_${priceId.replace(/[^a-zA-Z0-9]/g, '')}?client_reference_id=${encodeURIComponent(access.user.id)}`;
 
     return json({
       ok: true,
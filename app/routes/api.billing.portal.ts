@@ -2,14 +2,20 @@
 // This is a pseudo-handler - in production, this would be implemented server-side
 
 import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { requireAccess } from '~/lib/.server/auth';
 
 export async function action({ request, context }: ActionFunctionArgs) {
   try {
+    const access = await requireAccess(context, 'authenticated');
+
+    if (!access.ok) {
+      return access.response;
+    }
+
     // In a real implementation, this would:
-    // 1. Get the authenticated user
-    // 2. Retrieve their Stripe customer ID
-    // 3. Create a customer portal session
-    // 4. Return the portal URL
+    // 1. Retrieve the authenticated user's Stripe customer ID
+    // 2. Create a customer portal session
+    // 3. Return the portal URL
 
     // Pseudo implementation for demonstration
     const portalUrl = 'https://billing.stripe.com/p/session/test_session_id';
@@ -2,16 +2,31 @@
 // This is a pseudo-handler - in production, this would be implemented server-side
 
 import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { requireAccess } from '~/lib/.server/auth';
+import { getStripeWebhookSecret, verifyStripeSignature } from '~/lib/.server/stripe';
 
 export async function action({ request, context }: ActionFunctionArgs) {
+  // called by Stripe, which is authenticated by the signature below rather than a user token
+  const access = await requireAccess(context, 'anonymous');
+
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const secret = getStripeWebhookSecret(context.cloudflare.env);
+
+  if (!secret) {
+    console.error('[billing] STRIPE_WEBHOOK_SECRET is not set; rejecting webhook');
+    return json({ error: 'Webhook is not configured' }, { status: 500 });
+  }
+
   try {
     const body = await request.text();
-    const signature = request.headers.get('stripe-signature');
 
-    // In production, verify webhook signature
-    // const event = stripe.webhooks.constructEvent(body, signature, process.env.STRIPE_WEBHOOK_SECRET);
+    if (!(await verifyStripeSignature(body, request.headers.get('stripe-signature'), secret))) {
+      return json({ error: 'Invalid signature' }, { status: 400 });
+    }
 
-    // For demonstration, assume valid webhook
     const event = JSON.parse(body);
 
     // Process the event
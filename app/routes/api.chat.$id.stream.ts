@@ -0,0 +1,80 @@
+import { type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { createUIMessageStreamResponse } from 'ai';
+import { requireAccess } from '~/lib/.server/auth';
+import { cancelGeneration, getGenerationStore, replayGeneration } from '~/lib/.server/llm/resumable-stream';
+
+/**
+ * Resumes a chat generation started by `api.chat` from the `offset` of the first chunk the client
+ * hasn't received. Responds with 204 when there's nothing to resume, which `useChat` treats as a
+ * finished stream.
+ */
+export async function loader({ context, params, request }: LoaderFunctionArgs) {
+  const access = await requireAccess(context, 'authenticated');
+
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const generationId = params.id;
+
+  if (!generationId) {
+    return new Response(JSON.stringify({ error: 'Generation ID is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const offset = Number(new URL(request.url).searchParams.get('offset') ?? 0);
+
+  if (!Number.isInteger(offset) || offset < 0) {
+    return new Response(JSON.stringify({ error: 'Offset must be a non-negative integer' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const stream = await replayGeneration(
+    getGenerationStore(context.cloudflare.env),
+    generationId,
+    access.user.id,
+    offset,
+  );
+
+  if (!stream) {
+    return new Response(null, { status: 204 });
+  }
+
+  return createUIMessageStreamResponse({ stream });
+}
+
+/**
+ * Cancels a generation when the user stops it, so the model request doesn't keep running until the
+ * resume grace period has passed.
+ */
+export async function action({ context, params, request }: ActionFunctionArgs) {
+  if (request.method !== 'DELETE') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json', Allow: 'GET, DELETE' },
+    });
+  }
+
+  const access = await requireAccess(context, 'authenticated');
+
+  if (!access.ok) {
+    return access.response;
+  }
+
+  const cancelled = params.id
+    ? await cancelGeneration(getGenerationStore(context.cloudflare.env), params.id, access.user.id)
+    : false;
+
+  if (!cancelled) {
+    return new Response(JSON.stringify({ error: 'Generation not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -1,13 +1,34 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import {
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  generateId,
+  type LanguageModelUsage,
+  type UIMessage,
+} from 'ai';
+import type { Messages, StreamingOptions } from '~/lib/.server/llm/stream-text';
+import type { ActionProtocol } from '~/types/actions';
+import { isChatIntent, type ChatIntent } from '~/types/intent';
+import type { ChatMessageMetadata, ConversationSummary, ModelFailover } from '~/types/usage';
 // Server imports moved inside the action function to prevent client bundling
-// switchable streaming removed; returning SDK stream directly
 
-// Memory management constants
-const MAX_MESSAGES = 50; // Maximum number of messages to process
-const MAX_MESSAGE_LENGTH = 50000; // Maximum length per message (50KB)
-const MAX_TOTAL_LENGTH = 500000; // Maximum total length of all messages (500KB)
-const MAX_KNOWLEDGE_ENTRIES = 20;
-const MAX_KNOWLEDGE_ENTRY_LENGTH = 4000;
+/**
+ * Conversation length is bounded by the token budget in `compactConversation`, and the knowledge
+ * base prompt by the one in `retrieveKnowledge`.
+ */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // per image; the lowest limit among the supported providers
+const MAX_IMAGES = 4; // only the most recent images are sent, older ones are replaced with a note
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// the whole knowledge base is sent with every message and ranked per request, so its size is bounded here
+const MAX_KNOWLEDGE_ENTRIES = 500;
+const MAX_KNOWLEDGE_LENGTH = 2_000_000;
+
+type ImageAttachment = {
+  mediaType: string;
+  data: string;
+};
 
 type NormalizedKnowledgeEntry = {
   id?: string;
@@ -15,8 +36,76 @@ type NormalizedKnowledgeEntry = {
   content: string;
 };
 
+/**
+ * Decodes a `file` part sent by the client (a data URL) into base64 image data, or returns the
+ * reason it can't be sent to a model.
+ */
+function parseImagePart(part: any): ImageAttachment | string {
+  const url = typeof part?.url === 'string' ? part.url : '';
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+
+  if (!match) {
+    return 'Image attachments must be uploaded as base64 data URLs.';
+  }
+
+  const [, mediaType, data] = match;
+
+  if (!SUPPORTED_IMAGE_TYPES.includes(mediaType)) {
+    return `Unsupported image type "${mediaType}". Use PNG, JPEG, GIF or WebP.`;
+  }
+
+  // every 4 base64 characters encode 3 bytes
+  const size = Math.floor((data.length * 3) / 4);
+
+  if (size > MAX_IMAGE_BYTES) {
+    return `Image "${part.filename ?? 'attachment'}" is larger than ${MAX_IMAGE_BYTES / 1024 / 1024}MB.`;
+  }
+
+  return { mediaType, data };
+}
+
+function getFileParts(message: any): any[] {
+  return Array.isArray(message?.parts) ? message.parts.filter((part: any) => part?.type === 'file') : [];
+}
+
+function findAttachmentError(messages: unknown): string | undefined {
+  if (!Array.isArray(messages)) {
+    return undefined;
+  }
+
+  for (const message of messages) {
+    for (const part of getFileParts(message)) {
+      const image = parseImagePart(part);
+
+      if (typeof image === 'string') {
+        return image;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function hasToolParts(message: any) {
+  return Array.isArray(message?.parts) && message.parts.some((part: any) => part?.type?.startsWith('tool-'));
+}
+
+/**
+ * Converts an assistant message that called workspace tools into the assistant and tool result
+ * messages the model expects, one pair per step. Calls still waiting for a result are dropped.
+ */
+function convertToolMessage(message: UIMessage): Messages {
+  try {
+    return convertToModelMessages([message], { ignoreIncompleteToolCalls: true });
+  } catch (error) {
+    console.warn('Failed to convert tool calls, skipping message:', error);
+    return [];
+  }
+}
+
 function validateAndLimitMessages(messages: any): Messages {
-  console.log('Validating messages:', messages);
+  // log counts only; messages can carry base64 image data
+  console.log('Validating messages:', Array.isArray(messages) ? messages.length : messages);
   
   // Handle undefined or null messages
   if (!messages) {
@@ -31,6 +120,10 @@ function validateAndLimitMessages(messages: any): Messages {
 
   // Simple validation and processing
   const validMessages: Messages = [];
+
+  // images before this index (counted across all messages) are dropped to bound the request size
+  const imageCount = messages.reduce((count, message) => count + getFileParts(message).length, 0);
+  let imagesToSkip = Math.max(0, imageCount - MAX_IMAGES);
   
   try {
     for (const message of messages) {
@@ -41,6 +134,11 @@ function validateAndLimitMessages(messages: any): Messages {
 
       // Ensure required fields exist
       const role = message.role || 'user';
+
+      if (role === 'assistant' && hasToolParts(message)) {
+        validMessages.push(...convertToolMessage(message));
+        continue;
+      }
       let content = '';
 
       // Handle different message formats
@@ -64,19 +162,37 @@ function validateAndLimitMessages(messages: any): Messages {
         }
       }
 
-      // Basic length limiting
-      if (content.length > MAX_MESSAGE_LENGTH) {
-        content = content.substring(0, MAX_MESSAGE_LENGTH) + '\n[Message truncated]';
-      }
+      const images: ImageAttachment[] = [];
 
-      validMessages.push({
-        role: role as any,
-        content: content
-      });
+      for (const part of role === 'user' ? getFileParts(message) : []) {
+        const image = parseImagePart(part);
 
-      // Limit total number of messages
-      if (validMessages.length >= MAX_MESSAGES) {
-        break;
+        if (typeof image === 'string') {
+          continue;
+        }
+
+        if (imagesToSkip > 0) {
+          imagesToSkip--;
+          content += '\n[Earlier image attachment omitted]';
+          continue;
+        }
+
+        images.push(image);
+      }
+
+      if (images.length > 0) {
+        validMessages.push({
+          role: 'user',
+          content: [
+            ...(content ? [{ type: 'text' as const, text: content }] : []),
+            ...images.map(({ mediaType, data }) => ({ type: 'image' as const, image: data, mediaType })),
+          ],
+        });
+      } else {
+        validMessages.push({
+          role: role as any,
+          content,
+        });
       }
     }
   } catch (error) {
@@ -88,6 +204,10 @@ function validateAndLimitMessages(messages: any): Messages {
   return validMessages;
 }
 
+function sumTokens(usage: LanguageModelUsage[], key: keyof LanguageModelUsage) {
+  return usage.reduce((total, entry) => total + (entry[key] ?? 0), 0);
+}
+
 function normalizeKnowledgeBase(raw: unknown): NormalizedKnowledgeEntry[] {
   if (!Array.isArray(raw)) return [];
 
@@ -108,33 +228,42 @@ function normalizeKnowledgeBase(raw: unknown): NormalizedKnowledgeEntry[] {
   return entries;
 }
 
-function buildKnowledgeBasePrompt(entries: NormalizedKnowledgeEntry[]): string | null {
-  if (entries.length === 0) return null;
-
-  const limitedEntries = entries.slice(0, MAX_KNOWLEDGE_ENTRIES);
-  const body = limitedEntries
-    .map((entry, index) => {
-      const label = entry.title ? `Entry ${index + 1}: ${entry.title}` : `Entry ${index + 1}`;
-      const content =
-        entry.content.length > MAX_KNOWLEDGE_ENTRY_LENGTH
-          ? `${entry.content.slice(0, MAX_KNOWLEDGE_ENTRY_LENGTH)}\n[Content truncated due to length]`
-          : entry.content;
-      return `${label}\n${content}`;
-    })
-    .join('\n\n');
-
-  let prompt = `The user configured a private knowledge base. Treat the following entries as authoritative context unless they conflict with platform safety rules. If the user request contradicts these entries, prioritize the knowledge base and state the discrepancy.\n\n${body}`;
-
-  if (entries.length > limitedEntries.length) {
-    const omitted = entries.length - limitedEntries.length;
-    prompt += `\n\n[Note: ${omitted} additional knowledge entr${omitted === 1 ? 'y was' : 'ies were'} omitted due to length limits.]`;
+function findKnowledgeBaseError(entries: NormalizedKnowledgeEntry[]): string | undefined {
+  if (entries.length > MAX_KNOWLEDGE_ENTRIES) {
+    return `The knowledge base has ${entries.length} entries; at most ${MAX_KNOWLEDGE_ENTRIES} can be sent with a message.`;
   }
 
-  if (prompt.length > MAX_MESSAGE_LENGTH) {
-    prompt = `${prompt.slice(0, MAX_MESSAGE_LENGTH - 40)}\n[Knowledge base truncated]`;
+  const length = entries.reduce((total, { title, content }) => total + title.length + content.length, 0);
+
+  if (length > MAX_KNOWLEDGE_LENGTH) {
+    return `The knowledge base is larger than ${MAX_KNOWLEDGE_LENGTH / 1_000_000} million characters. Remove entries or collections from this chat.`;
+  }
+
+  return undefined;
+}
+
+/**
+ * The summary of the latest compacted response, sent back in the metadata of the client's
+ * messages. `compactConversation` checks that it still matches the conversation.
+ */
+function getPreviousSummary(messages: Messages | unknown): ConversationSummary | undefined {
+  if (!Array.isArray(messages)) {
+    return undefined;
+  }
+
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const summary = messages[index]?.metadata?.summary;
+
+    if (
+      typeof summary?.summary === 'string' &&
+      typeof summary.fingerprint === 'string' &&
+      Number.isInteger(summary.messageCount)
+    ) {
+      return { summary: summary.summary, messageCount: summary.messageCount, fingerprint: summary.fingerprint };
+    }
   }
 
-  return prompt;
+  return undefined;
 }
 
 export async function action(args: ActionFunctionArgs) {
@@ -143,15 +272,24 @@ export async function action(args: ActionFunctionArgs) {
 
 async function chatAction({ context, request }: ActionFunctionArgs) {
   console.log('=== CHAT ACTION STARTED ===');
-  let cleanup: (() => void) | null = null;
 
   // Dynamic imports for server-only modules to prevent client bundling
   const { streamText } = await import('~/lib/.server/llm/stream-text');
-  const { getSystemPrompt } = await import('~/lib/.server/llm/prompts');
-
-  // Define types locally to avoid import issues
-  type Messages = any[];
-  type StreamingOptions = any;
+  const { CONTINUE_PROMPT, getSystemPrompt, TOOLS_PROMPT } = await import('~/lib/.server/llm/prompts');
+  const { MAX_RESPONSE_SEGMENTS } = await import('~/lib/.server/llm/constants');
+  const { stopWhen, workspaceTools } = await import('~/lib/.server/llm/tools');
+  const { hasConfiguredProvider, NO_PROVIDER_ERROR, parseModelSelector } = await import('~/lib/.server/llm/providers');
+  const { estimateCost, supportsToolCalling, supportsVision, usesArtifactHeuristics } = await import(
+    '~/lib/.server/llm/model-catalog'
+  );
+  const { createStreamNormalizer } = await import('~/lib/.server/llm/stream-normalizer');
+  const { compactConversation } = await import('~/lib/.server/llm/compaction');
+  const { getLatestUserText, routeChat } = await import('~/lib/.server/llm/intent-router');
+  const { createKnowledgeEmbedder, retrieveKnowledge } = await import('~/lib/.server/llm/knowledge');
+  const { buildInstructionsPrompt, loadCustomInstructions } = await import('~/lib/.server/llm/instructions');
+  const { bufferGeneration, getGenerationStore } = await import('~/lib/.server/llm/resumable-stream');
+  const { meterRequest } = await import('~/lib/.server/usage/metering');
+  const { requireAccess } = await import('~/lib/.server/auth');
 
   try {
     // load .env.local in dev to populate process.env when running `pnpm dev`
@@ -168,20 +306,10 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     }
 
     // validate environment variables: allow any supported provider
-    const openrouter = context.cloudflare.env?.OPENROUTER_API_KEY || process.env.OPENROUTER_API_KEY;
-    const openai = context.cloudflare.env?.OPENAI_API_KEY || process.env.OPENAI_API_KEY;
-    const anthropic = context.cloudflare.env?.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY;
-
-    console.log('API Keys check:');
-    console.log('Cloudflare OPENROUTER_API_KEY present:', !!context.cloudflare.env?.OPENROUTER_API_KEY);
-    console.log('Process OPENROUTER_API_KEY present:', !!process.env.OPENROUTER_API_KEY);
-    console.log('Final OPENROUTER_API_KEY present:', !!openrouter);
-
-    if (!openrouter && !openai && !anthropic) {
+    if (!hasConfiguredProvider(context.cloudflare.env)) {
       return new Response(
         JSON.stringify({
-          error:
-            'No API keys configured. Please set at least one: OPENROUTER_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY.',
+          error: NO_PROVIDER_ERROR,
         }),
         {
           status: 500,
@@ -190,14 +318,27 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
       );
     }
 
+    const access = await requireAccess(context, 'authenticated');
+
+    if (!access.ok) {
+      return access.response;
+    }
+
+    // loaded while the request is prepared
+    const customInstructions = loadCustomInstructions(access.user, context.cloudflare.env);
+
     let rawMessages: Messages = [];
     let requestedModelId: string | undefined;
     let requestBody: any = null;
     let knowledgeEntries: NormalizedKnowledgeEntry[] = [];
+    let actionProtocol: ActionProtocol = 'artifact';
+    let reasoning = false;
+    let requestedIntent: ChatIntent | undefined;
+    let projectRules: string | undefined;
     
     try {
       requestBody = await request.json();
-      console.log('Request body received:', JSON.stringify(requestBody, null, 2));
+      console.log('Request body received:', Object.keys(requestBody ?? {}));
       
       // Handle different request formats from AI SDK
       if (requestBody && typeof requestBody === 'object' && requestBody.messages) {
@@ -219,6 +360,23 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
       }
 
       knowledgeEntries = normalizeKnowledgeBase(requestBody?.knowledgeBase);
+
+      if (requestBody?.actionProtocol === 'tools') {
+        actionProtocol = 'tools';
+      }
+
+      // "Think for longer"
+      reasoning = requestBody?.reasoning === true;
+
+      // the project's `.gleiorules` file
+      if (typeof requestBody?.projectRules === 'string') {
+        projectRules = requestBody.projectRules;
+      }
+
+      // overrides the intent router
+      if (isChatIntent(requestBody?.intent)) {
+        requestedIntent = requestBody.intent;
+      }
     } catch (error) {
       console.error('Failed to parse request JSON:', error);
       return new Response(
@@ -230,9 +388,75 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
       );
     }
     
+    const attachmentError = findAttachmentError(rawMessages);
+
+    if (attachmentError) {
+      return new Response(JSON.stringify({ error: attachmentError }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const knowledgeError = findKnowledgeBaseError(knowledgeEntries);
+
+    if (knowledgeError) {
+      return new Response(JSON.stringify({ error: knowledgeError }), {
+        status: 413,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
     // Validate and limit messages to prevent memory issues
     let messages = validateAndLimitMessages(rawMessages);
+
+    const hasImages = messages.some(
+      (message) => Array.isArray(message.content) && message.content.some((part) => part.type === 'image'),
+    );
+
+    // picks the prompt modules, and the model when the client didn't choose one, for this turn
+    const route = routeChat(context.cloudflare.env, messages, requestedIntent);
+
+    if (!requestedModelId && route.model) {
+      // a routed model that can't read the attached images is skipped rather than rejected
+      const canReadImages = !hasImages || supportsVision(parseModelSelector(route.model).modelId) !== false;
+
+      requestedModelId = canReadImages ? route.model : undefined;
+    }
+
+    console.info(
+      `[chat] Route: ${route.intent} (${route.source}), prompt modules: ${route.modules.join(', ')}` +
+        (route.model ? `, model: ${route.model}` : ''),
+    );
+
+    // workspace tools only come with the prompt modules that describe the project
+    const usesWorkspace = route.modules.includes('artifacts');
+
+    if (hasImages && requestedModelId) {
+      const { modelId } = parseModelSelector(requestedModelId);
+
+      if (supportsVision(modelId) === false) {
+        return new Response(
+          JSON.stringify({
+            error: `The selected model (${modelId}) can't read images. Choose a vision-capable model or remove the image.`,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          },
+        );
+      }
+    }
     
+    // models known not to call tools reliably keep using the artifact format
+    if (actionProtocol === 'tools' && requestedModelId) {
+      const { modelId } = parseModelSelector(requestedModelId);
+
+      if (supportsToolCalling(modelId) === false) {
+        console.info(`[chat] ${modelId} doesn't support tool calling; using the artifact format`);
+        actionProtocol = 'artifact';
+      }
+    }
+
     // If no valid messages, create a default one to ensure chat works
     if (messages.length === 0) {
       console.warn('No valid messages found, creating default message');
@@ -255,254 +479,260 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     });
 
     // Always include the main system prompt first
-    const mainSystemPrompt = getSystemPrompt();
+    const mainSystemPrompt = getSystemPrompt(undefined, route.modules);
     let systemMessages: Messages = [{ role: 'system', content: mainSystemPrompt } as any];
+
+    if (actionProtocol === 'tools' && usesWorkspace) {
+      systemMessages.push({ role: 'system', content: TOOLS_PROMPT });
+    }
     
-    // Add knowledge base prompt if available
-    if (knowledgeEntries.length > 0) {
-      const knowledgePrompt = buildKnowledgeBasePrompt(knowledgeEntries);
-      if (knowledgePrompt) {
-        systemMessages.push({ role: 'system', content: knowledgePrompt } as any);
-        console.log(`Included ${knowledgeEntries.length} knowledge base entr${knowledgeEntries.length === 1 ? 'y' : 'ies'} in system prompt.`);
-      }
+    // checked once the request is known to be valid, right before the models are used
+    const usage = await meterRequest(access.user, context.cloudflare.env, 'chat');
+
+    if (!usage.ok) {
+      return usage.response;
+    }
+
+    // only the knowledge base chunks relevant to the latest message
+    const knowledge = await retrieveKnowledge({
+      entries: knowledgeEntries,
+      query: getLatestUserText(messages),
+      embed: createKnowledgeEmbedder(context.cloudflare.env),
+    });
+
+    if (knowledge.prompt) {
+      systemMessages.push({ role: 'system', content: knowledge.prompt });
+      console.info(
+        `[chat] Included ${knowledge.chunkCount} knowledge base chunk(s) from ${knowledge.entryIds.length} of ${knowledgeEntries.length} entries`,
+      );
+    }
+
+    const instructions = buildInstructionsPrompt({ customInstructions: await customInstructions, projectRules });
+
+    if (instructions.prompt) {
+      systemMessages.push({ role: 'system', content: instructions.prompt });
+      console.info(`[chat] Applied standing instructions: ${instructions.sources.join(', ')}`);
     }
     
-    // Prepend system messages to the filtered conversation
-    messages = [...systemMessages, ...filteredMessages];
+    // prepend system messages and fit older turns into the model's context window
+    const compacted = await compactConversation({
+      env: context.cloudflare.env,
+      previousSummary: getPreviousSummary(rawMessages),
+      modelSelector: requestedModelId,
+      system: systemMessages,
+      messages: filteredMessages,
+    });
+
+    messages = compacted.messages;
+
+    // the summaries were written by the model, so they count towards the response's usage
+    const compactionUsage = compacted.usage ?? [];
+
+    if (compactionUsage.length > 0) {
+      context.cloudflare.ctx.waitUntil(usage.meter.recordTokens(sumTokens(compactionUsage, 'totalTokens')));
+    }
+
     console.log('Included main system prompt with boltArtifact formatting instructions');
     
     console.log('Final messages for processing:', messages.length);
     
-    let hasRetried = false;
-
     console.log('Requested model ID:', requestedModelId);
 
+    // aborted when the user stops the response, see `bufferGeneration`
+    const abortController = new AbortController();
+
     const options: StreamingOptions = {
       toolChoice: 'auto',
       modelId: requestedModelId,
+      requiresVision: hasImages,
+      reasoning,
+      abortSignal: abortController.signal,
     };
 
     console.log('Options:', JSON.stringify(options, null, 2));
 
-    // Hybrid approach: Use AI SDK structure with direct API call
-    console.log('Making direct streaming LLM call...');
-    try {
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openrouter}`,
-          'Content-Type': 'application/json',
+    const streamSegment = (segmentMessages: Messages, precedingText: string, continueOnLength: boolean) =>
+      streamText(segmentMessages, context.cloudflare.env, {
+        ...options,
+        ...(actionProtocol === 'tools' && usesWorkspace && { tools: workspaceTools, stopWhen }),
+        transform: ({ modelId }) =>
+          createStreamNormalizer({
+            synthesizeArtifacts: actionProtocol === 'artifact' && usesArtifactHeuristics(modelId),
+            continueOnLength,
+            precedingText,
+          }),
+        onFinish: ({ totalUsage }) => usage.meter.recordTokens(totalUsage.totalTokens ?? 0),
+
+        // only completed steps report usage, so the step that was cut off isn't metered
+        onAbort: ({ steps }) => {
+          const stepUsage = steps.map((step) => step.usage);
+
+          return usage.meter.recordTokens(sumTokens(stepUsage, 'totalTokens'));
         },
-        body: JSON.stringify({
-          model: requestedModelId || 'openai/gpt-oss-20b:free',
-          messages: messages,
-          stream: true, // Enable streaming
-        }),
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenRouter API error: ${response.status} ${response.statusText}`);
-      }
+    const onError = (error: unknown) => {
+      console.error('Streaming error:', error);
+      return (error as any)?.message || String(error || 'Unknown API error');
+    };
 
-      console.log('Streaming response received from API');
-
-      // Transform OpenRouter streaming response to AI SDK format with boltArtifact detection
-      const transformStream = new ReadableStream({
-        start(controller) {
-          const reader = response.body?.getReader();
-          const decoder = new TextDecoder();
-          let buffer = '';
-          let messageId = `msg_${Date.now()}`;
-          let isFirstChunk = true;
-          let collectedContent = '';
-          let hasDetectedCodeCreation = false;
-          let boltArtifactId = `vite-hello-world-${Date.now()}`;
-          let hasSentArtifactStart = false;
-          let sentActions = new Set<string>();
-
-          function parseAndSendActions(content: string) {
-            // Extract package.json
-            const packageMatch = content.match(/```json\s*\n({[\s\S]*?})\s*\n```/);
-            if (packageMatch && !hasSentArtifactStart) {
-              // Send artifact start
-              const artifactStart = `<boltArtifact id="${boltArtifactId}" title="Hello World React App">\n`;
-              const artifactStartChunk = {
-                type: 'text-delta',
-                id: messageId,
-                delta: artifactStart
+    // started before the response so configuration errors still fail the request
+    let result = await streamSegment(messages, '', MAX_RESPONSE_SEGMENTS > 1);
+
+    /**
+     * A response that stops at the output token limit is continued with `CONTINUE_PROMPT` in a new
+     * request, up to `MAX_RESPONSE_SEGMENTS` times. The segments reach the client as one message,
+     * and artifacts stay open across them, so the message parser sees a single uninterrupted one.
+     */
+    const stream = createUIMessageStream<UIMessage<ChatMessageMetadata>>({
+      execute: async ({ writer }) => {
+        const segmentUsage: LanguageModelUsage[] = [...compactionUsage];
+        let segmentMessages = messages;
+        let aborted = false;
+
+        // time spent reasoning, kept with the message so it can be shown after a reload
+        let reasoningMs = 0;
+        let reasoningStartedAt: number | undefined;
+
+        // models that failed before one answered, over all segments
+        const failovers: ModelFailover[] = [];
+        let reportedModel: string | undefined;
+
+        // reports the model that serves a segment once it starts, unless it has been reported already
+        const createMessageMetadata = (segmentResult: typeof result) => {
+          const model = `${segmentResult.provider}:${segmentResult.modelId}`;
+
+          failovers.push(...segmentResult.failovers);
+
+          let served: ChatMessageMetadata | undefined =
+            model !== reportedModel || segmentResult.failovers.length > 0
+              ? { model, ...(failovers.length > 0 && { failovers: [...failovers] }) }
+              : undefined;
+
+          reportedModel = model;
+
+          return ({ part }: { part: { type: string } }): ChatMessageMetadata | undefined => {
+            if (
+              part.type === 'start' &&
+              (instructions.sources.length > 0 || knowledge.entryIds.length > 0 || compacted.summary)
+            ) {
+              return {
+                instructions: instructions.sources.length > 0 ? instructions.sources : undefined,
+                knowledge: knowledge.entryIds.length > 0 ? knowledge.entryIds : undefined,
+                summary: compacted.summary,
               };
-              controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(artifactStartChunk)}\n\n`));
-              hasSentArtifactStart = true;
-
-              // Send package.json as boltAction
-              const packageAction = `<boltAction type="file" filePath="package.json">\n${packageMatch[1]}\n</boltAction>\n`;
-              const packageChunk = {
-                type: 'text-delta',
-                id: messageId,
-                delta: packageAction
-              };
-              controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(packageChunk)}\n\n`));
             }
 
-            // Extract npm install commands and emit pnpm-only
-            if (content.includes('npm install') && !sentActions.has('npm-install')) {
-              sentActions.add('npm-install');
-              const installAction = `<boltAction type="shell">pnpm install</boltAction>\n`;
-              const installChunk = {
-                type: 'text-delta',
-                id: messageId,
-                delta: installAction
-              };
-              controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(installChunk)}\n\n`));
+            if (part.type === 'start-step' && served) {
+              const metadata = served;
+
+              served = undefined;
+
+              return metadata;
             }
 
-            // Extract dev server commands and normalize to port 3000
-            if (content.includes('npm run dev') && !sentActions.has('npm-run-dev')) {
-              sentActions.add('npm-run-dev');
-              const devAction = `<boltAction type="shell">pnpm run dev</boltAction>\n`;
-              const devChunk = {
-                type: 'text-delta',
-                id: messageId,
-                delta: devAction
-              };
-              controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(devChunk)}\n\n`));
+            if (part.type === 'reasoning-start') {
+              reasoningStartedAt ??= Date.now();
+            } else if (part.type === 'reasoning-end' && reasoningStartedAt !== undefined) {
+              reasoningMs += Date.now() - reasoningStartedAt;
+              reasoningStartedAt = undefined;
+
+              return { reasoningMs };
             }
+
+            return undefined;
+          };
+        };
+
+        let precedingText = '';
+
+        for (let segment = 1; ; segment++) {
+          writer.merge(
+            result.toUIMessageStream({
+              sendStart: segment === 1,
+              sendFinish: false,
+              messageMetadata: createMessageMetadata(result),
+              onError,
+            }),
+          );
+
+          let finishReason: string;
+          let totalUsage: LanguageModelUsage;
+          let steps: Awaited<typeof result.steps>;
+
+          try {
+            [finishReason, totalUsage, steps] = await Promise.all([
+              result.finishReason,
+              result.totalUsage,
+              result.steps,
+            ]);
+          } catch {
+            // the merged stream has already reported the error
+            if (!abortController.signal.aborted) {
+              return;
+            }
+
+            // nothing completed before the abort
+            aborted = true;
+            break;
           }
 
-          function push() {
-            reader?.read().then(({ done, value }) => {
-              if (done) {
-                // Send text-end chunk before finishing (no delta field allowed)
-                if (!isFirstChunk) {
-                  // Close boltArtifact if we detected code creation
-                  if (hasDetectedCodeCreation) {
-                    const artifactCloseChunk = {
-                      type: 'text-delta',
-                      id: messageId,
-                      delta: '\n</boltArtifact>'
-                    };
-                    controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(artifactCloseChunk)}\n\n`));
-                  }
-
-                  // Send text-end without delta field
-                  const endChunk = {
-                    type: 'text-end',
-                    id: messageId
-                  };
-                  controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(endChunk)}\n\n`));
-                }
-                // Send finish event when stream is complete
-                controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
-                controller.close();
-                return;
-              }
-
-              buffer += decoder.decode(value, { stream: true });
-              const lines = buffer.split('\n');
-              buffer = lines.pop() || '';
-
-              for (const line of lines) {
-                if (line.startsWith('data: ')) {
-                  try {
-                    const data = JSON.parse(line.slice(6));
-                    if (data.choices && data.choices[0] && data.choices[0].delta) {
-                      const delta = data.choices[0].delta;
-                      if (delta.content) {
-                        collectedContent += delta.content;
-
-                        // Detect code creation patterns - only trigger for actual structured content creation
-                        if (!hasDetectedCodeCreation) {
-                          // Only detect when we see clear indicators of code generation, not just any code-like words
-                          const codeCreationPatterns = [
-                            'package.json',
-                            'npm install',
-                            'npm run dev',
-                            'npm run build',
-                            'vite.config',
-                            'tsconfig.json',
-                            'tailwind.config',
-                            'create-react-app',
-                            'npx create-',
-                            'git init'
-                          ];
-
-                          hasDetectedCodeCreation = codeCreationPatterns.some(pattern =>
-                            collectedContent.toLowerCase().includes(pattern.toLowerCase())
-                          );
-                        }
-
-                        // Parse and extract structured actions when we detect complete sections
-                        if (hasDetectedCodeCreation && !hasSentArtifactStart) {
-                          parseAndSendActions(collectedContent);
-                        }
-
-                        // Send text-start chunk on first content
-                        if (isFirstChunk) {
-                          const startChunk = {
-                            type: 'text-start',
-                            id: messageId
-                          };
-                          controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(startChunk)}\n\n`));
-                          isFirstChunk = false;
-                        }
-
-                        // Always send the text content - structured actions are sent in addition to text
-                        // Send the boltArtifact wrapper first when we detect package.json (only once)
-                        if (hasDetectedCodeCreation && !hasSentArtifactStart && collectedContent.includes('package.json') && !collectedContent.includes('<boltArtifact')) {
-                          const artifactStart = `<boltArtifact id="${boltArtifactId}" title="Hello World React App">\n`;
-                          const artifactStartChunk = {
-                            type: 'text-delta',
-                            id: messageId,
-                            delta: artifactStart
-                          };
-                          controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(artifactStartChunk)}\n\n`));
-
-                          // Mark that we've sent the opening tag
-                          collectedContent += artifactStart;
-                          hasSentArtifactStart = true;
-                        }
-
-                        // Always send the text delta - this ensures all conversational content gets through
-                        const transformedData = {
-                          type: 'text-delta',
-                          id: messageId,
-                          delta: delta.content
-                        };
-                        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(transformedData)}\n\n`));
-                      }
-                    }
-                  } catch (e) {
-                    // Skip malformed lines
-                    console.warn('Skipping malformed streaming line:', line);
-                  }
-                }
-              }
-
-              push();
-            }).catch(error => {
-              console.error('Stream reading error:', error);
-              controller.error(error);
-            });
+          segmentUsage.push(totalUsage);
+          aborted = abortController.signal.aborted;
+
+          if (aborted) {
+            break;
           }
 
-          push();
+          if (finishReason !== 'length' || segment >= MAX_RESPONSE_SEGMENTS) {
+            break;
+          }
+
+          console.info(`[chat] Response hit the output token limit, continuing (segment ${segment + 1})`);
+
+          precedingText += steps.map((step) => step.text).join('');
+          segmentMessages = [
+            ...segmentMessages,
+            ...(steps.at(-1)?.response.messages ?? []),
+            { role: 'user', content: CONTINUE_PROMPT },
+          ];
+          result = await streamSegment(segmentMessages, precedingText, segment + 1 < MAX_RESPONSE_SEGMENTS);
         }
-      });
 
-      return new Response(transformStream, {
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Transfer-Encoding': 'chunked',
-        },
-      });
-    } catch (apiError: unknown) {
-      console.error('Direct API Error:', apiError);
-      const errorMessage = (apiError as any)?.message || String(apiError || 'Unknown API error');
-      return new Response(`API Error: ${errorMessage}`, {
-        status: 500,
-        headers: { 'Content-Type': 'text/plain' },
-      });
-    }
+        const inputTokens = sumTokens(segmentUsage, 'inputTokens');
+        const outputTokens = sumTokens(segmentUsage, 'outputTokens');
+
+        writer.write({
+          type: 'finish',
+          messageMetadata: {
+            ...(aborted && { aborted: true }),
+            usage: {
+              model: `${result.provider}:${result.modelId}`,
+              inputTokens,
+              outputTokens,
+              reasoningTokens: sumTokens(segmentUsage, 'reasoningTokens') || undefined,
+              totalTokens: sumTokens(segmentUsage, 'totalTokens') || inputTokens + outputTokens,
+              cost: estimateCost(result.modelId, { inputTokens, outputTokens }),
+            },
+          },
+        });
+      },
+      onError,
+    });
+
+    // buffered so a client that reloads or loses its connection can resume the generation
+    const generationId = generateId();
+
+    return createUIMessageStreamResponse({
+      stream: bufferGeneration(stream, {
+        store: getGenerationStore(context.cloudflare.env),
+        id: generationId,
+        userId: access.user.id,
+        waitUntil: (promise) => context.cloudflare.ctx.waitUntil(promise),
+        signal: request.signal,
+        cancel: () => abortController.abort(),
+      }),
+    });
   } catch (error: unknown) {
     console.error('Error in chat action:', error);
     const errorMessage = (error as any)?.message || String(error || 'An error occurred while processing your request.');
@@ -9,6 +9,9 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
   // Dynamic imports for server-only modules to prevent client bundling
   const { streamText } = await import('~/lib/.server/llm/stream-text');
   const { stripIndents } = await import('~/utils/stripIndent');
+  const { hasConfiguredProvider, NO_PROVIDER_ERROR } = await import('~/lib/.server/llm/providers');
+  const { meterRequest } = await import('~/lib/.server/usage/metering');
+  const { requireAccess } = await import('~/lib/.server/auth');
 
   try {
     // load .env.local in dev to populate process.env when running `pnpm dev`
@@ -20,15 +23,10 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
     }
 
     // validate environment variables: allow any supported provider
-    const openrouter = process.env.OPENROUTER_API_KEY || context.cloudflare.env?.OPENROUTER_API_KEY;
-    const openai = process.env.OPENAI_API_KEY || context.cloudflare.env?.OPENAI_API_KEY;
-    const anthropic = process.env.ANTHROPIC_API_KEY || context.cloudflare.env?.ANTHROPIC_API_KEY;
-
-    if (!openrouter && !openai && !anthropic) {
+    if (!hasConfiguredProvider(context.cloudflare.env)) {
       return new Response(
         JSON.stringify({
-          error:
-            'No API keys configured. Please set at least one: OPENROUTER_API_KEY, OPENAI_API_KEY, or ANTHROPIC_API_KEY.',
+          error: NO_PROVIDER_ERROR,
         }),
         {
           status: 500,
@@ -37,7 +35,19 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
       );
     }
 
-    const { message } = await request.json<{ message: string }>();
+    const access = await requireAccess(context, 'authenticated');
+
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const { message, model } = await request.json<{ message: string; model?: string }>();
+
+    const usage = await meterRequest(access.user, context.cloudflare.env, 'enhancer');
+
+    if (!usage.ok) {
+      return usage.response;
+    }
 
     const result = await streamText(
       [
@@ -55,6 +65,10 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
         },
       ],
       context.cloudflare.env,
+      {
+        modelId: typeof model === 'string' ? model : undefined,
+        onFinish: ({ totalUsage }) => usage.meter.recordTokens(totalUsage.totalTokens ?? 0),
+      },
     );
 
     return result.toTextStreamResponse({
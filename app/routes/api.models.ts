@@ -0,0 +1,38 @@
+import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { requireAccess } from '~/lib/.server/auth';
+
+export async function loader({ context }: LoaderFunctionArgs) {
+  // the model picker is shown before signing in
+  const access = await requireAccess(context, 'anonymous');
+
+  if (!access.ok) {
+    return access.response;
+  }
+
+  // dynamic import for server-only modules to prevent client bundling
+  const { getModelCatalog } = await import('~/lib/.server/llm/model-catalog');
+
+  try {
+    // load .env.local in dev to populate process.env when running `pnpm dev`
+    if (import.meta.env.DEV) {
+      try {
+        const dotenv = await import('dotenv');
+        (dotenv as any).config({ path: ['.env.local', '.env'] });
+      } catch {}
+    }
+
+    const catalog = await getModelCatalog(context.cloudflare.env);
+
+    return new Response(JSON.stringify(catalog), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in models loader:', error);
+
+    return new Response(JSON.stringify({ error: 'Failed to list models' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
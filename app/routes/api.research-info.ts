@@ -1,5 +1,6 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import OpenAI from 'openai';
+import { requireAccess } from '~/lib/.server/auth';
 
 export async function action(args: ActionFunctionArgs) {
   return researchInfoAction(args);
@@ -7,6 +8,12 @@ export async function action(args: ActionFunctionArgs) {
 
 async function researchInfoAction({ context, request }: ActionFunctionArgs) {
   try {
+    const access = await requireAccess(context, 'authenticated');
+
+    if (!access.ok) {
+      return access.response;
+    }
+
     // validate environment variables
     if (!context.cloudflare.env.OPENAI_API_KEY) {
       return new Response(
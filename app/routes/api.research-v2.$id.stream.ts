@@ -1,7 +1,15 @@
 import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
-import { getResearchTask } from '~/lib/.server/research/storage';
+import { requireAccess } from '~/lib/.server/auth';
+import { getResearchTask, getResearchTaskForUser } from '~/lib/.server/research/storage';
+
+export async function loader({ context, params }: LoaderFunctionArgs) {
+  // `EventSource` can't send headers; the access token arrives in the auth cookie
+  const access = await requireAccess(context, 'authenticated');
+
+  if (!access.ok) {
+    return access.response;
+  }
 
-export async function loader({ params }: LoaderFunctionArgs) {
   const taskId = params.id;
 
   if (!taskId) {
@@ -11,6 +19,13 @@ export async function loader({ params }: LoaderFunctionArgs) {
     });
   }
 
+  if (!getResearchTaskForUser(taskId, access.user.id)) {
+    return new Response(JSON.stringify({ error: 'Task not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
   // SSE streaming
   const encoder = new TextEncoder();
   let intervalId: NodeJS.Timeout;
@@ -1,7 +1,14 @@
 import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
-import { getResearchTask } from '~/lib/.server/research/storage';
+import { requireAccess } from '~/lib/.server/auth';
+import { getResearchTaskForUser } from '~/lib/.server/research/storage';
+
+export async function loader({ context, params }: LoaderFunctionArgs) {
+  const access = await requireAccess(context, 'authenticated');
+
+  if (!access.ok) {
+    return access.response;
+  }
 
-export async function loader({ params }: LoaderFunctionArgs) {
   const taskId = params.id;
 
   if (!taskId) {
@@ -12,7 +19,7 @@ export async function loader({ params }: LoaderFunctionArgs) {
   }
 
   // regular GET request
-  const task = getResearchTask(taskId);
+  const task = getResearchTaskForUser(taskId, access.user.id);
 
   if (!task) {
     return new Response(JSON.stringify({ error: 'Task not found' }), {
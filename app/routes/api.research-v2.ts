@@ -2,10 +2,18 @@ import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import crypto from 'crypto';
 import { orchestrateResearch } from '~/lib/.server/research/orchestrator';
 import { saveResearchTask, getResearchTask, updateResearchTask } from '~/lib/.server/research/storage';
+import { requireAccess } from '~/lib/.server/auth';
+import { meterRequest } from '~/lib/.server/usage/metering';
 import type { ResearchTask, ResearchMode, Step, EvidenceCard, Claim, Draft } from '~/types/research';
 
 export async function action({ context, request }: ActionFunctionArgs) {
   try {
+    const access = await requireAccess(context, 'authenticated');
+
+    if (!access.ok) {
+      return access.response;
+    }
+
     const { goal, mode } = await request.json<{ goal: string; mode: ResearchMode }>();
 
     if (!goal) {
@@ -15,14 +23,23 @@ export async function action({ context, request }: ActionFunctionArgs) {
       });
     }
 
+    // the run is counted against the caller's daily allowance once its plan is made
+    const usage = await meterRequest(access.user, context.cloudflare.env, 'research');
+
+    if (!usage.ok) {
+      return usage.response;
+    }
+
     console.log('[API] Starting research with goal:', goal, 'mode:', mode);
     const taskId = crypto.randomUUID();
+    let counted = false;
 
   // create initial task
   const initialTask: ResearchTask = {
     id: taskId,
     goal,
     mode: mode || 'quick',
+    userId: access.user.id,
     createdAt: new Date().toISOString(),
     status: 'running',
     plan: [],
@@ -47,6 +64,11 @@ export async function action({ context, request }: ActionFunctionArgs) {
       goal,
       mode: mode || 'quick',
       onStepUpdate: (step: Step) => {
+        if (!counted && step.status === 'success') {
+          counted = true;
+          context.cloudflare.ctx.waitUntil(usage.meter.recordResearchRun());
+        }
+
         const task = getResearchTask(taskId);
 
         if (task) {
@@ -1,7 +1,7 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { generateText } from 'ai';
-import { getOpenRouterModel } from '~/lib/.server/llm/model';
-import { getOpenRouterAPIKey } from '~/lib/.server/llm/api-key';
+import { requireAccess } from '~/lib/.server/auth';
+import { loadModelCandidates, NO_PROVIDER_ERROR } from '~/lib/.server/llm/providers';
 
 export async function action(args: ActionFunctionArgs) {
   return researchAction(args);
@@ -9,18 +9,23 @@ export async function action(args: ActionFunctionArgs) {
 
 async function researchAction({ context, request }: ActionFunctionArgs) {
   try {
-    // validate environment variables
+    const access = await requireAccess(context, 'authenticated');
 
-    const openRouterApiKey = getOpenRouterAPIKey(context.cloudflare.env);
+    if (!access.ok) {
+      return access.response;
+    }
 
-    if (!openRouterApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'OpenRouter API key not configured. Please set OPENROUTER_API_KEY.' }),
-        {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        },
-      );
+    // validate environment variables; prefer the Tongyi DeepResearch model when OpenRouter is configured
+    const [candidate] = await loadModelCandidates(
+      context.cloudflare.env,
+      'openrouter:alibaba/tongyi-deepresearch-30b-a3b:free',
+    );
+
+    if (!candidate) {
+      return new Response(JSON.stringify({ error: NO_PROVIDER_ERROR }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
 
     const { input } = await request.json<{ input: string }>();
@@ -38,11 +43,8 @@ Be analytical, avoid generalities, and ensure that each section supports
 data-backed reasoning that could inform healthcare policy or financial modeling.
 `;
 
-    // use the Tongyi DeepResearch model from OpenRouter
-    const model = getOpenRouterModel(openRouterApiKey, 'alibaba/tongyi-deepresearch-30b-a3b:free');
-
     const response = await generateText({
-      model,
+      model: candidate.model,
       system: 'You are a research assistant. Provide detailed, well-sourced research on the given topic.',
       prompt: input || defaultInput,
       temperature: 0.1,
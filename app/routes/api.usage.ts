@@ -0,0 +1,32 @@
+import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
+
+export async function loader({ context }: LoaderFunctionArgs) {
+  // dynamic import for server-only modules to prevent client bundling
+  const { getUsageQuota } = await import('~/lib/.server/usage/metering');
+  const { requireAccess } = await import('~/lib/.server/auth');
+
+  try {
+    // load .env.local in dev to populate process.env when running `pnpm dev`
+    if (import.meta.env.DEV) {
+      try {
+        const dotenv = await import('dotenv');
+        (dotenv as any).config({ path: ['.env.local', '.env'] });
+      } catch {}
+    }
+
+    const access = await requireAccess(context, 'authenticated');
+
+    if (!access.ok) {
+      return access.response;
+    }
+
+    return await getUsageQuota(access.user, context.cloudflare.env);
+  } catch (error) {
+    console.error('Error in usage loader:', error);
+
+    return new Response(JSON.stringify({ error: 'Failed to load usage' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,4 +1,11 @@
-export type ActionType = 'file' | 'shell';
+/**
+ * How the model describes workspace changes:
+ * - `artifact`: `<boltArtifact>`/`<boltAction>` XML in the response text
+ * - `tools`: calls to the `write_file`, `run_shell`, `start_dev_server`, `read_file` and `list_files` tools
+ */
+export type ActionProtocol = 'artifact' | 'tools';
+
+export type ActionType = 'file' | 'shell' | 'start' | 'patch' | 'replace' | 'delete' | 'rename' | 'mkdir';
 
 export interface BaseAction {
   content: string;
@@ -9,10 +16,55 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+/** runs a command that terminates, e.g. an install */
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
 
-export type BoltAction = FileAction | ShellAction;
+/** (re)starts the dev server with the command in `content` */
+export interface StartAction extends BaseAction {
+  type: 'start';
+}
+
+/** edits an existing file with the unified diff in `content` */
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
+/** edits an existing file with the SEARCH/REPLACE blocks in `content` */
+export interface ReplaceAction extends BaseAction {
+  type: 'replace';
+  filePath: string;
+}
+
+/** removes a file, or a folder with everything in it */
+export interface DeleteAction extends BaseAction {
+  type: 'delete';
+  filePath: string;
+}
+
+/** moves a file or folder; missing parent folders of `to` are created */
+export interface RenameAction extends BaseAction {
+  type: 'rename';
+  from: string;
+  to: string;
+}
+
+/** creates a folder and its missing parents */
+export interface MkdirAction extends BaseAction {
+  type: 'mkdir';
+  filePath: string;
+}
+
+export type BoltAction =
+  | FileAction
+  | ShellAction
+  | StartAction
+  | PatchAction
+  | ReplaceAction
+  | DeleteAction
+  | RenameAction
+  | MkdirAction;
 
 export type BoltActionData = BoltAction | BaseAction;
@@ -0,0 +1,15 @@
+/**
+ * What a chat turn asks for, which decides the system prompt and model `/api/chat` uses:
+ * - `chat`: small talk and quick questions
+ * - `build`: creating or changing a site or app
+ * - `fix`: debugging an error in the project
+ * - `strategy`: business strategy, pricing, positioning and go-to-market
+ * - `research`: market research and competitor analysis
+ */
+export type ChatIntent = 'chat' | 'build' | 'fix' | 'strategy' | 'research';
+
+export const CHAT_INTENTS: readonly ChatIntent[] = ['chat', 'build', 'fix', 'strategy', 'research'];
+
+export function isChatIntent(value: unknown): value is ChatIntent {
+  return CHAT_INTENTS.includes(value as ChatIntent);
+}
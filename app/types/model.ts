@@ -0,0 +1,30 @@
+export interface ModelCapabilities {
+  /** maximum prompt + completion tokens, when known */
+  contextWindow?: number;
+
+  /** `undefined` when unknown, e.g. for models discovered on a self-hosted server */
+  vision?: boolean;
+  toolCalling?: boolean;
+
+  /** whether the model can reason before it answers, see "Think for longer" */
+  reasoning?: boolean;
+
+  /** USD per token, when known; free models report 0 */
+  inputCostPerToken?: number;
+  outputCostPerToken?: number;
+}
+
+export interface ModelInfo extends ModelCapabilities {
+  /** selector accepted by `/api/chat`, e.g. `anthropic:claude-3-5-sonnet-20240620` */
+  id: string;
+  provider: string;
+  providerLabel: string;
+  modelId: string;
+  label: string;
+}
+
+export interface ModelCatalog {
+  /** the model used when a request doesn't name one */
+  defaultModel?: string;
+  models: ModelInfo[];
+}
@@ -83,6 +83,9 @@ export interface ResearchTask {
   claims: Claim[];
   draft: Draft;
   errorMessage?: string;
+
+  /** user who started the task; only they can read it */
+  userId?: string;
 }
 
 export interface ResearchSSEEvent {
@@ -0,0 +1,97 @@
+export interface MessageUsage {
+  /** selector of the model that produced the message, e.g. `openrouter:openai/gpt-oss-20b:free` */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens?: number;
+  totalTokens: number;
+
+  /** estimated USD cost, when the model's pricing is known */
+  cost?: number;
+}
+
+/** why `/api/chat` gave up on a model and tried the next candidate */
+export type FailoverReason = 'error' | 'timeout' | 'empty';
+
+export interface ModelFailover {
+  /** selector of the model that was skipped */
+  model: string;
+  reason: FailoverReason;
+  message?: string;
+}
+
+/**
+ * Standing instructions added to the system prompt: the user's custom instructions from their
+ * profile, and the `.gleiorules` file of the project.
+ */
+export type InstructionSource = 'custom' | 'project';
+
+/**
+ * Running summary of the older messages of a long conversation, made by `/api/chat` to fit the
+ * context window. Sent back with the next request so the server only summarizes new messages.
+ */
+export interface ConversationSummary {
+  summary: string;
+
+  /** number of leading conversation messages the summary covers */
+  messageCount: number;
+
+  /** fingerprint of those messages, so edits to earlier turns invalidate the summary */
+  fingerprint: string;
+}
+
+/** `metadata` attached to assistant `UIMessage`s streamed by `/api/chat` */
+export interface ChatMessageMetadata {
+  usage?: MessageUsage;
+
+  /** selector of the model that answered, sent as soon as it starts streaming */
+  model?: string;
+
+  /** models that failed before `model` answered, in the order they were tried */
+  failovers?: ModelFailover[];
+
+  /** the standing instructions the response was given */
+  instructions?: InstructionSource[];
+
+  /** ids of the knowledge base entries retrieved for the response, most relevant first */
+  knowledge?: string[];
+
+  /** set when the user stopped the response before it finished */
+  aborted?: boolean;
+
+  /** how long the model reasoned before answering, for "Think for longer" */
+  reasoningMs?: number;
+
+  /** the summary the conversation was compacted with, see `ConversationSummary` */
+  summary?: ConversationSummary;
+}
+
+export type UsageLimit = 'daily_tokens' | 'monthly_tokens' | 'daily_research';
+
+/** the caller's plan limits and what has been used against them, as returned by `/api/usage` */
+export interface UsageQuota {
+  plan: string;
+  dailyTokensUsed: number;
+  dailyTokensLimit: number;
+  monthlyTokensUsed: number;
+  monthlyTokensLimit: number;
+
+  /** deep research runs started today */
+  researchRunsUsed: number;
+  researchRunsLimit: number;
+
+  /** ISO timestamps at which the daily and monthly counters restart */
+  dailyResetAt: string;
+  monthlyResetAt: string;
+}
+
+/** body of the 429 returned by `/api/chat`, `/api/enhancer` and `/api/research-v2` */
+export interface UsageLimitExceeded {
+  error: string;
+  code: 'usage_limit_exceeded';
+  limit: UsageLimit;
+  quota: UsageQuota;
+
+  /** ISO timestamp after which the request can be retried */
+  retryAt: string;
+}
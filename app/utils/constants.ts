@@ -1,3 +1,6 @@
 export const WORK_DIR_NAME = 'project';
 export const WORK_DIR = `/home/${WORK_DIR_NAME}`;
 export const MODIFICATIONS_TAG_NAME = 'bolt_file_modifications';
+
+// rules in this file at the root of the project are added to the system prompt of every response
+export const PROJECT_RULES_FILE = '.gleiorules';
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { applyUnifiedDiff, describeRejectedHunks, diffFiles, parseUnifiedDiff } from './diff';
+
+const lines = (count: number) => Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+describe('applyUnifiedDiff', () => {
+  it('should apply the diffs computed for user modifications', () => {
+    const original = [...lines(20), ''].join('\n');
+    const changed = original.replace('line 3\n', 'line three\n').replace('line 18\n', 'line 18\nline 18.5\n');
+
+    const result = applyUnifiedDiff(original, diffFiles('/home/project/a.txt', original, changed)!);
+
+    expect(result).toMatchObject({ content: changed, hunkCount: 2, rejected: [] });
+  });
+
+  it('should place hunks with wrong line numbers and changed indentation', () => {
+    const original = ['function a() {', '  return 1;', '}', '', 'function b() {', '  return 2;', '}'].join('\n');
+    const diff = ['@@ -1,3 +1,3 @@', ' function b() {', '-    return 2;', '+    return 3;', ' }'].join('\n');
+
+    const result = applyUnifiedDiff(original, diff);
+
+    expect(result.rejected).toEqual([]);
+    expect(result.content).toBe(original.replace('return 2', 'return 3').replace('  return 3', '    return 3'));
+  });
+
+  it('should apply the hunks that match and report the others', () => {
+    const original = lines(30).join('\n');
+    const diff = [
+      '@@ -2,3 +2,3 @@',
+      ' line 2',
+      '-line 3',
+      '+line III',
+      ' line 4',
+      '@@ -20,3 +20,3 @@',
+      ' line 20',
+      '-line twenty-one',
+      '+line 21!',
+      ' line 22',
+    ].join('\n');
+
+    const result = applyUnifiedDiff(original, diff);
+
+    expect(result.content).toContain('line III');
+    expect(result.rejected.map(({ index, expectedLine }) => [index, expectedLine])).toEqual([[2, 19]]);
+
+    const description = describeRejectedHunks('notes.txt', result);
+
+    expect(description).toMatch(/^1 of 2 hunks of the patch to notes\.txt did not match.*other hunks were applied/);
+    expect(description).toContain('-line twenty-one');
+    expect(description).toContain('21: line 21');
+  });
+
+  it('should drop context lines that no longer match', () => {
+    const original = ['a', 'b', 'c', 'd', 'e'].join('\n');
+    const diff = ['@@ -1,5 +1,5 @@', ' x', ' b', '-c', '+C', ' d', ' y'].join('\n');
+
+    expect(applyUnifiedDiff(original, diff)).toMatchObject({ content: 'a\nb\nC\nd\ne', rejected: [] });
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('should accept hunks without line numbers, file headers and code fences', () => {
+    const hunks = parseUnifiedDiff(
+      ['```diff', '--- a/x', '+++ b/x', '@@', ' keep', '', '-old', '+new', '```'].join('\n'),
+    );
+
+    expect(hunks).toEqual([
+      {
+        header: '@@',
+        oldStart: undefined,
+        lines: [
+          { op: ' ', text: 'keep' },
+          { op: ' ', text: '' },
+          { op: '-', text: 'old' },
+          { op: '+', text: 'new' },
+        ],
+      },
+    ]);
+  });
+});
@@ -76,7 +76,8 @@ export function diffFiles(fileName: string, oldFileContent: string, newFileConte
 }
 
 /**
- * Converts the unified diff to HTML.
+ * Converts the unified diff to HTML. Edits of the model that failed to apply are reported as
+ * `failed_edit` elements with the reason.
  *
  * Example:
  *
@@ -89,10 +90,14 @@ export function diffFiles(fileName: string, oldFileContent: string, newFileConte
  * </bolt_file_modifications>
  * ```
  */
-export function fileModificationsToHTML(modifications: FileModifications) {
+export function fileModificationsToHTML(
+  modifications: FileModifications = {},
+  failedEdits: Record<string, string> = {},
+) {
   const entries = Object.entries(modifications);
+  const failures = Object.entries(failedEdits);
 
-  if (entries.length === 0) {
+  if (entries.length === 0 && failures.length === 0) {
     return undefined;
   }
 
@@ -102,7 +107,247 @@ export function fileModificationsToHTML(modifications: FileModifications) {
     result.push(`<${type} path=${JSON.stringify(filePath)}>`, content, `</${type}>`);
   }
 
+  for (const [filePath, error] of failures) {
+    result.push(`<failed_edit path=${JSON.stringify(filePath)}>`, error, '</failed_edit>');
+  }
+
   result.push(`</${MODIFICATIONS_TAG_NAME}>`);
 
   return result.join('\n');
 }
+
+// context lines a hunk may lose from each end when its full context doesn't match, like `patch --fuzz`
+const MAX_FUZZ = 2;
+
+// excerpt of the current content shown for each rejected hunk
+const EXCERPT_MARGIN = 3;
+const MAX_EXCERPT_LINES = 30;
+
+/** line comparisons tried in order: exact, then ignoring trailing and then all whitespace changes */
+const LINE_MATCHERS: Array<(a: string, b: string) => boolean> = [
+  (a, b) => a === b,
+  (a, b) => a.trimEnd() === b.trimEnd(),
+  (a, b) => a.trim().replace(/\s+/g, ' ') === b.trim().replace(/\s+/g, ' '),
+];
+
+interface HunkLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface PatchHunk {
+  header: string;
+
+  /** 1-based line of the original file the hunk starts at, when the header has one */
+  oldStart?: number;
+  lines: HunkLine[];
+}
+
+export interface RejectedHunk {
+  /** 1-based position of the hunk in the patch */
+  index: number;
+  hunk: PatchHunk;
+
+  /** 0-based line of the patched content the hunk was expected at */
+  expectedLine: number;
+}
+
+export interface PatchResult {
+  content: string;
+  hunkCount: number;
+  rejected: RejectedHunk[];
+}
+
+/**
+ * Parses the hunks of a unified diff. Lenient with model output: file headers are optional, hunk
+ * headers may omit line numbers, and blank or unprefixed lines count as context.
+ */
+export function parseUnifiedDiff(diff: string): PatchHunk[] {
+  const lines = diff.replace(/\r\n?/g, '\n').split('\n');
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | undefined;
+
+  lines.forEach((line, index) => {
+    if (line.startsWith('@@')) {
+      const oldStart = /^@@ -(\d+)/.exec(line)?.[1];
+
+      current = { header: line, oldStart: oldStart === undefined ? undefined : Number(oldStart), lines: [] };
+      hunks.push(current);
+
+      return;
+    }
+
+    // a file header ends the previous file's hunks
+    if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+      current = undefined;
+      return;
+    }
+
+    // lines before the first hunk, and "\ No newline at end of file"
+    if (!current || line.startsWith('\\')) {
+      return;
+    }
+
+    const op = line[0];
+
+    if (op === '-' || op === '+' || op === ' ') {
+      current.lines.push({ op, text: line.slice(1) });
+    } else {
+      current.lines.push({ op: ' ', text: line });
+    }
+  });
+
+  // blank lines and a closing markdown fence after the last hunk
+  for (const hunk of hunks) {
+    while (hunk.lines.length > 0) {
+      const { op, text } = hunk.lines[hunk.lines.length - 1];
+
+      if (op !== ' ' || (text.trim() !== '' && text.trim() !== '```')) {
+        break;
+      }
+
+      hunk.lines.pop();
+    }
+  }
+
+  return hunks;
+}
+
+function trimContext(lines: HunkLine[], fuzz: number) {
+  let start = 0;
+  let end = lines.length;
+
+  while (start < fuzz && lines[start]?.op === ' ') {
+    start++;
+  }
+
+  while (lines.length - end < fuzz && end > start && lines[end - 1].op === ' ') {
+    end--;
+  }
+
+  return { lines: lines.slice(start, end), leading: start };
+}
+
+// the position of `oldLines` in `fileLines` at or after `from` closest to `expected`
+function findLines(fileLines: string[], oldLines: string[], expected: number, from: number) {
+  const last = fileLines.length - oldLines.length;
+
+  for (const matches of LINE_MATCHERS) {
+    let best = -1;
+
+    for (let position = from; position <= last; position++) {
+      if (best !== -1 && Math.abs(position - expected) >= Math.abs(best - expected)) {
+        break;
+      }
+
+      if (oldLines.every((line, index) => matches(fileLines[position + index], line))) {
+        best = position;
+      }
+    }
+
+    if (best !== -1) {
+      return best;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Applies a unified diff to `content` hunk by hunk. A hunk is placed where its removed and context
+ * lines match, nearest to its header's line number; whitespace changes are tolerated and up to
+ * `MAX_FUZZ` context lines may be dropped from either end. Hunks that match nowhere are skipped and
+ * returned as `rejected`, the others are applied.
+ */
+export function applyUnifiedDiff(content: string, diff: string): PatchResult {
+  const hunks = parseUnifiedDiff(diff);
+  const fileLines = content.split('\n');
+  const rejected: RejectedHunk[] = [];
+
+  // how far the applied hunks moved the lines after them, to place the next one
+  let offset = 0;
+
+  // hunks apply in order, so each one is searched for after the previous one
+  let from = 0;
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const expectedLine = Math.max(0, hunk.oldStart === undefined ? from : hunk.oldStart - 1 + offset);
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+      const { lines, leading } = trimContext(hunk.lines, fuzz);
+      const oldLines = lines.filter(({ op }) => op !== '+').map(({ text }) => text);
+
+      // dropping context must leave changes anchored by the lines they remove
+      if (fuzz > 0 && (oldLines.length === 0 || lines.every(({ op }) => op === ' '))) {
+        break;
+      }
+
+      const position =
+        oldLines.length === 0
+          ? Math.min(Math.max(expectedLine, from), fileLines.length)
+          : findLines(fileLines, oldLines, expectedLine + leading, from);
+
+      if (position === -1) {
+        continue;
+      }
+
+      // context lines keep the file's text, which may differ from the hunk's in whitespace
+      const replacement: string[] = [];
+      let cursor = position;
+
+      for (const { op, text } of lines) {
+        if (op === '+') {
+          replacement.push(text);
+        } else if (op === ' ') {
+          replacement.push(fileLines[cursor++]);
+        } else {
+          cursor++;
+        }
+      }
+
+      fileLines.splice(position, oldLines.length, ...replacement);
+
+      if (hunk.oldStart !== undefined) {
+        // hunks found away from their header's line move the ones after them along
+        offset = position - leading - (hunk.oldStart - 1);
+      }
+
+      offset += replacement.length - oldLines.length;
+      from = position + replacement.length;
+
+      return;
+    }
+
+    rejected.push({ index: hunkIndex + 1, hunk, expectedLine: Math.min(expectedLine, fileLines.length) });
+  });
+
+  return { content: fileLines.join('\n'), hunkCount: hunks.length, rejected };
+}
+
+/**
+ * Describes the hunks of a patch to `filePath` that didn't apply, with the current lines where
+ * each was expected, so the model can resend them.
+ */
+export function describeRejectedHunks(filePath: string, { content, hunkCount, rejected }: PatchResult) {
+  const fileLines = content.split('\n');
+  const outcome = rejected.length === hunkCount ? 'The file is unchanged.' : 'The other hunks were applied.';
+
+  const details = rejected.map(({ index, hunk, expectedLine }) => {
+    const hunkText = [hunk.header, ...hunk.lines.map(({ op, text }) => `${op}${text}`)].join('\n');
+    const oldLength = hunk.lines.filter(({ op }) => op !== '+').length;
+    const start = Math.max(0, expectedLine - EXCERPT_MARGIN);
+    const end = Math.min(fileLines.length, expectedLine + oldLength + EXCERPT_MARGIN, start + MAX_EXCERPT_LINES);
+
+    const excerpt = fileLines
+      .slice(start, end)
+      .map((line, lineIndex) => `${start + lineIndex + 1}: ${line}`)
+      .join('\n');
+
+    return `Hunk ${index}:\n${hunkText}\n\nLines ${start + 1}-${end} of the file currently read:\n${excerpt}`;
+  });
+
+  return [
+    `${rejected.length} of ${hunkCount} hunks of the patch to ${filePath} did not match the file and were not applied. ${outcome}`,
+    ...details,
+  ].join('\n\n');
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { applySearchReplaceBlocks, parseSearchReplaceBlocks } from './search-replace';
+
+const block = (search: string[], replace: string[]) =>
+  ['<<<<<<< SEARCH', ...search, '=======', ...replace, '>>>>>>> REPLACE'].join('\n');
+
+describe('parseSearchReplaceBlocks', () => {
+  it('should parse several blocks and ignore text between them', () => {
+    const content = [block(['a'], ['b']), 'some notes', block(['c', 'd'], [])].join('\n');
+
+    expect(parseSearchReplaceBlocks(content)).toEqual([
+      { search: 'a', replace: 'b' },
+      { search: 'c\nd', replace: '' },
+    ]);
+  });
+
+  it('should throw for a block that is not closed', () => {
+    expect(() => parseSearchReplaceBlocks('<<<<<<< SEARCH\na\n=======\nb')).toThrow(/missing its >>>>>>> REPLACE/);
+  });
+});
+
+describe('applySearchReplaceBlocks', () => {
+  it('should apply exact matches in order', () => {
+    const blocks = [
+      { search: 'const a = 1;', replace: 'const a = 2;' },
+      { search: 'const a = 2;\nconst b', replace: 'const a = 3;\nconst c' },
+    ];
+
+    expect(applySearchReplaceBlocks('const a = 1;\nconst b = 1;\n', blocks, 'a.ts')).toBe(
+      'const a = 3;\nconst c = 1;\n',
+    );
+  });
+
+  it('should fall back to matching without whitespace changes and re-indent the replacement', () => {
+    const content = ['function a() {', '    if (x) {', '        return 1;', '    }', '}'].join('\n');
+    const blocks = [{ search: 'if (x) {\n    return  1;\n}', replace: 'if (y) {\n    return 2;\n}' }];
+
+    expect(applySearchReplaceBlocks(content, blocks, 'a.ts')).toBe(
+      ['function a() {', '    if (y) {', '        return 2;', '    }', '}'].join('\n'),
+    );
+  });
+
+  it('should leave the file unchanged and describe every block that did not apply', () => {
+    const content = 'x = 1;\ny = 1;\ny = 1;\n';
+    const blocks = [
+      { search: 'x = 1;', replace: 'x = 2;' },
+      { search: 'y = 1;', replace: 'y = 2;' },
+      { search: 'z = 1;', replace: 'z = 2;' },
+    ];
+
+    const apply = () => applySearchReplaceBlocks(content, blocks, 'a.ts');
+
+    expect(apply).toThrow(/^2 of 3 search\/replace blocks for a\.ts did not apply, so the file is unchanged/);
+    expect(apply).toThrow(/Block 2 of 3: this search text occurs 2 times in a\.ts/);
+    expect(apply).toThrow(/Block 3 of 3: this search text was not found in a\.ts:\nz = 1;/);
+  });
+});
@@ -0,0 +1,182 @@
+const SEARCH_MARKER = /^<{5,9} ?SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} ?REPLACE\s*$/;
+
+// search text quoted in failure messages
+const MAX_QUOTED_LINES = 20;
+
+export interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+}
+
+/**
+ * Parses the blocks of a replace action:
+ *
+ * ```
+ * <<<<<<< SEARCH
+ * text to find
+ * =======
+ * text to put in its place
+ * >>>>>>> REPLACE
+ * ```
+ *
+ * Text outside the blocks is ignored. Throws for a block that isn't closed.
+ */
+export function parseSearchReplaceBlocks(content: string): SearchReplaceBlock[] {
+  const blocks: SearchReplaceBlock[] = [];
+  let current: { search: string[]; replace: string[]; inReplace: boolean } | undefined;
+
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    if (SEARCH_MARKER.test(line)) {
+      if (current) {
+        throw new Error(`Block ${blocks.length + 1} starts before the previous one ended with >>>>>>> REPLACE`);
+      }
+
+      current = { search: [], replace: [], inReplace: false };
+    } else if (current && !current.inReplace && DIVIDER_MARKER.test(line)) {
+      current.inReplace = true;
+    } else if (current?.inReplace && REPLACE_MARKER.test(line)) {
+      blocks.push({ search: current.search.join('\n'), replace: current.replace.join('\n') });
+      current = undefined;
+    } else if (current) {
+      (current.inReplace ? current.replace : current.search).push(line);
+    }
+  }
+
+  if (current) {
+    throw new Error(
+      `Block ${blocks.length + 1} is missing its ${current.inReplace ? '>>>>>>> REPLACE' : '======='} line`,
+    );
+  }
+
+  return blocks;
+}
+
+function normalizeLine(line: string) {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+function countOccurrences(content: string, search: string) {
+  let count = 0;
+
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + 1)) {
+    count++;
+  }
+
+  return count;
+}
+
+function leadingWhitespace(line: string) {
+  return /^\s*/.exec(line)![0];
+}
+
+/**
+ * Finds the search lines ignoring whitespace changes and replaces them. The replacement is
+ * re-indented by the difference between the indentation of the search and the file's.
+ */
+function replaceLoosely(content: string, { search, replace }: SearchReplaceBlock) {
+  const fileLines = content.split('\n');
+  const searchLines = search.split('\n');
+
+  // blank lines around the snippet are not worth failing over
+  while (searchLines.length > 0 && !searchLines[0].trim()) {
+    searchLines.shift();
+  }
+
+  while (searchLines.length > 0 && !searchLines[searchLines.length - 1].trim()) {
+    searchLines.pop();
+  }
+
+  if (searchLines.length === 0) {
+    return { matches: 0 };
+  }
+
+  const normalized = searchLines.map(normalizeLine);
+  const positions: number[] = [];
+
+  for (let position = 0; position <= fileLines.length - searchLines.length; position++) {
+    if (normalized.every((line, index) => normalizeLine(fileLines[position + index]) === line)) {
+      positions.push(position);
+    }
+  }
+
+  if (positions.length !== 1) {
+    return { matches: positions.length };
+  }
+
+  const [position] = positions;
+  const searchIndent = leadingWhitespace(searchLines[0]);
+  const fileIndent = leadingWhitespace(fileLines[position]);
+
+  const replaceLines = replace
+    .split('\n')
+    .map((line) => (line.startsWith(searchIndent) ? fileIndent + line.slice(searchIndent.length) : line));
+
+  fileLines.splice(position, searchLines.length, ...(replace ? replaceLines : []));
+
+  return { matches: 1, content: fileLines.join('\n') };
+}
+
+function quote(text: string) {
+  const lines = text.split('\n');
+  const quoted = lines.slice(0, MAX_QUOTED_LINES).join('\n');
+
+  return lines.length > MAX_QUOTED_LINES ? `${quoted}\n…` : quoted;
+}
+
+/**
+ * Applies the blocks to `content` in order, each to the result of the previous one. A search text
+ * must occur exactly once; it is matched exactly first, then line by line ignoring whitespace
+ * changes. Either all blocks apply or an error describing every failed block is thrown.
+ *
+ * An empty search text fills an empty file.
+ */
+export function applySearchReplaceBlocks(content: string, blocks: SearchReplaceBlock[], filePath: string) {
+  const failures: string[] = [];
+  let result = content;
+
+  blocks.forEach((block, index) => {
+    const label = `Block ${index + 1} of ${blocks.length}`;
+
+    if (!block.search.trim()) {
+      if (result.trim()) {
+        failures.push(`${label} has an empty search text, but ${filePath} is not empty.`);
+      } else {
+        result = block.replace;
+      }
+
+      return;
+    }
+
+    const exactMatches = countOccurrences(result, block.search);
+
+    if (exactMatches === 1) {
+      result = result.replace(block.search, () => block.replace);
+      return;
+    }
+
+    const loose = exactMatches === 0 ? replaceLoosely(result, block) : { matches: exactMatches };
+
+    if (loose.content !== undefined) {
+      result = loose.content;
+    } else if (loose.matches === 0) {
+      failures.push(`${label}: this search text was not found in ${filePath}:\n${quote(block.search)}`);
+    } else {
+      failures.push(
+        `${label}: this search text occurs ${loose.matches} times in ${filePath}; include more surrounding lines so it occurs once:\n${quote(block.search)}`,
+      );
+    }
+  });
+
+  if (failures.length > 0) {
+    throw new Error(
+      [
+        `${failures.length} of ${blocks.length} search/replace blocks for ${filePath} did not apply, so the file is unchanged.`,
+        ...failures,
+      ].join('\n\n'),
+    );
+  }
+
+  return result;
+}
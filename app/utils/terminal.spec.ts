@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getOutputTail, stripEscapeCodes } from './terminal';
+
+describe('stripEscapeCodes', () => {
+  it('should remove colors, cursor movement and erase codes', () => {
+    expect(stripEscapeCodes('\x1b[1;31mError\x1b[0m: \x1b[2K\x1b[1Gbuild failed\x1b[?25h')).toBe('Error: build failed');
+  });
+
+  it('should keep only the last version of lines rewritten with carriage returns', () => {
+    expect(stripEscapeCodes('Progress: 10%\rProgress: 50%\rProgress: 100%\nDone\r\n')).toBe('Progress: 100%\nDone\n');
+  });
+
+  it('should leave plain text unchanged', () => {
+    expect(stripEscapeCodes('added 12 packages\n\nready in 300 ms')).toBe('added 12 packages\n\nready in 300 ms');
+  });
+});
+
+describe('getOutputTail', () => {
+  it('should return short output whole, as plain text', () => {
+    expect(getOutputTail('\n\x1b[32mok\x1b[0m\n', 10)).toEqual({ output: 'ok', truncated: false });
+  });
+
+  it('should keep the end of long output', () => {
+    expect(getOutputTail('first line\nlast line', 9)).toEqual({ output: 'last line', truncated: true });
+  });
+
+  it('should count the length after removing escape codes', () => {
+    expect(getOutputTail('\x1b[1;31mabc\x1b[0m', 3)).toEqual({ output: 'abc', truncated: false });
+  });
+});
@@ -9,3 +9,28 @@ export const escapeCodes = {
 export const coloredText = {
   red: (text: string) => `${escapeCodes.red}${text}${reset}`,
 };
+
+/**
+ * Turns terminal output into plain text: escape codes are removed, and of lines rewritten with
+ * carriage returns, e.g. by progress bars, only the last version is kept.
+ */
+export function stripEscapeCodes(text: string) {
+  return text
+    .replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, '')
+    .split('\n')
+    .map((line) => line.replace(/\r+$/, '').split('\r').pop())
+    .join('\n');
+}
+
+/**
+ * The end of a command's output as plain text, cut to the last `maxLength` characters.
+ */
+export function getOutputTail(output: string, maxLength: number) {
+  const text = stripEscapeCodes(output).trim();
+
+  if (text.length <= maxLength) {
+    return { output: text, truncated: false };
+  }
+
+  return { output: text.slice(-maxLength), truncated: true };
+}
@@ -1,9 +1,13 @@
 import type { ServerBuild } from '@remix-run/cloudflare';
-import { createPagesFunctionHandler } from '@remix-run/cloudflare-pages';
+import { createPagesFunctionHandler, type GetLoadContextFunction } from '@remix-run/cloudflare-pages';
 
 // @ts-ignore because the server build file is generated by `remix vite:build`
 import * as serverBuild from '../build/server';
+import { getLoadContext } from '../load-context';
 
 export const onRequest = createPagesFunctionHandler({
   build: serverBuild as unknown as ServerBuild,
+
+  // pages passes the same `cloudflare` fields as the dev proxy, typed as an `EventContext`
+  getLoadContext: getLoadContext as unknown as GetLoadContextFunction,
 });
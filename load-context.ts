@@ -1,9 +1,23 @@
+import { type AppLoadContext } from '@remix-run/cloudflare';
 import { type PlatformProxy } from 'wrangler';
+import { createRequestAuth, type RequestAuth } from './app/lib/.server/auth';
 
 type Cloudflare = Omit<PlatformProxy<Env>, 'dispose'>;
 
 declare module '@remix-run/cloudflare' {
   interface AppLoadContext {
     cloudflare: Cloudflare;
+
+    /** the caller, resolved from their Supabase access token on first use */
+    auth: RequestAuth;
   }
 }
+
+type GetLoadContext = (args: { request: Request; context: { cloudflare: Cloudflare } }) => AppLoadContext;
+
+export const getLoadContext: GetLoadContext = ({ request, context }) => {
+  return {
+    ...context,
+    auth: createRequestAuth(request, context.cloudflare.env),
+  };
+};
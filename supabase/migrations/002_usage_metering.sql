@@ -0,0 +1,151 @@
+-- Server-side usage metering and plan limit enforcement
+-- Run after 001_initial_schema.sql
+
+-- Count deep research runs alongside tokens
+ALTER TABLE public.usage_counters ADD COLUMN IF NOT EXISTS research_runs INTEGER DEFAULT 0;
+
+-- Current usage and plan limits for a user
+CREATE OR REPLACE FUNCTION public.get_usage_quota(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_id_val TEXT;
+  daily_limit_val BIGINT := 50000;  -- Free tier default
+  monthly_limit_val BIGINT := 1000000;  -- Free tier default
+  research_limit_val INTEGER := 5;  -- Free tier default, per day
+  daily_used_val BIGINT;
+  monthly_used_val BIGINT;
+  research_used_val INTEGER;
+BEGIN
+  SELECT s.plan_id INTO plan_id_val
+  FROM subscriptions s
+  WHERE s.user_id = p_user_id
+    AND s.status = 'active'
+    AND s.current_period_end > NOW()
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF plan_id_val IN ('pro_monthly', 'pro_yearly') THEN
+    daily_limit_val := 1000000;
+    monthly_limit_val := 10000000;
+    research_limit_val := 50;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(uc.daily_tokens_used) FILTER (WHERE uc.date = CURRENT_DATE), 0),
+    COALESCE(SUM(uc.daily_tokens_used), 0),
+    COALESCE(SUM(uc.research_runs) FILTER (WHERE uc.date = CURRENT_DATE), 0)
+  INTO daily_used_val, monthly_used_val, research_used_val
+  FROM usage_counters uc
+  WHERE uc.user_id = p_user_id
+    AND DATE_TRUNC('month', uc.date) = DATE_TRUNC('month', CURRENT_DATE);
+
+  RETURN jsonb_build_object(
+    'plan', COALESCE(plan_id_val, 'free'),
+    'daily_tokens_used', daily_used_val,
+    'daily_tokens_limit', daily_limit_val,
+    'monthly_tokens_used', monthly_used_val,
+    'monthly_tokens_limit', monthly_limit_val,
+    'research_runs_used', research_used_val,
+    'research_runs_limit', research_limit_val,
+    'daily_reset_at', (CURRENT_DATE + 1)::TIMESTAMP AT TIME ZONE 'UTC',
+    'monthly_reset_at', (DATE_TRUNC('month', CURRENT_DATE) + INTERVAL '1 month')::TIMESTAMP AT TIME ZONE 'UTC'
+  );
+END;
+$$;
+
+-- Checks the user's limits and records usage in one transaction.
+-- With p_enforce the call is rejected (allowed = false, nothing recorded) when the user is
+-- already over a token limit or the research runs would exceed the daily allowance.
+CREATE OR REPLACE FUNCTION public.meter_usage(
+  p_user_id UUID,
+  p_tokens INTEGER DEFAULT 0,
+  p_research_runs INTEGER DEFAULT 0,
+  p_enforce BOOLEAN DEFAULT TRUE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota JSONB;
+BEGIN
+  -- Serialize concurrent requests of the same user so check and increment are atomic
+  PERFORM pg_advisory_xact_lock(hashtext('usage:' || p_user_id::TEXT));
+
+  quota := get_usage_quota(p_user_id);
+
+  IF p_enforce THEN
+    IF (quota->>'daily_tokens_used')::BIGINT >= (quota->>'daily_tokens_limit')::BIGINT THEN
+      RETURN quota || jsonb_build_object('allowed', FALSE, 'exceeded', 'daily_tokens');
+    END IF;
+
+    IF (quota->>'monthly_tokens_used')::BIGINT >= (quota->>'monthly_tokens_limit')::BIGINT THEN
+      RETURN quota || jsonb_build_object('allowed', FALSE, 'exceeded', 'monthly_tokens');
+    END IF;
+
+    IF p_research_runs > 0
+      AND (quota->>'research_runs_used')::INTEGER + p_research_runs > (quota->>'research_runs_limit')::INTEGER THEN
+      RETURN quota || jsonb_build_object('allowed', FALSE, 'exceeded', 'daily_research');
+    END IF;
+  END IF;
+
+  IF p_tokens > 0 OR p_research_runs > 0 THEN
+    INSERT INTO usage_counters (user_id, date, daily_tokens_used, monthly_tokens_used, research_runs)
+    VALUES (p_user_id, CURRENT_DATE, p_tokens, p_tokens, p_research_runs)
+    ON CONFLICT (user_id, date) DO UPDATE SET
+      daily_tokens_used = usage_counters.daily_tokens_used + EXCLUDED.daily_tokens_used,
+      monthly_tokens_used = usage_counters.monthly_tokens_used + EXCLUDED.monthly_tokens_used,
+      research_runs = usage_counters.research_runs + EXCLUDED.research_runs,
+      updated_at = NOW();
+
+    quota := get_usage_quota(p_user_id);
+  END IF;
+
+  RETURN quota || jsonb_build_object('allowed', TRUE);
+END;
+$$;
+
+-- Only the server (service role) may meter usage; users could otherwise reset their own counters
+REVOKE EXECUTE ON FUNCTION public.meter_usage(UUID, INTEGER, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_usage_quota(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.meter_usage(UUID, INTEGER, INTEGER, BOOLEAN) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_usage_quota(UUID) TO service_role;
+
+-- Counters are written by meter_usage only
+DROP POLICY IF EXISTS "Users can update their own usage" ON public.usage_counters;
+DROP POLICY IF EXISTS "Users can insert their own usage" ON public.usage_counters;
+
+-- Fix get_user_usage: daily usage previously summed the whole month
+CREATE OR REPLACE FUNCTION get_user_usage(user_id UUID)
+RETURNS TABLE (
+  daily_used BIGINT,
+  daily_limit BIGINT,
+  monthly_used BIGINT,
+  monthly_limit BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quota JSONB;
+BEGIN
+  IF auth.uid() IS DISTINCT FROM get_user_usage.user_id THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  quota := get_usage_quota(get_user_usage.user_id);
+
+  RETURN QUERY
+  SELECT
+    (quota->>'daily_tokens_used')::BIGINT,
+    (quota->>'daily_tokens_limit')::BIGINT,
+    (quota->>'monthly_tokens_used')::BIGINT,
+    (quota->>'monthly_tokens_limit')::BIGINT;
+END;
+$$;
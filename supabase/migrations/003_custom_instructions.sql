@@ -0,0 +1,9 @@
+-- Standing instructions a user gives Gleio, added to the system prompt of every chat
+-- Run after 002_usage_metering.sql
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS custom_instructions TEXT;
+
+-- keep in sync with MAX_CUSTOM_INSTRUCTIONS_LENGTH in app/lib/.server/llm/instructions.ts
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_custom_instructions_length;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_custom_instructions_length
+  CHECK (char_length(custom_instructions) <= 4000);
@@ -0,0 +1,69 @@
+-- Knowledge base entries, synced from each browser's local copy
+-- Run after 003_custom_instructions.sql
+
+CREATE TABLE IF NOT EXISTS public.knowledge_entries (
+  -- generated by the client, so entries created offline keep their id
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL DEFAULT '',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+
+  -- name of the file the entry was imported from
+  source TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- when the entry was last edited on a client; the newest edit wins
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- deleted entries are kept as tombstones so other browsers remove them too
+  deleted_at TIMESTAMPTZ,
+
+  -- when the server last stored the row; clients pull the rows changed since their last sync
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, id),
+
+  -- keep in sync with MAX_ENTRY_LENGTH in app/lib/knowledge/import.ts
+  CONSTRAINT knowledge_entries_content_length CHECK (char_length(content) <= 100000)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_entries_user_synced ON public.knowledge_entries(user_id, synced_at);
+
+ALTER TABLE public.knowledge_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own knowledge entries" ON public.knowledge_entries;
+CREATE POLICY "Users can view their own knowledge entries" ON public.knowledge_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own knowledge entries" ON public.knowledge_entries;
+CREATE POLICY "Users can insert their own knowledge entries" ON public.knowledge_entries
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own knowledge entries" ON public.knowledge_entries;
+CREATE POLICY "Users can update their own knowledge entries" ON public.knowledge_entries
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own knowledge entries" ON public.knowledge_entries;
+CREATE POLICY "Users can delete their own knowledge entries" ON public.knowledge_entries
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Stamps every write with the server time, and drops writes older than the stored edit so a
+-- browser that was offline can't overwrite newer changes
+CREATE OR REPLACE FUNCTION public.knowledge_entries_before_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.updated_at < OLD.updated_at THEN
+    RETURN OLD;
+  END IF;
+
+  NEW.synced_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS knowledge_entries_before_write ON public.knowledge_entries;
+CREATE TRIGGER knowledge_entries_before_write
+  BEFORE INSERT OR UPDATE ON public.knowledge_entries
+  FOR EACH ROW EXECUTE FUNCTION public.knowledge_entries_before_write();
@@ -0,0 +1,43 @@
+-- Collections that group knowledge base entries, so chats only receive the ones attached to them
+-- Run after 004_knowledge_entries.sql
+
+CREATE TABLE IF NOT EXISTS public.knowledge_collections (
+  -- generated by the client, like knowledge entry ids
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_collections_user_synced ON public.knowledge_collections(user_id, synced_at);
+
+-- entries without a collection are shared by every chat
+ALTER TABLE public.knowledge_entries ADD COLUMN IF NOT EXISTS collection_id TEXT;
+
+ALTER TABLE public.knowledge_collections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own knowledge collections" ON public.knowledge_collections;
+CREATE POLICY "Users can view their own knowledge collections" ON public.knowledge_collections
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own knowledge collections" ON public.knowledge_collections;
+CREATE POLICY "Users can insert their own knowledge collections" ON public.knowledge_collections
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own knowledge collections" ON public.knowledge_collections;
+CREATE POLICY "Users can update their own knowledge collections" ON public.knowledge_collections
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own knowledge collections" ON public.knowledge_collections;
+CREATE POLICY "Users can delete their own knowledge collections" ON public.knowledge_collections
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- same last-writer-wins rules as knowledge_entries
+DROP TRIGGER IF EXISTS knowledge_collections_before_write ON public.knowledge_collections;
+CREATE TRIGGER knowledge_collections_before_write
+  BEFORE INSERT OR UPDATE ON public.knowledge_collections
+  FOR EACH ROW EXECUTE FUNCTION public.knowledge_entries_before_write();
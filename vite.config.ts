@@ -5,6 +5,7 @@ import { nodePolyfills } from 'vite-plugin-node-polyfills';
 import { optimizeCssModules } from 'vite-plugin-optimize-css-modules';
 import tsconfigPaths from 'vite-tsconfig-paths';
 import path from 'path';
+import { getLoadContext } from './load-context';
 
 export default defineConfig((config) => {
   return {
@@ -31,7 +32,7 @@ export default defineConfig((config) => {
           process: true,
         },
       }),
-      config.mode !== 'test' && remixCloudflareDevProxy(),
+      config.mode !== 'test' && remixCloudflareDevProxy({ getLoadContext }),
       remixVitePlugin({
         future: {
           v3_fetcherPersist: true,
@@ -5,4 +5,49 @@ interface Env {
   // Optional model selection for OpenRouter (used by stream-text)
   OPENROUTER_MODEL?: string;
   LLM_MODEL?: string;
+
+  // optional models for requests classified as chit-chat, builds, bug fixes, strategy or research; see `routeChat`
+  LLM_MODEL_CHAT?: string;
+  LLM_MODEL_BUILD?: string;
+  LLM_MODEL_FIX?: string;
+  LLM_MODEL_STRATEGY?: string;
+  LLM_MODEL_RESEARCH?: string;
+
+  // optional embedding model for knowledge base retrieval, e.g. openai:text-embedding-3-small; BM25 only when unset
+  KNOWLEDGE_EMBEDDING_MODEL?: string;
+
+  // optional default provider: openrouter, openai or anthropic
+  LLM_PROVIDER?: string;
+
+  // optional OpenAI-compatible base URL used with OPENAI_API_KEY
+  OPENAI_BASE_URL?: string;
+
+  // optional self-hosted OpenAI-compatible server (Ollama, LM Studio, llama.cpp), e.g. http://localhost:11434/v1
+  OPENAI_COMPAT_BASE_URL?: string;
+  OPENAI_COMPAT_API_KEY?: string;
+
+  // comma-separated models for OPENAI_COMPAT_BASE_URL; discovered via `/models` when unset
+  OPENAI_COMPAT_MODEL?: string;
+
+  // optional OpenRouter overrides; attribution headers are only sent when set
+  OPENROUTER_BASE_URL?: string;
+  OPENROUTER_SITE_URL?: string;
+  OPENROUTER_APP_NAME?: string;
+
+  // optional supabase project used to authenticate callers and meter usage; SUPABASE_URL defaults to VITE_SUPABASE_URL
+  SUPABASE_URL?: string;
+  SUPABASE_ANON_KEY?: string;
+  SUPABASE_SERVICE_ROLE_KEY?: string;
+
+  // legacy HS256 JWT secret; projects using asymmetric signing keys are verified through their JWKS
+  SUPABASE_JWT_SECRET?: string;
+
+  // set to 1 to use the API routes without signing in while no supabase project is configured, for local development
+  AUTH_DISABLED?: string;
+
+  // signing secret of the Stripe webhook endpoint; webhook events are rejected when unset
+  STRIPE_WEBHOOK_SECRET?: string;
+
+  // optional KV namespace that buffers chat generations so clients can resume them; kept in memory when unbound
+  CHAT_STREAMS?: KVNamespace;
 }